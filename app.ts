@@ -2,18 +2,31 @@ import cookieParser from 'cookie-parser';
 import express, { NextFunction, Request, Response } from 'express';
 import createError from 'http-errors';
 import path from 'path';
+import { config } from './src/config';
+import { preserveRequestContext } from './src/logging';
+import { errorHandler } from './src/middleware/error-handler';
+import { recordRawBody } from './src/middleware/idempotency-middleware';
 import { logger } from './src/middleware/logger';
+import { collectHttpMetrics } from './src/middleware/metrics-middleware';
+import { requestId } from './src/middleware/request-id-middleware';
 import indexRouter from './src/routes/index';
 
 const app = express();
 
+app.set('env', config.env);
+// req.ip, and so rate limiting by IP, reads X-Forwarded-For from the proxies trusted here
+app.set('trust proxy', config.trustProxy);
+
 // view engine setup
 app.set('views', path.join(__dirname, 'views'));
 app.set('view engine', 'jade');
 
+app.use(requestId());
 app.use(logger);
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+app.use(collectHttpMetrics());
+// large enough for a full batch of POST /users/bulk operations
+app.use(preserveRequestContext(express.json({ limit: '1mb', verify: recordRawBody })));
+app.use(preserveRequestContext(express.urlencoded({ extended: false, verify: recordRawBody })));
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, 'public')));
 
@@ -25,15 +38,6 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 });
 
 // error handler
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  // set locals, only providing error in development
-  res.locals.message = err.message;
-  res.locals.error = req.app.get('env') === 'development' ? err : {};
-
-  // render the error page
-  res.status(err.status || 500);
-  res.render('error');
-});
+app.use(errorHandler);
 
 export default app;
@@ -5,17 +5,18 @@
  * Module dependencies.
  */
 
-import debug from 'debug';
 import http from 'http';
 import app from '../app';
-
-const debugLogger = debug('api-demo-node:server');
+import { config } from '../src/config';
+import { readiness } from '../src/health';
+import { logger } from '../src/logging';
+import { createGracefulShutdown } from '../src/utils/graceful-shutdown';
 
 /**
- * Get port from environment and store in Express.
+ * Get port from the config and store in Express.
  */
 
-const port = normalizePort(process.env.PORT || '3000');
+const port = config.port;
 app.set('port', port);
 
 /**
@@ -25,7 +26,7 @@ app.set('port', port);
 const server = http.createServer(app);
 
 /**
- * Listen on provided port, on all network interfaces.
+ * Listen on provided port, on all network interfaces, or on a socket or named pipe.
  */
 
 server.listen(port);
@@ -33,24 +34,17 @@ server.on('error', onError);
 server.on('listening', onListening);
 
 /**
- * Normalize a port into a number, string, or false.
+ * Drain in-flight requests before exiting when the container is stopped.
  */
 
-function normalizePort(val: string): number | string | false {
-  const portNum = parseInt(val, 10);
-
-  if (isNaN(portNum)) {
-    // named pipe
-    return val;
-  }
-
-  if (portNum >= 0) {
-    // port number
-    return portNum;
-  }
+const shutDown = createGracefulShutdown(server, {
+  readiness,
+  timeoutMs: config.shutdown.timeoutMs,
+  drainDelayMs: config.shutdown.drainDelayMs,
+});
 
-  return false;
-}
+process.on('SIGTERM', () => shutDown('SIGTERM'));
+process.on('SIGINT', () => shutDown('SIGINT'));
 
 /**
  * Event listener for HTTP server "error" event.
@@ -66,10 +60,10 @@ function onError(error: NodeJS.ErrnoException): void {
   // handle specific listen errors with friendly messages
   switch (error.code) {
     case 'EACCES':
-      console.error(bind + ' requires elevated privileges');
+      logger.error(bind + ' requires elevated privileges');
       process.exit(1);
     case 'EADDRINUSE':
-      console.error(bind + ' is already in use');
+      logger.error(bind + ' is already in use');
       process.exit(1);
     default:
       throw error;
@@ -83,6 +77,5 @@ function onError(error: NodeJS.ErrnoException): void {
 function onListening(): void {
   const addr = server.address();
   const bind = typeof addr === 'string' ? 'pipe ' + addr : 'port ' + addr?.port;
-  console.log('Listening on ' + bind);
-  debugLogger('Listening on ' + bind);
+  logger.info('Listening on ' + bind);
 }
@@ -0,0 +1,22 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+export type AuthClient = {
+  clientId: string;
+  clientSecret: string;
+  // the principal tokens issued to this client act as
+  subject: string;
+  roles: string[];
+};
+
+// hashing first lets secrets of different lengths be compared in constant time
+function secretsMatch(expected: string, actual: string) {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+
+  return timingSafeEqual(digest(expected), digest(actual));
+}
+
+export function findClient(clients: AuthClient[], clientId: string, clientSecret: string): AuthClient | undefined {
+  const client = clients.find((candidate) => candidate.clientId === clientId);
+
+  return client && secretsMatch(client.clientSecret, clientSecret) ? client : undefined;
+}
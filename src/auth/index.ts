@@ -0,0 +1,17 @@
+import { config } from '../config';
+import { loadKeyStore } from './keys';
+
+export type { AuthClient } from './clients';
+export { findClient } from './clients';
+export type { KeyDefinition, KeyStore, SigningKey } from './keys';
+export { createKeyStore, loadKeyStore } from './keys';
+export type { Permission, Policy, Role, Scope } from './policy';
+export { isAllowed, userPolicy } from './policy';
+export type { Principal } from './principal';
+export type { TokenOptions } from './tokens';
+export { signToken, verifyToken } from './tokens';
+
+export const keyStore = loadKeyStore(config.auth);
+// a copy, so clients can be registered at runtime
+export const authClients = [...config.auth.clients];
+export const tokenOptions = config.auth.token;
@@ -0,0 +1,110 @@
+import { createPrivateKey, createPublicKey, JsonWebKey, KeyObject, randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+
+export type SigningAlgorithm = 'HS256' | 'RS256';
+
+export type KeyDefinition =
+  | { kid: string; alg: 'HS256'; secret: string }
+  | {
+      kid: string;
+      alg: 'RS256';
+      privateKey?: string;
+      privateKeyPath?: string;
+      publicKey?: string;
+      publicKeyPath?: string;
+    };
+
+export type SigningKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  // HMAC secret or RSA private key; absent for retired keys that only verify old tokens
+  signingKey?: string | KeyObject;
+  verificationKey: string | KeyObject;
+};
+
+export type KeyStore = {
+  activeKey: SigningKey;
+  find(kid: string): SigningKey | undefined;
+  jwks(): { keys: JsonWebKey[] };
+};
+
+function readPem(value: string | undefined, path: string | undefined) {
+  return value ?? (path ? fs.readFileSync(path, 'utf8') : undefined);
+}
+
+function toSigningKey(definition: KeyDefinition): SigningKey {
+  if (definition.alg === 'HS256') {
+    return { kid: definition.kid, alg: 'HS256', signingKey: definition.secret, verificationKey: definition.secret };
+  }
+
+  const privatePem = readPem(definition.privateKey, definition.privateKeyPath);
+  const publicPem = readPem(definition.publicKey, definition.publicKeyPath);
+  const privateKey = privatePem ? createPrivateKey(privatePem) : undefined;
+
+  if (!privateKey && !publicPem) {
+    throw new Error(`RS256 key "${definition.kid}" needs a private or public key`);
+  }
+
+  return {
+    kid: definition.kid,
+    alg: 'RS256',
+    signingKey: privateKey,
+    verificationKey: publicPem ? createPublicKey(publicPem) : createPublicKey(privateKey as KeyObject),
+  };
+}
+
+/**
+ * Builds a key store from key definitions. The first key able to sign is the active signing key;
+ * the others stay available to verify tokens issued before a rotation, looked up by the token's kid.
+ */
+export function createKeyStore(definitions: KeyDefinition[]): KeyStore {
+  const keys = definitions.map(toSigningKey);
+  const activeKey = keys.find((key) => key.signingKey !== undefined);
+
+  if (!activeKey) {
+    throw new Error('At least one signing key must be configured');
+  }
+
+  const kids = new Set(keys.map((key) => key.kid));
+  if (kids.size !== keys.length) {
+    throw new Error('Signing key ids must be unique');
+  }
+
+  return {
+    activeKey,
+
+    find(kid) {
+      return keys.find((key) => key.kid === kid);
+    },
+
+    // only public keys are published; HMAC secrets never leave the server
+    jwks() {
+      return {
+        keys: keys
+          .filter((key) => key.alg === 'RS256')
+          .map((key) => ({
+            ...(key.verificationKey as KeyObject).export({ format: 'jwk' }),
+            kid: key.kid,
+            alg: key.alg,
+            use: 'sig',
+          })),
+      };
+    },
+  };
+}
+
+/**
+ * Uses the configured key definitions or a single HS256 secret. Without either, a random secret is
+ * generated, so issued tokens stop working when the process restarts.
+ */
+export function loadKeyStore({ keys, secret }: { keys?: KeyDefinition[]; secret?: string }): KeyStore {
+  if (keys) {
+    return createKeyStore(keys);
+  }
+
+  if (secret) {
+    return createKeyStore([{ kid: 'default', alg: 'HS256', secret }]);
+  }
+
+  return createKeyStore([{ kid: randomUUID(), alg: 'HS256', secret: randomBytes(32).toString('hex') }]);
+}
@@ -0,0 +1,50 @@
+import { Principal } from './principal';
+
+export type Role = 'admin' | 'manager' | 'self';
+
+export type Permission =
+  | 'user:list'
+  | 'user:list-deleted'
+  | 'user:read'
+  | 'user:create'
+  | 'user:update'
+  | 'user:delete'
+  | 'user:restore'
+  | 'user:purge'
+  | 'user:history'
+  | 'audit:list'
+  | 'webhook:manage';
+
+// 'own' only applies when the principal is the user being acted on
+export type Scope = 'any' | 'own';
+
+export type Policy = Record<Permission, Partial<Record<Role, Scope>>>;
+
+export const userPolicy: Policy = {
+  'user:list': { admin: 'any', manager: 'any' },
+  'user:list-deleted': { admin: 'any' },
+  'user:read': { admin: 'any', manager: 'any', self: 'own' },
+  'user:create': { admin: 'any', manager: 'any' },
+  'user:update': { admin: 'any', manager: 'any', self: 'own' },
+  'user:delete': { admin: 'any' },
+  'user:restore': { admin: 'any' },
+  'user:purge': { admin: 'any' },
+  'user:history': { admin: 'any', manager: 'any', self: 'own' },
+  'audit:list': { admin: 'any' },
+  'webhook:manage': { admin: 'any' },
+};
+
+export function isAllowed(
+  principal: Principal,
+  permission: Permission,
+  ownerId?: string,
+  policy: Policy = userPolicy,
+): boolean {
+  const grants = policy[permission];
+
+  return principal.roles.some((role) => {
+    const scope = grants[role as Role];
+
+    return scope === 'any' || (scope === 'own' && ownerId !== undefined && ownerId === principal.subject);
+  });
+}
@@ -0,0 +1,12 @@
+export type Principal = {
+  subject: string;
+  roles: string[];
+  clientId?: string;
+};
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // set by the authenticate middleware once a bearer token has been verified
+    principal?: Principal;
+  }
+}
@@ -0,0 +1,69 @@
+import jwt, { JwtPayload, TokenExpiredError } from 'jsonwebtoken';
+import { UnauthorizedError } from '../errors';
+import { KeyStore } from './keys';
+import { Principal } from './principal';
+
+export type TokenOptions = {
+  issuer: string;
+  audience: string;
+  // lifetime in seconds
+  expiresIn: number;
+};
+
+export function signToken(principal: Principal, keyStore: KeyStore, options: TokenOptions): string {
+  const { kid, alg, signingKey } = keyStore.activeKey;
+
+  return jwt.sign(
+    { roles: principal.roles, ...(principal.clientId && { client_id: principal.clientId }) },
+    signingKey!,
+    {
+      algorithm: alg,
+      keyid: kid,
+      subject: principal.subject,
+      issuer: options.issuer,
+      audience: options.audience,
+      expiresIn: options.expiresIn,
+    },
+  );
+}
+
+export function verifyToken(token: string, keyStore: KeyStore, options: TokenOptions): Principal {
+  const decoded = jwt.decode(token, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new UnauthorizedError('Invalid token: jwt malformed');
+  }
+
+  const key = decoded.header.kid ? keyStore.find(decoded.header.kid) : undefined;
+
+  if (!key) {
+    throw new UnauthorizedError('Invalid token: unknown signing key');
+  }
+
+  let payload: JwtPayload;
+
+  try {
+    // pinning the algorithm to the key's stops tokens from choosing how they are verified
+    payload = jwt.verify(token, key.verificationKey, {
+      algorithms: [key.alg],
+      issuer: options.issuer,
+      audience: options.audience,
+    }) as JwtPayload;
+  } catch (error) {
+    if (error instanceof TokenExpiredError) {
+      throw new UnauthorizedError('Token has expired');
+    }
+
+    throw new UnauthorizedError(`Invalid token: ${(error as Error).message}`);
+  }
+
+  if (!payload.sub) {
+    throw new UnauthorizedError('Invalid token: missing subject');
+  }
+
+  return {
+    subject: payload.sub,
+    roles: Array.isArray(payload.roles) ? payload.roles : [],
+    ...(payload.client_id && { clientId: payload.client_id }),
+  };
+}
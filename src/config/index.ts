@@ -0,0 +1,19 @@
+import { ConfigError, loadConfig } from './load-config';
+
+export type { Config, LoadConfigOptions, NodeEnv } from './load-config';
+export { ConfigError, loadConfig, readEnvironment } from './load-config';
+
+function loadConfigOrExit() {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+
+    // the logger is configured from here, so the report goes straight to stderr
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+// read once at startup; every module takes its settings from here instead of process.env
+export const config = loadConfigOrExit();
@@ -0,0 +1,136 @@
+import { parse } from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import type { AuthClient } from '../auth/clients';
+import type { KeyDefinition } from '../auth/keys';
+import type { TokenOptions } from '../auth/tokens';
+import type { LogLevel } from '../logging/logger';
+import { envSchema, nodeEnvs } from '../validation/schemas/env.schema';
+
+export type NodeEnv = (typeof nodeEnvs)[number];
+
+export type Config = {
+  env: NodeEnv;
+  // a socket or named pipe path when not a TCP port
+  port: number | string;
+  logging: { level: LogLevel | 'silent'; redact: string[] };
+  storage: { userStore: 'memory' | 'sqlite'; sqliteFilename: string };
+  auth: {
+    // JWT_KEYS wins over JWT_SECRET; with neither a random key is generated at startup
+    keys?: KeyDefinition[];
+    secret?: string;
+    token: TokenOptions;
+    clients: AuthClient[];
+  };
+  requireIfMatch: boolean;
+  trustProxy: boolean | number | string;
+  webhooks: { maxAttempts: number; retryDelayMs: number; timeoutMs: number };
+  sse: { heartbeatMs: number; retryMs: number; replayBuffer: number };
+  rateLimit: { windowMs: number; createUser: number; issueToken: number };
+  idempotency: { ttlMs: number };
+  shutdown: { timeoutMs: number; drainDelayMs: number };
+};
+
+export type LoadConfigOptions = {
+  env?: NodeJS.ProcessEnv;
+  // where .env files are looked up
+  cwd?: string;
+};
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// defaults that depend on where the service runs; anything set explicitly still wins
+const environmentDefaults: Record<NodeEnv, Record<string, string>> = {
+  development: { LOG_LEVEL: 'debug' },
+  test: { LOG_LEVEL: 'silent' },
+  production: { LOG_LEVEL: 'info' },
+};
+
+function readEnvFile(cwd: string, name: string): Record<string, string> {
+  const file = path.join(cwd, name);
+
+  return fs.existsSync(file) ? parse(fs.readFileSync(file)) : {};
+}
+
+// empty values, as left behind by a copied .env.example, count as unset
+const withoutEmptyValues = (env: NodeJS.ProcessEnv) =>
+  Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+
+/**
+ * Reads `.env` and then `.env.<NODE_ENV>`, with real environment variables taking precedence over both.
+ * Tests only read `.env.test`, so a developer's local `.env` cannot change how they run.
+ */
+export function readEnvironment({ env = process.env, cwd = process.cwd() }: LoadConfigOptions = {}) {
+  const variables = withoutEmptyValues(env);
+  const base = readEnvFile(cwd, '.env');
+  const nodeEnv = variables.NODE_ENV ?? base.NODE_ENV ?? 'development';
+
+  return {
+    ...environmentDefaults[nodeEnv as NodeEnv],
+    ...(nodeEnv !== 'test' && withoutEmptyValues(base)),
+    ...withoutEmptyValues(readEnvFile(cwd, `.env.${nodeEnv}`)),
+    ...variables,
+  };
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+
+  return value;
+}
+
+/**
+ * Validates the environment against the schema and maps it onto the typed config. Every problem is
+ * reported at once, so a misconfigured deploy fails on startup with the full list instead of one at a time.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Readonly<Config> {
+  const { value, error } = envSchema.validate(readEnvironment(options), {
+    abortEarly: false,
+    stripUnknown: true,
+  });
+
+  if (error) {
+    throw new ConfigError(error.details.map(({ path, message }) => `${path.join('.')}: ${message}`));
+  }
+
+  return deepFreeze({
+    env: value.NODE_ENV,
+    port: value.PORT ?? value.API_PORT ?? 3000,
+    trustProxy: value.TRUST_PROXY,
+    logging: {
+      level: value.LOG_LEVEL,
+      redact: value.LOG_REDACT.split(',')
+        .map((field: string) => field.trim())
+        .filter(Boolean),
+    },
+    storage: { userStore: value.USER_STORE, sqliteFilename: value.SQLITE_FILENAME },
+    auth: {
+      ...(value.JWT_KEYS && { keys: value.JWT_KEYS }),
+      ...(value.JWT_SECRET && { secret: value.JWT_SECRET }),
+      token: { issuer: value.JWT_ISSUER, audience: value.JWT_AUDIENCE, expiresIn: value.JWT_EXPIRES_IN },
+      clients: value.AUTH_CLIENTS,
+    },
+    requireIfMatch: value.REQUIRE_IF_MATCH,
+    webhooks: {
+      maxAttempts: value.WEBHOOK_MAX_ATTEMPTS,
+      retryDelayMs: value.WEBHOOK_RETRY_DELAY_MS,
+      timeoutMs: value.WEBHOOK_TIMEOUT_MS,
+    },
+    sse: { heartbeatMs: value.SSE_HEARTBEAT_MS, retryMs: value.SSE_RETRY_MS, replayBuffer: value.SSE_REPLAY_BUFFER },
+    rateLimit: {
+      windowMs: value.RATE_LIMIT_WINDOW_MS,
+      createUser: value.RATE_LIMIT_CREATE_USER,
+      issueToken: value.RATE_LIMIT_ISSUE_TOKEN,
+    },
+    idempotency: { ttlMs: value.IDEMPOTENCY_TTL_MS },
+    shutdown: { timeoutMs: value.SHUTDOWN_TIMEOUT_MS, drainDelayMs: value.SHUTDOWN_DRAIN_DELAY_MS },
+  });
+}
@@ -0,0 +1,35 @@
+import { AuditAction, AuditEntry } from '../../models/audit-model';
+import { AuditRepository, auditRepository } from '../../repositories/audit';
+import { Cursor, Page, paginate, sortBy, SortField } from '../../utils/pagination';
+
+export type AuditListQuery = {
+  limit?: number;
+  offset?: number;
+  cursor?: Cursor;
+  userId?: string;
+  actor?: string;
+  action?: AuditAction;
+};
+
+const DEFAULT_LIMIT = 20;
+
+// newest first; ids grow with every append so they order entries recorded in the same millisecond
+const NEWEST_FIRST: SortField<AuditEntry>[] = [{ field: 'id', direction: 'desc' }];
+
+export function listAuditEntries(
+  query: AuditListQuery = {},
+  repository: AuditRepository = auditRepository,
+): Page<AuditEntry> {
+  const { limit = DEFAULT_LIMIT, offset, cursor, userId, actor, action } = query;
+
+  const matchingEntries = repository
+    .list()
+    .filter(
+      (entry) =>
+        (userId === undefined || entry.userId === userId) &&
+        (actor === undefined || entry.actor === actor) &&
+        (action === undefined || entry.action === action),
+    );
+
+  return paginate(sortBy(matchingEntries, NEWEST_FIRST), NEWEST_FIRST, { limit, offset, cursor });
+}
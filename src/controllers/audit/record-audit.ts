@@ -0,0 +1,40 @@
+import { AuditAction, AuditContext, AuditEntry, FieldChange } from '../../models/audit-model';
+import { User } from '../../models/users-model';
+import { AuditRepository, auditRepository } from '../../repositories/audit';
+
+// bookkeeping that changes on every write and would only add noise to the diff
+const ignoredFields = ['updatedAt'];
+
+// field-level before/after diff; a missing side (creation, purge) is recorded as null
+export function diffUsers(before: User | undefined, after: User | undefined): Record<string, FieldChange> {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: Record<string, FieldChange> = {};
+
+  fields.forEach((field) => {
+    const previous = before?.[field as keyof User] ?? null;
+    const next = after?.[field as keyof User] ?? null;
+
+    if (!ignoredFields.includes(field) && previous !== next) {
+      changes[field] = { before: previous, after: next };
+    }
+  });
+
+  return changes;
+}
+
+export function recordAudit(
+  action: AuditAction,
+  before: User | undefined,
+  after: User | undefined,
+  context: AuditContext,
+  repository: AuditRepository = auditRepository,
+): AuditEntry {
+  return repository.append({
+    userId: (after ?? before)!.id,
+    actor: context.actor,
+    action,
+    timestamp: new Date().toISOString(),
+    changes: diffUsers(before, after),
+    ...(context.requestId && { requestId: context.requestId }),
+  });
+}
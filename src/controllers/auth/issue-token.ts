@@ -0,0 +1,41 @@
+import {
+  AuthClient,
+  authClients,
+  findClient,
+  KeyStore,
+  keyStore,
+  signToken,
+  TokenOptions,
+  tokenOptions,
+} from '../../auth';
+import { UnauthorizedError } from '../../errors';
+
+export type TokenIssuer = {
+  clients: AuthClient[];
+  keyStore: KeyStore;
+  tokenOptions: TokenOptions;
+};
+
+export function issueToken(
+  clientId: string,
+  clientSecret: string,
+  issuer: TokenIssuer = { clients: authClients, keyStore, tokenOptions },
+) {
+  const client = findClient(issuer.clients, clientId, clientSecret);
+
+  if (!client) {
+    throw new UnauthorizedError('Invalid client credentials');
+  }
+
+  const accessToken = signToken(
+    { subject: client.subject, roles: client.roles, clientId: client.clientId },
+    issuer.keyStore,
+    issuer.tokenOptions,
+  );
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: issuer.tokenOptions.expiresIn,
+  };
+}
@@ -0,0 +1,156 @@
+import { isAllowed, Permission, Principal } from '../../auth';
+import { DomainError, FailedDependencyError, ForbiddenError } from '../../errors';
+import { UserEvent, UserEventBus, userEvents } from '../../events';
+import { AuditContext, AuditEntry, systemContext } from '../../models/audit-model';
+import { User } from '../../models/users-model';
+import { AuditRepository, auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { userCreateSchema, userUpdateSchema } from '../../validation/schemas/user.schema';
+import { validateValue } from '../../validation/validate';
+import { createNewUser } from './create-new-user';
+import { deleteUser } from './delete-user';
+import { updateUser } from './update-user';
+import { UserDependencies } from './user-dependencies';
+
+export type BulkOperation =
+  | { op: 'create'; data: Partial<User> }
+  | { op: 'update'; id: string; data: Partial<User> }
+  | { op: 'delete'; id: string };
+
+export type BulkResult = {
+  index: number;
+  op: BulkOperation['op'];
+  status: number;
+  id?: string;
+  user?: User;
+  error?: DomainError;
+};
+
+export type BulkOptions = {
+  // all or nothing: the first failure undoes every operation already applied
+  atomic?: boolean;
+  // when given, every operation is checked against the principal's permissions
+  principal?: Principal;
+};
+
+const permissions: Record<BulkOperation['op'], Permission> = {
+  create: 'user:create',
+  update: 'user:update',
+  delete: 'user:delete',
+};
+
+function apply(
+  operation: BulkOperation,
+  index: number,
+  context: AuditContext,
+  dependencies: UserDependencies,
+): { status: number; user: User; undo: () => void } {
+  const { repository, search } = dependencies;
+  const detail = `Operation ${index} data failed validation`;
+  const restore = (before: User) => {
+    repository.update(before.id, before);
+    search.sync(before);
+  };
+
+  switch (operation.op) {
+    case 'create': {
+      const data = validateValue<User>(userCreateSchema, operation.data, detail);
+      const user = createNewUser(data, context, dependencies);
+      const undo = () => {
+        repository.delete(user.id);
+        search.remove(user.id);
+      };
+      return { status: 201, user, undo };
+    }
+    case 'update': {
+      const before = repository.find(operation.id);
+      const data = validateValue<User>(userUpdateSchema, operation.data, detail);
+      const user = updateUser(operation.id, data, context, dependencies);
+      return { status: 200, user, undo: () => restore(before!) };
+    }
+    case 'delete': {
+      const before = repository.find(operation.id);
+      const user = deleteUser(operation.id, context, dependencies);
+      return { status: 200, user, undo: () => restore(before!) };
+    }
+  }
+}
+
+/**
+ * Applies a batch of create, update and delete operations, reporting success or failure per item.
+ * Failed items never stop the rest unless `atomic` is set, in which case everything applied so far is
+ * undone and the remaining items are skipped. Audit entries and events are only emitted for changes that stay.
+ */
+export function bulkWriteUsers(
+  operations: BulkOperation[],
+  options: BulkOptions = {},
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+): BulkResult[] {
+  const { atomic = false, principal } = options;
+  const pendingAudit: Omit<AuditEntry, 'id'>[] = [];
+  const bufferedAudit: AuditRepository = {
+    append: (entry) => {
+      pendingAudit.push(entry);
+      return { ...entry, id: 0 };
+    },
+    list: () => [],
+  };
+  const pendingEvents: UserEvent[] = [];
+  const bufferedEvents: UserEventBus = {
+    publish: (event) => pendingEvents.push(event),
+    subscribe: events.subscribe,
+  };
+
+  const results: BulkResult[] = [];
+  const undoStack: (() => void)[] = [];
+
+  for (const [index, operation] of operations.entries()) {
+    const id = operation.op === 'create' ? undefined : operation.id;
+
+    try {
+      if (principal && !isAllowed(principal, permissions[operation.op], id)) {
+        throw new ForbiddenError(`Missing permission ${permissions[operation.op]}`);
+      }
+
+      const { status, user, undo } = apply(operation, index, context, {
+        repository,
+        audit: atomic ? bufferedAudit : audit,
+        search,
+        events: atomic ? bufferedEvents : events,
+      });
+      undoStack.push(undo);
+      results.push({ index, op: operation.op, status, id: user.id, user });
+    } catch (error) {
+      // undone before anything else, so an unexpected error does not leave half a batch behind either
+      if (atomic) {
+        undoStack.reverse().forEach((undo) => undo());
+      }
+
+      if (!(error instanceof DomainError)) throw error;
+
+      results.push({ index, op: operation.op, status: error.status, ...(id && { id }), error });
+
+      if (atomic) {
+        return operations.map((item, itemIndex) => {
+          if (itemIndex === index) return results[index];
+
+          const itemId = item.op === 'create' ? undefined : item.id;
+          const error = new FailedDependencyError(`Not applied because operation ${index} failed`);
+          return { index: itemIndex, op: item.op, status: error.status, ...(itemId && { id: itemId }), error };
+        });
+      }
+    }
+  }
+
+  pendingAudit.forEach((entry) => audit.append(entry));
+  pendingEvents.forEach((event) => events.publish(event));
+
+  return results;
+}
@@ -1,7 +1,23 @@
 import { randomUUID } from 'crypto';
-import { User, users } from '../../models/users-model';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { User } from '../../models/users-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
 
-export function createNewUser(user: User) {
+export function createNewUser(
+  user: User,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
   const newUser = {
     ...user,
     id: randomUUID(),
@@ -9,6 +25,10 @@ export function createNewUser(user: User) {
     updatedAt: new Date().toISOString(),
   };
 
-  users.push(newUser);
-  return newUser;
+  const createdUser = repository.create(newUser);
+  recordAudit('create', undefined, createdUser, context, audit);
+  search.sync(createdUser);
+  events.publish(userEvent('user.created', createdUser, context));
+
+  return createdUser;
 }
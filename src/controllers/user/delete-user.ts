@@ -1,14 +1,35 @@
-import { users } from '../../models/users-model';
+import { NotFoundError } from '../../errors';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
 
-export function deleteUser(id: string) {
-  const userIndex = users.findIndex((user) => user.id === id);
+// soft delete: the user is only marked, so it can still be restored or purged later
+export function deleteUser(
+  id: string,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
+  const existingUser = repository.find(id);
 
-  if (userIndex === -1) {
-    throw new Error('User not found');
+  if (!existingUser || existingUser.deletedAt) {
+    throw new NotFoundError('User not found');
   }
 
-  const deletedUser = users[userIndex];
-  users.splice(userIndex, 1);
+  const deletedUser = { ...existingUser, deletedAt: new Date().toISOString() };
+
+  repository.update(id, deletedUser);
+  recordAudit('delete', existingUser, deletedUser, context, audit);
+  search.sync(deletedUser);
+  events.publish(userEvent('user.deleted', deletedUser, context, existingUser));
 
   return deletedUser;
 }
@@ -0,0 +1,33 @@
+import { User, userFields } from '../../models/users-model';
+import { userRepository } from '../../repositories/user';
+import { formatCsvRow } from '../../utils/csv';
+import { UserDependencies } from './user-dependencies';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+// soft-deleted users are not part of the data set being handed back
+const exportedFields = userFields.filter((field) => field !== 'deletedAt');
+
+/**
+ * Yields the export one line at a time so the route can stream it instead of building the whole
+ * document in memory first.
+ */
+export function* exportUsers(
+  format: ExportFormat,
+  { repository = userRepository }: Partial<UserDependencies> = {},
+): Generator<string> {
+  const activeUsers = repository.list().filter((user) => !user.deletedAt);
+
+  if (format === 'csv') {
+    yield formatCsvRow(exportedFields);
+
+    for (const user of activeUsers) {
+      yield formatCsvRow(exportedFields.map((field) => user[field]));
+    }
+  } else {
+    for (const user of activeUsers) {
+      const record = Object.fromEntries(exportedFields.map((field) => [field, user[field]])) as Partial<User>;
+      yield `${JSON.stringify(record)}\n`;
+    }
+  }
+}
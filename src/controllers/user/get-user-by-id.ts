@@ -1,9 +1,12 @@
-import { users } from '../../models/users-model';
+import { NotFoundError } from '../../errors';
+import { userRepository } from '../../repositories/user';
+import { UserDependencies } from './user-dependencies';
 
-export function getUserById(id: string) {
-  const user = users.find((user) => user.id === id);
-  if (!user) {
-    throw new Error('User not found');
+export function getUserById(id: string, { repository = userRepository }: Partial<UserDependencies> = {}) {
+  const user = repository.find(id);
+  // soft-deleted users stay hidden until they are restored
+  if (!user || user.deletedAt) {
+    throw new NotFoundError('User not found');
   }
   return user;
 }
@@ -0,0 +1,25 @@
+import { NotFoundError } from '../../errors';
+import { AuditEntry } from '../../models/audit-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { Page } from '../../utils/pagination';
+import { AuditListQuery, listAuditEntries } from '../audit/list-audit-entries';
+import { UserDependencies } from './user-dependencies';
+
+/**
+ * The audit trail of one user, newest first. History outlives the user: entries stay readable after
+ * a soft delete or purge, so only an id that never had any recorded change is reported as not found.
+ */
+export function getUserHistory(
+  id: string,
+  query: Omit<AuditListQuery, 'userId'> = {},
+  { audit = auditRepository, repository = userRepository }: Partial<UserDependencies> = {},
+): Page<AuditEntry> {
+  const page = listAuditEntries({ ...query, userId: id }, audit);
+
+  if (page.total === 0 && !repository.find(id)) {
+    throw new NotFoundError('User not found');
+  }
+
+  return page;
+}
@@ -0,0 +1,130 @@
+import { ValidationErrorDetail, ValidationFailedError } from '../../errors';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { User } from '../../models/users-model';
+import { userRepository } from '../../repositories/user';
+import { parseCsvRecords } from '../../utils/csv';
+import { userCreateSchema } from '../../validation/schemas/user.schema';
+import { validateValue } from '../../validation/validate';
+import { createNewUser } from './create-new-user';
+import { ExportFormat } from './export-users';
+import { UserDependencies } from './user-dependencies';
+
+export type ImportOptions = {
+  // validate and report only, nothing is written
+  dryRun?: boolean;
+  // source column or key => user field, e.g. { 'First Name': 'firstName' }
+  mapping?: Record<string, string>;
+};
+
+export type ImportRowResult =
+  | { row: number; status: 'created' | 'valid'; user: User }
+  | { row: number; status: 'skipped'; reason: string }
+  | { row: number; status: 'failed'; errors: ValidationErrorDetail[] };
+
+export type ImportReport = {
+  dryRun: boolean;
+  summary: { total: number; created: number; valid: number; skipped: number; failed: number };
+  rows: ImportRowResult[];
+};
+
+// one parsed record per data row; NDJSON lines that are not JSON objects become parse errors
+function parseRecords(source: string, format: ExportFormat): (Record<string, unknown> | Error)[] {
+  if (format === 'csv') {
+    return parseCsvRecords(source);
+  }
+
+  return source
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      try {
+        const record = JSON.parse(line);
+        return record && typeof record === 'object' && !Array.isArray(record)
+          ? record
+          : new Error('Expected a JSON object');
+      } catch {
+        return new Error('Invalid JSON');
+      }
+    });
+}
+
+// the most users an import of `source` can create, before validation and duplicates are considered
+export function countImportRecords(source: string, format: ExportFormat) {
+  return parseRecords(source, format).length;
+}
+
+function applyMapping(record: Record<string, unknown>, mapping: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(record)
+      // empty cells mean "not provided" rather than an empty string that would fail validation
+      .filter(([, value]) => value !== '' && value !== null && value !== undefined)
+      .map(([key, value]) => [mapping[key] ?? key, typeof value === 'string' ? value.trim() : value]),
+  );
+}
+
+/**
+ * Imports users from CSV (with a header row) or NDJSON. Every row is validated against
+ * userCreateSchema on its own; rows whose email is already taken, by an existing user or an earlier
+ * row, are skipped so re-running an import does not create duplicates.
+ */
+export function importUsers(
+  source: string,
+  format: ExportFormat,
+  options: ImportOptions = {},
+  context: AuditContext = systemContext,
+  dependencies: Partial<UserDependencies> = {},
+): ImportReport {
+  const { repository = userRepository } = dependencies;
+  const { dryRun = false, mapping = {} } = options;
+  const takenEmails = new Set(
+    repository
+      .list()
+      .filter((user) => !user.deletedAt && user.email)
+      .map((user) => user.email.toLowerCase()),
+  );
+
+  const rows = parseRecords(source, format).map((record, index): ImportRowResult => {
+    const row = index + 1;
+
+    if (record instanceof Error) {
+      return { row, status: 'failed', errors: [{ path: '', message: record.message }] };
+    }
+
+    const fields = applyMapping(record, mapping);
+    if (Object.keys(fields).length === 0) {
+      return { row, status: 'skipped', reason: 'Empty row' };
+    }
+
+    let user: User;
+    try {
+      user = validateValue<User>(userCreateSchema, fields, `Row ${row} failed validation`);
+    } catch (error) {
+      if (!(error instanceof ValidationFailedError)) throw error;
+      return { row, status: 'failed', errors: error.details };
+    }
+
+    const email = user.email?.toLowerCase();
+    if (email && takenEmails.has(email)) {
+      return { row, status: 'skipped', reason: `Email ${user.email} already exists` };
+    }
+    if (email) takenEmails.add(email);
+
+    return dryRun
+      ? { row, status: 'valid', user }
+      : { row, status: 'created', user: createNewUser(user, context, dependencies) };
+  });
+
+  const count = (status: ImportRowResult['status']) => rows.filter((result) => result.status === status).length;
+
+  return {
+    dryRun,
+    summary: {
+      total: rows.length,
+      created: count('created'),
+      valid: count('valid'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+    },
+    rows,
+  };
+}
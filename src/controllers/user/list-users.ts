@@ -0,0 +1,77 @@
+import { User } from '../../models/users-model';
+import { userRepository } from '../../repositories/user';
+import { Cursor, Page, paginate, parseSort, sortBy } from '../../utils/pagination';
+import { UserDependencies } from './user-dependencies';
+
+export type UserListQuery = {
+  limit?: number;
+  offset?: number;
+  cursor?: Cursor;
+  sort?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  emailDomain?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  includeDeleted?: boolean;
+  // the trash listing: soft-deleted users only
+  onlyDeleted?: boolean;
+};
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_SORT = 'createdAt';
+
+// case-insensitive exact match, or a prefix match when the filter ends with *
+function matchesText(value: string | undefined, filter: string | undefined) {
+  if (filter === undefined) return true;
+
+  const actual = (value ?? '').toLowerCase();
+  const expected = filter.toLowerCase();
+
+  return expected.endsWith('*') ? actual.startsWith(expected.slice(0, -1)) : actual === expected;
+}
+
+function matchesRange(value: string, after: Date | undefined, before: Date | undefined) {
+  const time = new Date(value).getTime();
+
+  return (after === undefined || time > after.getTime()) && (before === undefined || time < before.getTime());
+}
+
+function matchesDeleted(user: User, { includeDeleted, onlyDeleted }: UserListQuery) {
+  return onlyDeleted ? user.deletedAt !== undefined : includeDeleted || user.deletedAt === undefined;
+}
+
+function matchesFilters(user: User, query: UserListQuery) {
+  return (
+    matchesDeleted(user, query) &&
+    matchesText(user.firstName, query.firstName) &&
+    matchesText(user.lastName, query.lastName) &&
+    matchesText(user.email, query.email) &&
+    matchesText(user.phone, query.phone) &&
+    (query.emailDomain === undefined ||
+      (user.email ?? '').toLowerCase().endsWith(`@${query.emailDomain.toLowerCase()}`)) &&
+    matchesRange(user.createdAt, query.createdAfter, query.createdBefore) &&
+    matchesRange(user.updatedAt, query.updatedAfter, query.updatedBefore)
+  );
+}
+
+export function listUsers(
+  query: UserListQuery = {},
+  { repository = userRepository }: Partial<UserDependencies> = {},
+): Page<User> {
+  const { limit = DEFAULT_LIMIT, offset, cursor, sort = DEFAULT_SORT } = query;
+  const fields = parseSort<User>(sort);
+
+  // id is always the final tie-breaker so a cursor points at exactly one position
+  if (!fields.some(({ field }) => field === 'id')) {
+    fields.push({ field: 'id', direction: 'asc' });
+  }
+
+  const matchingUsers = repository.list().filter((user) => matchesFilters(user, query));
+
+  return paginate(sortBy(matchingUsers, fields), fields, { limit, offset, cursor });
+}
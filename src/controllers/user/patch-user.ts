@@ -0,0 +1,62 @@
+import { NotFoundError } from '../../errors';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { editableUserFields, User } from '../../models/users-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { applyJsonPatch, JsonPatchOperation } from '../../utils/json-patch';
+import { applyMergePatch } from '../../utils/merge-patch';
+import { userCreateSchema } from '../../validation/schemas/user.schema';
+import { validateValue } from '../../validation/validate';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
+
+export type UserPatch =
+  | { type: 'json-patch'; operations: JsonPatchOperation[] }
+  | { type: 'merge-patch'; document: Record<string, unknown> };
+
+/**
+ * Unlike updateUser, which merges the given fields into the user, a patch can also remove optional
+ * fields. The patched user has to pass the same validation as a new one before it replaces the stored user.
+ */
+export function patchUser(
+  id: string,
+  patch: UserPatch,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
+  const existingUser = repository.find(id);
+
+  if (!existingUser || existingUser.deletedAt) {
+    throw new NotFoundError('User not found');
+  }
+
+  const patched =
+    patch.type === 'json-patch'
+      ? applyJsonPatch(existingUser, patch.operations)
+      : applyMergePatch(existingUser, patch.document);
+  // strips everything but the editable fields, so those are all that is taken from the patched user
+  const fields = validateValue<Partial<User>>(userCreateSchema, patched, 'Patched user failed validation');
+
+  const { firstName, lastName, email, phone, ...managedFields } = existingUser;
+  // merged onto the stored user so fields keep their order, without the editable fields the patch removed
+  const removedFields: string[] = editableUserFields.filter((field) => fields[field] === undefined);
+  const updatedUser = Object.fromEntries(
+    Object.entries({ ...existingUser, ...fields, ...managedFields, updatedAt: new Date().toISOString() }).filter(
+      ([field]) => !removedFields.includes(field),
+    ),
+  ) as User;
+
+  repository.update(id, updatedUser);
+  recordAudit('update', existingUser, updatedUser, context, audit);
+  search.sync(updatedUser);
+  events.publish(userEvent('user.updated', updatedUser, context, existingUser));
+
+  return updatedUser;
+}
@@ -0,0 +1,32 @@
+import { NotFoundError } from '../../errors';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
+
+// permanently removes a user, whether or not it was soft-deleted first; its audit trail is kept
+export function purgeUser(
+  id: string,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
+  const purgedUser = repository.delete(id);
+
+  if (!purgedUser) {
+    throw new NotFoundError('User not found');
+  }
+
+  recordAudit('purge', purgedUser, undefined, context, audit);
+  search.remove(id);
+  events.publish(userEvent('user.purged', purgedUser, context));
+
+  return purgedUser;
+}
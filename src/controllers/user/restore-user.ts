@@ -0,0 +1,39 @@
+import { ConflictError, NotFoundError } from '../../errors';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
+
+export function restoreUser(
+  id: string,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
+  const existingUser = repository.find(id);
+
+  if (!existingUser) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (!existingUser.deletedAt) {
+    throw new ConflictError('User is not deleted');
+  }
+
+  const { deletedAt, ...user } = existingUser;
+  const restoredUser = { ...user, updatedAt: new Date().toISOString() };
+
+  repository.update(id, restoredUser);
+  recordAudit('restore', existingUser, restoredUser, context, audit);
+  search.sync(restoredUser);
+  events.publish(userEvent('user.restored', restoredUser, context, existingUser));
+
+  return restoredUser;
+}
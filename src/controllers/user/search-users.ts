@@ -0,0 +1,32 @@
+import { User } from '../../models/users-model';
+import { userRepository } from '../../repositories/user';
+import { SearchField, userSearchIndex } from '../../search';
+import { UserDependencies } from './user-dependencies';
+
+export type UserSearchQuery = {
+  q: string;
+  limit?: number;
+  fuzzy?: boolean;
+};
+
+export type UserSearchResult = {
+  score: number;
+  // the fields the query matched in, for highlighting
+  matches: SearchField[];
+  user: User;
+};
+
+const DEFAULT_LIMIT = 20;
+
+// best matches first; users are read back from the repository so a stale index entry is never served
+export function searchUsers(
+  query: UserSearchQuery,
+  { repository = userRepository, search = userSearchIndex }: Partial<UserDependencies> = {},
+): { total: number; results: UserSearchResult[] } {
+  const results = search
+    .search(query.q, { fuzzy: query.fuzzy })
+    .map(({ id, score, fields }) => ({ score, matches: fields, user: repository.find(id) }))
+    .filter((result): result is UserSearchResult => result.user !== undefined && !result.user.deletedAt);
+
+  return { total: results.length, results: results.slice(0, query.limit ?? DEFAULT_LIMIT) };
+}
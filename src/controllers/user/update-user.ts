@@ -1,14 +1,36 @@
-import { User, users } from '../../models/users-model';
+import { NotFoundError } from '../../errors';
+import { userEvent, userEvents } from '../../events';
+import { AuditContext, systemContext } from '../../models/audit-model';
+import { User } from '../../models/users-model';
+import { auditRepository } from '../../repositories/audit';
+import { userRepository } from '../../repositories/user';
+import { userSearchIndex } from '../../search';
+import { recordAudit } from '../audit/record-audit';
+import { UserDependencies } from './user-dependencies';
 
-export function updateUser(id: string, user: User) {
-  const userIndex = users.findIndex((user) => user.id === id);
+export function updateUser(
+  id: string,
+  user: User,
+  context: AuditContext = systemContext,
+  {
+    repository = userRepository,
+    audit = auditRepository,
+    search = userSearchIndex,
+    events = userEvents,
+  }: Partial<UserDependencies> = {},
+) {
+  const existingUser = repository.find(id);
 
-  if (userIndex === -1) {
-    throw new Error('User not found');
+  if (!existingUser || existingUser.deletedAt) {
+    throw new NotFoundError('User not found');
   }
 
-  const updatedUser = { ...users[userIndex], ...user, updatedAt: new Date().toISOString() };
-  users[userIndex] = updatedUser;
+  const updatedUser = { ...existingUser, ...user, updatedAt: new Date().toISOString() };
+
+  repository.update(id, updatedUser);
+  recordAudit('update', existingUser, updatedUser, context, audit);
+  search.sync(updatedUser);
+  events.publish(userEvent('user.updated', updatedUser, context, existingUser));
 
   return updatedUser;
 }
@@ -0,0 +1,16 @@
+import type { UserEventBus } from '../../events';
+import type { AuditRepository } from '../../repositories/audit';
+import type { UserRepository } from '../../repositories/user';
+import type { UserSearchIndex } from '../../search';
+
+/**
+ * The stores and services the user controllers work with, passed as one object so a new one does not
+ * change every call. Controllers, routers and resolvers take a partial set and fall back to the
+ * process-wide instance for anything left out.
+ */
+export type UserDependencies = {
+  repository: UserRepository;
+  audit: AuditRepository;
+  search: UserSearchIndex;
+  events: UserEventBus;
+};
@@ -0,0 +1,26 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Webhook, WebhookEventFilter } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+
+export type WebhookInput = {
+  url: string;
+  events: WebhookEventFilter[];
+  description?: string;
+  active?: boolean;
+  // generated when not given
+  secret?: string;
+};
+
+// returns the webhook with its secret, which the subscriber has to keep to verify signatures
+export function createWebhook(input: WebhookInput, repository: WebhookRepository = webhookRepository): Webhook {
+  const now = new Date().toISOString();
+
+  return repository.create({
+    active: true,
+    ...input,
+    id: randomUUID(),
+    secret: input.secret ?? `whsec_${randomBytes(24).toString('base64url')}`,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
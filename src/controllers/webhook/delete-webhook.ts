@@ -0,0 +1,15 @@
+import { NotFoundError } from '../../errors';
+import { WebhookView } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { toWebhookView } from './webhook-view';
+
+// deliveries still waiting for a retry are abandoned along with the webhook's log
+export function deleteWebhook(id: string, repository: WebhookRepository = webhookRepository): WebhookView {
+  const deletedWebhook = repository.delete(id);
+
+  if (!deletedWebhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  return toWebhookView(deletedWebhook);
+}
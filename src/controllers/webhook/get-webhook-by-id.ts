@@ -0,0 +1,12 @@
+import { NotFoundError } from '../../errors';
+import { WebhookView } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { toWebhookView } from './webhook-view';
+
+export function getWebhookById(id: string, repository: WebhookRepository = webhookRepository): WebhookView {
+  const webhook = repository.find(id);
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+  return toWebhookView(webhook);
+}
@@ -0,0 +1,41 @@
+import { NotFoundError } from '../../errors';
+import { DeliveryStatus, WebhookDelivery } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { Cursor, Page, paginate, sortBy, SortField } from '../../utils/pagination';
+
+export type DeliveryListQuery = {
+  limit?: number;
+  offset?: number;
+  cursor?: Cursor;
+  status?: DeliveryStatus;
+  // omitted for the dead-letter list, which spans every webhook
+  webhookId?: string;
+};
+
+const DEFAULT_LIMIT = 20;
+
+const NEWEST_FIRST: SortField<WebhookDelivery>[] = [
+  { field: 'createdAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+export function listWebhookDeliveries(
+  query: DeliveryListQuery = {},
+  repository: WebhookRepository = webhookRepository,
+): Page<WebhookDelivery> {
+  const { limit = DEFAULT_LIMIT, offset, cursor, status, webhookId } = query;
+
+  if (webhookId !== undefined && !repository.find(webhookId)) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  const matchingDeliveries = repository
+    .listDeliveries()
+    .filter(
+      (delivery) =>
+        (webhookId === undefined || delivery.webhookId === webhookId) &&
+        (status === undefined || delivery.status === status),
+    );
+
+  return paginate(sortBy(matchingDeliveries, NEWEST_FIRST), NEWEST_FIRST, { limit, offset, cursor });
+}
@@ -0,0 +1,7 @@
+import { WebhookView } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { toWebhookView } from './webhook-view';
+
+export function listWebhooks(repository: WebhookRepository = webhookRepository): WebhookView[] {
+  return repository.list().map(toWebhookView);
+}
@@ -0,0 +1,23 @@
+import { ConflictError, NotFoundError } from '../../errors';
+import { WebhookDelivery } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { WebhookDispatcher, webhookDispatcher } from '../../webhooks';
+
+// takes a delivery off the dead-letter list and gives it another full round of attempts
+export function redeliverWebhookDelivery(
+  id: string,
+  repository: WebhookRepository = webhookRepository,
+  dispatcher: WebhookDispatcher = webhookDispatcher,
+): WebhookDelivery {
+  const delivery = repository.findDelivery(id);
+
+  if (!delivery) {
+    throw new NotFoundError('Delivery not found');
+  }
+
+  if (delivery.status !== 'dead') {
+    throw new ConflictError('Only dead deliveries can be redelivered');
+  }
+
+  return dispatcher.redeliver(delivery);
+}
@@ -0,0 +1,23 @@
+import { NotFoundError } from '../../errors';
+import { WebhookView } from '../../models/webhook-model';
+import { WebhookRepository, webhookRepository } from '../../repositories/webhook';
+import { WebhookInput } from './create-webhook';
+import { toWebhookView } from './webhook-view';
+
+export function updateWebhook(
+  id: string,
+  input: Partial<WebhookInput>,
+  repository: WebhookRepository = webhookRepository,
+): WebhookView {
+  const existingWebhook = repository.find(id);
+
+  if (!existingWebhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  const updatedWebhook = { ...existingWebhook, ...input, updatedAt: new Date().toISOString() };
+
+  repository.update(id, updatedWebhook);
+
+  return toWebhookView(updatedWebhook);
+}
@@ -0,0 +1,6 @@
+import { Webhook, WebhookView } from '../../models/webhook-model';
+
+// the signing secret is only ever returned by createWebhook
+export function toWebhookView({ secret, ...webhook }: Webhook): WebhookView {
+  return webhook;
+}
@@ -0,0 +1,98 @@
+import { StatusCodes } from 'http-status-codes';
+
+export type ValidationErrorDetail = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Base class for errors the API reports to clients. The error handler turns these into
+ * RFC 7807 problem details using the status, title and problem type defined here.
+ */
+export class DomainError extends Error {
+  constructor(
+    readonly status: number,
+    readonly title: string,
+    readonly type: string,
+    detail: string,
+    readonly extensions: Record<string, unknown> = {},
+  ) {
+    super(detail);
+    this.name = new.target.name;
+  }
+}
+
+export class NotFoundError extends DomainError {
+  constructor(detail = 'Resource not found') {
+    super(StatusCodes.NOT_FOUND, 'Not Found', 'not-found', detail);
+  }
+}
+
+export class ConflictError extends DomainError {
+  constructor(detail = 'Resource conflicts with its current state') {
+    super(StatusCodes.CONFLICT, 'Conflict', 'conflict', detail);
+  }
+}
+
+export class ValidationFailedError extends DomainError {
+  constructor(
+    readonly details: ValidationErrorDetail[],
+    detail = 'Request failed validation',
+  ) {
+    super(StatusCodes.BAD_REQUEST, 'Validation error', 'validation-failed', detail, { details });
+  }
+}
+
+export class UnauthorizedError extends DomainError {
+  constructor(detail = 'Authentication is required') {
+    super(StatusCodes.UNAUTHORIZED, 'Unauthorized', 'unauthorized', detail);
+  }
+}
+
+export class ForbiddenError extends DomainError {
+  constructor(detail = 'You do not have permission to perform this action') {
+    super(StatusCodes.FORBIDDEN, 'Forbidden', 'forbidden', detail);
+  }
+}
+
+export class PreconditionFailedError extends DomainError {
+  constructor(detail = 'The resource has been modified since it was last fetched') {
+    super(StatusCodes.PRECONDITION_FAILED, 'Precondition Failed', 'precondition-failed', detail);
+  }
+}
+
+export class PreconditionRequiredError extends DomainError {
+  constructor(detail = 'This request must be made conditional with an If-Match header') {
+    super(StatusCodes.PRECONDITION_REQUIRED, 'Precondition Required', 'precondition-required', detail);
+  }
+}
+
+export class FailedDependencyError extends DomainError {
+  constructor(detail = 'The request depends on another action that failed') {
+    super(StatusCodes.FAILED_DEPENDENCY, 'Failed Dependency', 'failed-dependency', detail);
+  }
+}
+
+export class NotAcceptableError extends DomainError {
+  constructor(detail = 'None of the acceptable representations can be produced') {
+    super(StatusCodes.NOT_ACCEPTABLE, 'Not Acceptable', 'not-acceptable', detail);
+  }
+}
+
+export class UnsupportedMediaTypeError extends DomainError {
+  constructor(detail = 'The request body is in an unsupported format') {
+    super(StatusCodes.UNSUPPORTED_MEDIA_TYPE, 'Unsupported Media Type', 'unsupported-media-type', detail);
+  }
+}
+
+export class TooManyRequestsError extends DomainError {
+  constructor(detail = 'Too many requests, try again later') {
+    super(StatusCodes.TOO_MANY_REQUESTS, 'Too Many Requests', 'too-many-requests', detail);
+  }
+}
+
+export class UnprocessableEntityError extends DomainError {
+  constructor(detail = 'The request cannot be processed') {
+    super(StatusCodes.UNPROCESSABLE_ENTITY, 'Unprocessable Entity', 'unprocessable-entity', detail);
+  }
+}
@@ -0,0 +1,13 @@
+import { config } from '../config';
+import { createUserEventStream } from './user-event-stream';
+import { createUserEventBus } from './user-events';
+
+export type { StreamedUserEvent, StreamListener, UserEventStream } from './user-event-stream';
+export { createUserEventStream } from './user-event-stream';
+export type { UserEvent, UserEventBus, UserEventListener, UserEventPayload, UserEventType } from './user-events';
+export { createUserEventBus, userEvent, userEventPayload, userEventTypes } from './user-events';
+
+// the user controllers publish here once a change is stored; webhooks and the event stream listen
+export const userEvents = createUserEventBus();
+
+export const userEventStream = createUserEventStream(userEvents, config.sse.replayBuffer);
@@ -0,0 +1,51 @@
+import { UserEvent, UserEventBus } from './user-events';
+
+export type StreamedUserEvent = {
+  // increases by one per event, for Last-Event-ID
+  sequence: number;
+  event: UserEvent;
+};
+
+export type StreamListener = (streamed: StreamedUserEvent) => void;
+
+export interface UserEventStream {
+  // replays buffered events after `lastSequence` before following live ones; returns the unsubscribe function
+  subscribe(listener: StreamListener, lastSequence?: number): () => void;
+  subscriberCount(): number;
+}
+
+/**
+ * Numbers the events on a bus and keeps the latest `bufferSize` of them, so a client that reconnects
+ * with the last sequence it saw picks up where it left off. Anything older than the buffer is gone.
+ */
+export function createUserEventStream(bus: UserEventBus, bufferSize = 1000): UserEventStream {
+  const buffer: StreamedUserEvent[] = [];
+  const listeners = new Set<StreamListener>();
+  let sequence = 0;
+
+  bus.subscribe((event) => {
+    const streamed = { sequence: ++sequence, event };
+
+    buffer.push(streamed);
+    if (buffer.length > bufferSize) buffer.shift();
+
+    listeners.forEach((listener) => listener(streamed));
+  });
+
+  return {
+    subscribe(listener, lastSequence) {
+      if (lastSequence !== undefined) {
+        buffer.filter((streamed) => streamed.sequence > lastSequence).forEach(listener);
+      }
+
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    subscriberCount() {
+      return listeners.size;
+    },
+  };
+}
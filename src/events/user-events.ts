@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { getLogger } from '../logging';
+import { AuditContext } from '../models/audit-model';
+import { User } from '../models/users-model';
+
+export type UserEventType = 'user.created' | 'user.updated' | 'user.deleted' | 'user.restored' | 'user.purged';
+
+export const userEventTypes: UserEventType[] = [
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+  'user.purged',
+];
+
+export type UserEvent = {
+  id: string;
+  type: UserEventType;
+  occurredAt: string;
+  actor: string;
+  requestId?: string;
+  user: User;
+  // the user as it was before an update, delete or restore
+  previous?: User;
+};
+
+export type UserEventListener = (event: UserEvent) => void;
+
+export interface UserEventBus {
+  publish(event: UserEvent): void;
+  // returns a function that removes the listener again
+  subscribe(listener: UserEventListener): () => void;
+}
+
+export function userEvent(type: UserEventType, user: User, context: AuditContext, previous?: User): UserEvent {
+  return {
+    id: randomUUID(),
+    type,
+    occurredAt: new Date().toISOString(),
+    actor: context.actor,
+    ...(context.requestId && { requestId: context.requestId }),
+    user,
+    ...(previous && { previous }),
+  };
+}
+
+export type UserEventPayload = Pick<UserEvent, 'id' | 'type' | 'occurredAt' | 'actor'> & {
+  data: { user: User; previous?: User };
+};
+
+// the shape consumers outside the process see, in webhook bodies and on the event stream
+export function userEventPayload({ id, type, occurredAt, actor, user, previous }: UserEvent): UserEventPayload {
+  return { id, type, occurredAt, actor, data: { user, ...(previous && { previous }) } };
+}
+
+// synchronous fan-out; a failing listener is logged and never fails the change that was published
+export function createUserEventBus(): UserEventBus {
+  const listeners = new Set<UserEventListener>();
+
+  return {
+    publish(event) {
+      listeners.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error) {
+          getLogger().error('user event listener failed', { eventType: event.type, eventId: event.id, err: error });
+        }
+      });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
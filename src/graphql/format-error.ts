@@ -0,0 +1,28 @@
+import { GraphQLError, GraphQLFormattedError } from 'graphql';
+import { DomainError } from '../errors';
+
+/**
+ * Domain errors keep their message and gain the problem type as an upper-case `code` next to the HTTP
+ * status they would have had over REST. Any other error thrown by a resolver is hidden behind a generic
+ * message; syntax and schema validation errors pass through unchanged.
+ */
+export function formatGraphqlError(error: GraphQLError): GraphQLFormattedError {
+  const original = error.originalError;
+
+  if (original instanceof DomainError) {
+    return {
+      ...error.toJSON(),
+      extensions: {
+        code: original.type.toUpperCase().replace(/-/g, '_'),
+        status: original.status,
+        ...original.extensions,
+      },
+    };
+  }
+
+  if (original && !(original instanceof GraphQLError)) {
+    return { ...error.toJSON(), message: 'Internal server error', extensions: { code: 'INTERNAL_SERVER_ERROR' } };
+  }
+
+  return error.toJSON();
+}
@@ -0,0 +1,4 @@
+export { formatGraphqlError } from './format-error';
+export type { GraphqlContext, UserResolverOptions } from './resolvers';
+export { createUserResolvers } from './resolvers';
+export { typeDefs, userSchema } from './schema';
@@ -0,0 +1,111 @@
+import { isAllowed, Permission, Principal } from '../auth';
+import { config } from '../config';
+import { createNewUser } from '../controllers/user/create-new-user';
+import { deleteUser } from '../controllers/user/delete-user';
+import { getUserById } from '../controllers/user/get-user-by-id';
+import { listUsers, UserListQuery } from '../controllers/user/list-users';
+import { updateUser } from '../controllers/user/update-user';
+import { UserDependencies } from '../controllers/user/user-dependencies';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../errors';
+import { assertIfMatch } from '../middleware/precondition-middleware';
+import { AuditContext } from '../models/audit-model';
+import { User } from '../models/users-model';
+import { userRepository } from '../repositories/user';
+import { etagFor } from '../utils/etag';
+import {
+  userCreateSchema,
+  userIdSchema,
+  userListQuerySchema,
+  userUpdateSchema,
+} from '../validation/schemas/user.schema';
+import { validateValue } from '../validation/validate';
+
+export type UserResolverOptions = {
+  // like UserRouterOptions: updateUser and deleteUser must pass ifMatch, otherwise they fail with 428
+  requireIfMatch?: boolean;
+};
+
+export type GraphqlContext = {
+  principal?: Principal;
+  audit: AuditContext;
+};
+
+// the same permission check as the authorize middleware, for one field at a time
+function authorize({ principal }: GraphqlContext, permission: Permission, ownerId?: string) {
+  if (!principal) {
+    throw new UnauthorizedError();
+  }
+
+  if (!isAllowed(principal, permission, ownerId)) {
+    throw new ForbiddenError(`Missing permission ${permission}`);
+  }
+}
+
+const validId = (id: string) => validateValue<{ id: string }>(userIdSchema, { id }, 'Arguments failed validation').id;
+
+/**
+ * Root resolvers for the user schema. They call the REST controllers and validate their arguments with
+ * the REST routes' Joi schemas, so both APIs accept and reject exactly the same input.
+ */
+export function createUserResolvers(
+  dependencies: Partial<UserDependencies> = {},
+  { requireIfMatch = config.requireIfMatch }: UserResolverOptions = {},
+) {
+  const { repository = userRepository } = dependencies;
+  // the checkIfMatch of the REST routes; a missing or deleted user is left to the controller's 404
+  const checkPrecondition = (id: string, ifMatch?: string) => {
+    const user = repository.find(id);
+    if (user && !user.deletedAt) assertIfMatch(ifMatch, etagFor(user), requireIfMatch);
+  };
+
+  return {
+    user({ id }: { id: string }, context: GraphqlContext) {
+      authorize(context, 'user:read', id);
+
+      try {
+        return getUserById(validId(id), dependencies);
+      } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      }
+    },
+
+    users(args: Record<string, unknown>, context: GraphqlContext) {
+      authorize(context, 'user:list');
+
+      const query = validateValue<UserListQuery>(userListQuerySchema, args, 'Arguments failed validation');
+      if (query.includeDeleted) {
+        authorize(context, 'user:list-deleted');
+      }
+
+      return listUsers(query, dependencies);
+    },
+
+    createUser({ input }: { input: Partial<User> }, context: GraphqlContext) {
+      authorize(context, 'user:create');
+
+      const user = validateValue<User>(userCreateSchema, input, 'Input failed validation');
+      return createNewUser(user, context.audit, dependencies);
+    },
+
+    updateUser(
+      { id, input, ifMatch }: { id: string; input: Partial<User>; ifMatch?: string },
+      context: GraphqlContext,
+    ) {
+      authorize(context, 'user:update', id);
+
+      const userId = validId(id);
+      const user = validateValue<User>(userUpdateSchema, input, 'Input failed validation');
+      checkPrecondition(userId, ifMatch);
+      return updateUser(userId, user, context.audit, dependencies);
+    },
+
+    deleteUser({ id, ifMatch }: { id: string; ifMatch?: string }, context: GraphqlContext) {
+      authorize(context, 'user:delete', id);
+
+      const userId = validId(id);
+      checkPrecondition(userId, ifMatch);
+      return deleteUser(userId, context.audit, dependencies);
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { buildSchema, GraphQLObjectType } from 'graphql';
+import { User } from '../models/users-model';
+import { etagFor } from '../utils/etag';
+
+// mirrors src/models/users-model.ts; arguments are checked again by the REST routes' Joi schemas
+export const typeDefs = /* GraphQL */ `
+  type User {
+    id: ID!
+    firstName: String!
+    lastName: String!
+    email: String
+    phone: String
+    createdAt: String!
+    updatedAt: String!
+    deletedAt: String
+    "the ETag of GET /user/:id, to pass as ifMatch"
+    etag: String!
+  }
+
+  type UserPage {
+    items: [User!]!
+    total: Int!
+    limit: Int!
+    offset: Int!
+    nextCursor: String
+    prevCursor: String
+  }
+
+  input CreateUserInput {
+    firstName: String!
+    lastName: String!
+    email: String
+    phone: String
+  }
+
+  input UpdateUserInput {
+    firstName: String
+    lastName: String
+    email: String
+    phone: String
+  }
+
+  type Query {
+    "null when there is no such user"
+    user(id: ID!): User
+    "same filters, sorting and pagination as GET /users"
+    users(
+      limit: Int
+      offset: Int
+      cursor: String
+      sort: String
+      firstName: String
+      lastName: String
+      email: String
+      phone: String
+      emailDomain: String
+      createdAfter: String
+      createdBefore: String
+      updatedAfter: String
+      updatedBefore: String
+      includeDeleted: Boolean
+    ): UserPage!
+  }
+
+  type Mutation {
+    createUser(input: CreateUserInput!): User!
+    "ifMatch works like the If-Match header on PATCH /user/:id"
+    updateUser(id: ID!, input: UpdateUserInput!, ifMatch: String): User!
+    "soft delete, like DELETE /user/:id"
+    deleteUser(id: ID!, ifMatch: String): User!
+  }
+`;
+
+export const userSchema = buildSchema(typeDefs);
+
+// buildSchema takes no type resolvers, and the tag is derived rather than stored
+(userSchema.getType('User') as GraphQLObjectType).getFields().etag.resolve = (user: User) => etagFor(user);
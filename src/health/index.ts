@@ -0,0 +1,12 @@
+import { userRepository } from '../repositories/user';
+import { createReadiness } from './readiness';
+
+export type { CheckResult, Readiness, ReadinessCheck, ReadinessReport } from './readiness';
+export { createReadiness };
+
+export const readiness = createReadiness();
+
+// a lookup that runs a real query against SQLite; the id never exists
+readiness.register('userStore', () => {
+  userRepository.find('00000000-0000-0000-0000-000000000000');
+});
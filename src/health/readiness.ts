@@ -0,0 +1,61 @@
+// throws, or rejects, when the dependency it checks cannot serve requests
+export type ReadinessCheck = () => void | Promise<void>;
+
+export type CheckResult = { status: 'ok' } | { status: 'failing'; error: string };
+
+export type ReadinessReport = {
+  status: 'ready' | 'not-ready' | 'shutting-down';
+  checks: Record<string, CheckResult>;
+};
+
+export interface Readiness {
+  register(name: string, check: ReadinessCheck): void;
+  // from now on every report is 'shutting-down', so load balancers stop sending traffic
+  shutDown(): void;
+  check(): Promise<ReadinessReport>;
+}
+
+function withTimeout(check: ReadinessCheck, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+  });
+
+  return Promise.race([Promise.resolve().then(check), timeout]).finally(() => clearTimeout(timer));
+}
+
+// checks run in parallel on every report; one that hangs counts as failing after `timeoutMs`
+export function createReadiness(timeoutMs = 2000): Readiness {
+  const checks = new Map<string, ReadinessCheck>();
+  let shuttingDown = false;
+
+  return {
+    register(name, check) {
+      checks.set(name, check);
+    },
+
+    shutDown() {
+      shuttingDown = true;
+    },
+
+    async check() {
+      const results = await Promise.all(
+        [...checks].map(async ([name, check]): Promise<[string, CheckResult]> => {
+          try {
+            await withTimeout(check, timeoutMs);
+            return [name, { status: 'ok' }];
+          } catch (error) {
+            return [name, { status: 'failing', error: error instanceof Error ? error.message : String(error) }];
+          }
+        }),
+      );
+
+      const failing = results.some(([, result]) => result.status === 'failing');
+
+      return {
+        status: shuttingDown ? 'shutting-down' : failing ? 'not-ready' : 'ready',
+        checks: Object.fromEntries(results),
+      };
+    },
+  };
+}
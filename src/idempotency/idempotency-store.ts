@@ -0,0 +1,21 @@
+export type StoredResponse = {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body?: string | Buffer;
+};
+
+export type IdempotencyRecord = {
+  // hash of the request the key was first used with
+  fingerprint: string;
+  expiresAt: number;
+  // missing while the first request is still being handled
+  response?: StoredResponse;
+};
+
+export interface IdempotencyStore {
+  // reserves the key for a new request, or returns the record already holding it
+  claim(key: string, record: IdempotencyRecord, now?: number): IdempotencyRecord | undefined;
+  complete(key: string, response: StoredResponse): void;
+  // frees the key so the request can be retried, e.g. after a server error
+  release(key: string): void;
+}
@@ -0,0 +1,39 @@
+import { IdempotencyRecord, IdempotencyStore } from './idempotency-store';
+
+// how often expired records are dropped
+const SWEEP_INTERVAL_MS = 60_000;
+
+export function createInMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+  let sweptAt = 0;
+
+  const sweep = (now: number) => {
+    if (now - sweptAt < SWEEP_INTERVAL_MS) return;
+
+    sweptAt = now;
+    records.forEach((record, key) => {
+      if (record.expiresAt <= now) records.delete(key);
+    });
+  };
+
+  return {
+    claim(key, record, now = Date.now()) {
+      sweep(now);
+
+      const existing = records.get(key);
+      if (existing && existing.expiresAt > now) return existing;
+
+      records.set(key, record);
+      return undefined;
+    },
+
+    complete(key, response) {
+      const record = records.get(key);
+      if (record) records.set(key, { ...record, response });
+    },
+
+    release(key) {
+      records.delete(key);
+    },
+  };
+}
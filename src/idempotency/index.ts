@@ -0,0 +1,7 @@
+import { createInMemoryIdempotencyStore } from './in-memory-idempotency-store';
+
+export type { IdempotencyRecord, IdempotencyStore, StoredResponse } from './idempotency-store';
+export { createInMemoryIdempotencyStore };
+
+// stored responses are per process, like the rate limit buckets
+export const idempotencyStore = createInMemoryIdempotencyStore();
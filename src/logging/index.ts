@@ -0,0 +1,15 @@
+import { config } from '../config';
+import { createLogger, Logger } from './logger';
+import { requestContext } from './request-context';
+
+export type { LogFields, Logger, LoggerOptions, LogLevel } from './logger';
+export { createLogger, isLogLevel, REDACTED } from './logger';
+export type { RequestContext } from './request-context';
+export { preserveRequestContext, requestContext } from './request-context';
+
+export const logger = createLogger(config.logging);
+
+// the current request's logger, which adds its request id, or the root logger outside of a request
+export function getLogger(): Logger {
+  return requestContext.getStore()?.logger ?? logger;
+}
@@ -0,0 +1,72 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // a logger that adds `bindings` to every line, e.g. the request id
+  child(bindings: LogFields): Logger;
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+export type LoggerOptions = {
+  // lines below this level are dropped; 'silent' drops everything
+  level?: LogLevel | 'silent';
+  // field names whose values are masked wherever they appear, compared case-insensitively
+  redact?: string[];
+  bindings?: LogFields;
+  write?: (line: string) => void;
+};
+
+export const REDACTED = '[REDACTED]';
+
+const severity: Record<LogLevel | 'silent', number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  silent: Infinity,
+};
+
+export const isLogLevel = (value: unknown): value is LogLevel | 'silent' =>
+  typeof value === 'string' && value in severity;
+
+/**
+ * Writes one JSON object per line: `time`, `level` and `msg`, then the bindings and fields. Errors are
+ * written with their name, message and stack, and redacted fields are masked at any depth.
+ */
+export function createLogger({
+  level = 'info',
+  redact = [],
+  bindings = {},
+  write = (line) => process.stdout.write(`${line}\n`),
+}: LoggerOptions = {}): Logger {
+  const redacted = new Set(redact.map((field) => field.toLowerCase()));
+
+  const replacer = (key: string, value: unknown) => {
+    if (key && redacted.has(key.toLowerCase())) return REDACTED;
+    if (value instanceof Error) {
+      return { ...value, name: value.name, message: value.message, stack: value.stack };
+    }
+    return value;
+  };
+
+  const log = (lineLevel: LogLevel, message: string, fields: LogFields = {}) => {
+    if (severity[lineLevel] < severity[level]) return;
+
+    const entry = { time: new Date().toISOString(), level: lineLevel, msg: message, ...bindings, ...fields };
+    write(JSON.stringify(entry, replacer));
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+    child: (childBindings) => createLogger({ level, redact, write, bindings: { ...bindings, ...childBindings } }),
+    isLevelEnabled: (candidate) => severity[candidate] >= severity[level],
+  };
+}
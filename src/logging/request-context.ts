@@ -0,0 +1,26 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Logger } from './logger';
+
+export type RequestContext = {
+  requestId: string;
+  logger: Logger;
+};
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // set by the request id middleware, from X-Request-Id or generated
+    requestId?: string;
+  }
+}
+
+// follows a request through its middleware, controllers and any async work they start
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Body parsers call `next` from stream callbacks, outside the request's async context. Binding `next`
+ * to the context the middleware was entered in keeps the request id for everything after it.
+ */
+export const preserveRequestContext = (middleware: RequestHandler) => {
+  return (req: Request, res: Response, next: NextFunction) => middleware(req, res, AsyncResource.bind(next));
+};
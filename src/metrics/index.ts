@@ -0,0 +1,7 @@
+import { userRepository } from '../repositories/user';
+import { createMetrics } from './metrics';
+
+export type { Metrics } from './metrics';
+export { createMetrics, UNMATCHED_ROUTE } from './metrics';
+
+export const metrics = createMetrics(userRepository);
@@ -0,0 +1,59 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { UserRepository } from '../repositories/user';
+
+export type Metrics = {
+  registry: Registry;
+  httpRequests: Counter<'method' | 'route' | 'status'>;
+  httpRequestDuration: Histogram<'method' | 'route' | 'status'>;
+  validationFailures: Counter<'method' | 'route' | 'property'>;
+};
+
+// requests that matched no route share one label instead of one per URL
+export const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * The application's metrics in a registry of their own: HTTP traffic, validation failures, the number
+ * of users in the store (read on every scrape) and the Node process defaults, which include event loop
+ * lag, heap usage and GC durations.
+ */
+export function createMetrics(repository: UserRepository): Metrics {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry });
+
+  new Gauge({
+    name: 'users',
+    help: 'Users in the store, by whether they are soft-deleted',
+    labelNames: ['state'] as const,
+    registers: [registry],
+    collect() {
+      const all = repository.list();
+      const deleted = all.filter(({ deletedAt }) => deletedAt).length;
+
+      this.set({ state: 'active' }, all.length - deleted);
+      this.set({ state: 'deleted' }, deleted);
+    },
+  });
+
+  return {
+    registry,
+    httpRequests: new Counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests, by route template, method and status',
+      labelNames: ['method', 'route', 'status'] as const,
+      registers: [registry],
+    }),
+    httpRequestDuration: new Histogram({
+      name: 'http_request_duration_seconds',
+      help: 'Time to send the response, by route template, method and status',
+      labelNames: ['method', 'route', 'status'] as const,
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers: [registry],
+    }),
+    validationFailures: new Counter({
+      name: 'validation_failures_total',
+      help: 'Requests rejected by validateRequest, by route template, method and the part that failed',
+      labelNames: ['method', 'route', 'property'] as const,
+      registers: [registry],
+    }),
+  };
+}
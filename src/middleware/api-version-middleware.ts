@@ -0,0 +1,38 @@
+import { NextFunction, Request, Response } from 'express';
+import { NotAcceptableError } from '../errors';
+import { ApiVersion, apiVersions, DEFAULT_API_VERSION, isApiVersion, requestedApiVersion } from '../versioning';
+
+export const API_VERSION_HEADER = 'API-Version';
+
+function useVersion(req: Request, res: Response, version: ApiVersion) {
+  req.apiVersion = version;
+  res.set(API_VERSION_HEADER, version);
+}
+
+// behind a /v1 or /v2 prefix the URL decides, whatever the headers ask for
+export const pinApiVersion = (version: ApiVersion) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    useVersion(req, res, version);
+    next();
+  };
+};
+
+/**
+ * For unversioned paths: serves the version asked for in Accept-Version or the Accept media type,
+ * v1 when none is asked for, and refuses versions that do not exist with 406.
+ */
+export const negotiateApiVersion = () => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const requested = requestedApiVersion(req);
+
+    // the same URL answers differently depending on these headers, so caches have to key on them
+    res.vary('Accept').vary('Accept-Version');
+
+    if (requested !== undefined && !isApiVersion(requested)) {
+      throw new NotAcceptableError(`API version ${requested} is not supported, use one of ${apiVersions.join(', ')}`);
+    }
+
+    useVersion(req, res, requested ?? DEFAULT_API_VERSION);
+    next();
+  };
+};
@@ -0,0 +1,60 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  isAllowed,
+  KeyStore,
+  keyStore,
+  Permission,
+  Policy,
+  TokenOptions,
+  tokenOptions,
+  userPolicy,
+  verifyToken,
+} from '../auth';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+import { annotate } from '../openapi/route-metadata';
+
+export const authenticate = (store: KeyStore = keyStore, options: TokenOptions = tokenOptions) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      res.set('WWW-Authenticate', 'Bearer');
+      return next(new UnauthorizedError('Missing bearer token'));
+    }
+
+    try {
+      req.principal = verifyToken(token, store, options);
+    } catch (error) {
+      res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return next(error);
+    }
+
+    return next();
+  };
+
+  return annotate(middleware, { authenticate: true });
+};
+
+/**
+ * Checks the authenticated principal against the policy. `owner` resolves the id of the user being
+ * acted on, so roles scoped to their own record (self) can be granted access to it.
+ */
+export const authorize = (
+  permission: Permission,
+  owner?: (req: Request) => string | undefined,
+  policy: Policy = userPolicy,
+) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal) {
+      return next(new UnauthorizedError());
+    }
+
+    if (!isAllowed(req.principal, permission, owner?.(req), policy)) {
+      return next(new ForbiddenError(`Missing permission ${permission}`));
+    }
+
+    return next();
+  };
+
+  return annotate(middleware, { permission });
+};
@@ -0,0 +1,12 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+// runs `middleware` only for requests matching `condition`, e.g. extra permissions for a query flag
+export const when = (condition: (req: Request) => boolean, middleware: RequestHandler) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!condition(req)) {
+      return next();
+    }
+
+    return middleware(req, res, next);
+  };
+};
@@ -0,0 +1,96 @@
+import bodyParser from 'body-parser';
+import { NextFunction, Request, Response } from 'express';
+import Negotiator from 'negotiator';
+import { NotAcceptableError, UnsupportedMediaTypeError, ValidationFailedError } from '../errors';
+import { preserveRequestContext } from '../logging';
+import { annotate } from '../openapi/route-metadata';
+import { Format, formatFor, formats, mediaTypesOf, toPlain } from '../serialization';
+
+// bodies the app already parses for every route
+const parsedByApp = ['application/json', 'application/x-www-form-urlencoded'];
+
+/**
+ * The Accept header as far as formats are concerned. The version parameter picks the API version, not
+ * the format, so it is dropped; ranges that are not media types at all are ignored like a missing header.
+ */
+function acceptedRanges(req: Request) {
+  const ranges = (req.get('Accept') ?? '')
+    .split(',')
+    .map((range) => range.replace(/;\s*version=[^;]*/gi, '').trim())
+    .filter((range) => /^[\w.+*-]+\/[\w.+*-]+(\s*;|$)/.test(range));
+
+  return ranges.length ? ranges.join(', ') : '*/*';
+}
+
+/**
+ * Sends object bodies in the format the Accept header prefers (JSON, XML, CSV or MessagePack) and
+ * refuses requests accepting none of them with 406 before the handler runs. Bodies the route has
+ * already labelled, such as problem details, are left alone.
+ */
+export const respondWith = (available: Format[] = formats) => {
+  const mediaTypes = mediaTypesOf(available);
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const mediaType = new Negotiator({ headers: { accept: acceptedRanges(req) } }).mediaType(mediaTypes);
+    const format = mediaType && formatFor(mediaType, available);
+
+    res.vary('Accept');
+
+    if (!format) {
+      throw new NotAcceptableError(`Responses are available as ${mediaTypes.join(', ')}`);
+    }
+
+    const send = res.send.bind(res);
+    res.send = (body?: unknown) => {
+      if (body === null || typeof body !== 'object' || Buffer.isBuffer(body) || res.get('Content-Type')) {
+        return send(body);
+      }
+
+      res.type(format.mediaTypes[0]);
+      return send(format.serialize(toPlain(body)));
+    };
+
+    next();
+  };
+
+  return annotate(middleware, { produces: available.map((format) => format.mediaTypes[0]) });
+};
+
+/**
+ * Parses XML, CSV and MessagePack request bodies into req.body, so validateRequest sees them like JSON.
+ * Bodies of any other type are refused with 415.
+ */
+export const parseBody = (available: Format[] = formats) => {
+  const parseable = available.filter((format) => format.parse);
+  const readRaw = bodyParser.raw({ type: mediaTypesOf(parseable), limit: '1mb' });
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const type = req.is([...parsedByApp, ...mediaTypesOf(parseable)]);
+
+    if (type === false) {
+      return next(new UnsupportedMediaTypeError(`Send the body as ${mediaTypesOf(available).join(', ')}`));
+    }
+
+    readRaw(req, res, (error?: unknown) => {
+      if (error) return next(error);
+
+      const format = type && formatFor(type, parseable);
+      if (!format || !Buffer.isBuffer(req.body)) return next();
+
+      try {
+        req.body = format.parse!(req.body);
+      } catch (parseError) {
+        return next(
+          new ValidationFailedError(
+            [{ path: 'body', message: (parseError as Error).message }],
+            `Request body is not valid ${format.name}`,
+          ),
+        );
+      }
+
+      next();
+    });
+  };
+
+  return annotate(preserveRequestContext(middleware), { consumes: mediaTypesOf(available) });
+};
@@ -0,0 +1,73 @@
+import { NextFunction, Request, Response } from 'express';
+import { getReasonPhrase, StatusCodes } from 'http-status-codes';
+import { DomainError } from '../errors';
+import { getLogger } from '../logging';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+function reasonPhrase(status: number) {
+  try {
+    return getReasonPhrase(status);
+  } catch {
+    return 'Error';
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function toProblemDetails(err: any, req: Request): ProblemDetails {
+  if (err instanceof DomainError) {
+    return {
+      type: `urn:problem-type:${err.type}`,
+      title: err.title,
+      status: err.status,
+      detail: err.message,
+      instance: req.originalUrl,
+      ...err.extensions,
+    };
+  }
+
+  // http-errors and body-parser errors carry a status and flag whether their message is safe to expose
+  const status = err?.status || err?.statusCode || StatusCodes.INTERNAL_SERVER_ERROR;
+  const development = req.app.get('env') === 'development';
+
+  return {
+    type: 'about:blank',
+    title: reasonPhrase(status),
+    status,
+    ...((err?.expose || development) && err?.message && { detail: err.message }),
+    instance: req.originalUrl,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+  const problem = toProblemDetails(err, req);
+
+  // client errors are covered by the request log line; server errors need their stack
+  if (problem.status >= 500) {
+    getLogger().error('request failed', { err });
+  }
+
+  res.status(problem.status);
+
+  // browsers asking for HTML still get the rendered error page
+  if (req.accepts([PROBLEM_CONTENT_TYPE, 'application/json', 'html']) === 'html') {
+    // set locals, only providing error in development
+    res.locals.message = problem.detail ?? problem.title;
+    res.locals.error = req.app.get('env') === 'development' ? err : {};
+
+    return res.render('error');
+  }
+
+  res.type(PROBLEM_CONTENT_TYPE);
+  return res.json(problem);
+};
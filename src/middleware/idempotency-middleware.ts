@@ -0,0 +1,150 @@
+import bodyParser from 'body-parser';
+import { createHash } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { config } from '../config';
+import { ConflictError, UnprocessableEntityError, ValidationFailedError } from '../errors';
+import { IdempotencyStore, idempotencyStore, StoredResponse } from '../idempotency';
+import { preserveRequestContext } from '../logging';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // SHA-256 of the body as it was sent, before any parsing
+    rawBodyDigest?: string;
+  }
+}
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const unsafeMethods = ['POST', 'PATCH', 'DELETE'];
+
+// describe this response alone, so they are not replayed
+const volatileHeaders = [
+  'connection',
+  'content-length',
+  'date',
+  'keep-alive',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+];
+
+// a retry could succeed where these failed, so they are not stored
+const retryable = (status: number) => status >= 500 || status === 429;
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+/**
+ * `verify` hook for body-parser that records a digest of the raw body, so requests are fingerprinted by
+ * the bytes sent rather than by what a parser made of them.
+ */
+export const recordRawBody = (req: IncomingMessage, res: unknown, raw: Buffer) => {
+  (req as Request).rawBodyDigest = sha256(raw);
+};
+
+// bodies that routes parse themselves (XML, CSV, patches, imports) are still unread here, so they are read
+// now and left in req.body as a Buffer for the route's parser; the limit is that of the largest, imports
+const readRawBody = preserveRequestContext(bodyParser.raw({ type: () => true, limit: '10mb', verify: recordRawBody }));
+
+// the same key sent with another method, URL, body or for another representation is a client bug, not a retry
+const fingerprint = (req: Request) =>
+  sha256(
+    JSON.stringify([
+      req.method,
+      req.originalUrl,
+      req.get('Content-Type') ?? '',
+      req.get('Accept') ?? '',
+      req.get('Accept-Version') ?? '',
+      // parsers without the verify hook only leave the parsed body
+      req.rawBodyDigest ?? sha256(JSON.stringify(req.body ?? null)),
+    ]),
+  );
+
+function storedHeaders(res: Response): StoredResponse['headers'] {
+  return Object.fromEntries(
+    Object.entries(res.getHeaders())
+      .filter(([name, value]) => value !== undefined && !volatileHeaders.includes(name))
+      .map(([name, value]) => [name, Array.isArray(value) ? value : String(value)]),
+  );
+}
+
+function replay(res: Response, { status, headers, body }: StoredResponse) {
+  res.status(status).set(headers).set('Idempotent-Replayed', 'true');
+  return body === undefined ? res.end() : res.send(body);
+}
+
+export type IdempotencyOptions = {
+  store?: IdempotencyStore;
+  // how long a key and its response are kept
+  ttlMs?: number;
+};
+
+/**
+ * Makes POST, PATCH and DELETE safe to retry. The first response to a request carrying an
+ * Idempotency-Key is stored under the key and the client (principal, or IP when anonymous) and
+ * replayed for every repeat until it expires. Server errors and 429s are not stored, so those can be retried.
+ */
+export const idempotency = ({
+  store = idempotencyStore,
+  ttlMs = config.idempotency.ttlMs,
+}: IdempotencyOptions = {}) => {
+  const claimOrReplay = (req: Request, res: Response, next: NextFunction, idempotencyKey: string) => {
+    const key = `${req.principal?.subject ?? req.ip}:${idempotencyKey}`;
+    const requestFingerprint = fingerprint(req);
+    const existing = store.claim(key, { fingerprint: requestFingerprint, expiresAt: Date.now() + ttlMs });
+
+    if (existing && existing.fingerprint !== requestFingerprint) {
+      return next(new UnprocessableEntityError('Idempotency-Key was already used for a different request'));
+    }
+
+    if (existing && !existing.response) {
+      return next(new ConflictError('A request with this Idempotency-Key is still being processed'));
+    }
+
+    if (existing?.response) {
+      return replay(res, existing.response);
+    }
+
+    // res.send(object) calls itself again with the serialized JSON, so the last call holds the body
+    let body: StoredResponse['body'];
+    const send = res.send.bind(res);
+    res.send = (content?: unknown) => {
+      if (typeof content === 'string' || Buffer.isBuffer(content)) body = content;
+      return send(content);
+    };
+
+    res.on('finish', () => {
+      if (retryable(res.statusCode)) {
+        store.release(key);
+      } else {
+        store.complete(key, { status: res.statusCode, headers: storedHeaders(res), body });
+      }
+    });
+    // the connection dropped before a response was sent
+    res.on('close', () => {
+      if (!res.writableFinished) store.release(key);
+    });
+
+    return next();
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+
+    if (idempotencyKey === undefined || !unsafeMethods.includes(req.method)) {
+      return next();
+    }
+
+    if (!idempotencyKey.trim() || idempotencyKey.length > 255) {
+      return next(
+        new ValidationFailedError(
+          [{ path: IDEMPOTENCY_HEADER, message: 'Idempotency-Key must be 1 to 255 characters' }],
+          'Request headers failed validation',
+        ),
+      );
+    }
+
+    readRawBody(req, res, (error?: unknown) => (error ? next(error) : claimOrReplay(req, res, next, idempotencyKey)));
+  };
+};
@@ -1,22 +1,39 @@
-import { Request } from 'express';
-import morgan from 'morgan';
+import { NextFunction, Request, Response } from 'express';
+import querystring from 'querystring';
+import { getLogger } from '../logging';
 
-export const logger = morgan((tokens, req, res) => {
-  const timestamp = new Date().toISOString();
-  const remoteIp = tokens['remote-addr'](req, res) ?? '-';
-  const requestMethod = tokens.method(req, res) ?? '-';
-  const requestUrl = tokens.url(req, res) ?? '-';
-  const status = tokens.status(req, res) ?? '-';
-  const responseTimeMs = tokens['response-time'](req, res);
+const hasBody = (body: unknown) => typeof body === 'object' && body !== null && Object.keys(body).length > 0;
 
-  // Format response time like winston format
-  const formatResponseTime = (timeMs: string | undefined): string => {
-    if (!timeMs || timeMs === '-') return '-';
-    const ms = parseFloat(timeMs);
-    return ms >= 1000 ? `${(ms / 1000).toFixed(3)} s` : `${ms.toFixed(3)} ms`;
-  };
+/**
+ * Logs one line per request once the response is sent: warn for 4xx, error for 5xx, info otherwise.
+ * The query string is logged as fields, so the configured ones are redacted like any other; at debug
+ * level the parsed request body is included too.
+ */
+export const logger = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+  const log = getLogger();
 
-  const responseTime = formatResponseTime(responseTimeMs);
+  res.on('finish', () => {
+    const [path, search] = req.originalUrl.split(/\?(.*)/s);
+    const fields = {
+      method: req.method,
+      path,
+      ...(search && { query: querystring.parse(search) }),
+      status: res.statusCode,
+      durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+      ip: req.ip,
+      ...(req.principal && { principal: req.principal.subject }),
+      ...(log.isLevelEnabled('debug') && hasBody(req.body) && { body: req.body }),
+    };
 
-  return `${timestamp} ${remoteIp} ${requestMethod} ${requestUrl} ${status} - ${responseTime}`;
-});
+    if (res.statusCode >= 500) {
+      log.error('request completed', fields);
+    } else if (res.statusCode >= 400) {
+      log.warn('request completed', fields);
+    } else {
+      log.info('request completed', fields);
+    }
+  });
+
+  next();
+};
@@ -0,0 +1,54 @@
+import { NextFunction, Request, Response } from 'express';
+import { Metrics, metrics as defaultMetrics, UNMATCHED_ROUTE } from '../metrics';
+import { findRouteTemplate, joinRoutePath, Layer } from '../utils/router-stack';
+
+export const routeTemplate = (req: Request) =>
+  req.route ? joinRoutePath(req.baseUrl, req.route.path) : UNMATCHED_ROUTE;
+
+// the route a request was headed for when middleware in front of it answered, such as a 401 or a replay
+const intendedRouteTemplate = (req: Request) => {
+  const router = (req.app as unknown as { _router?: { stack: Layer[] } })._router;
+  const [path] = req.originalUrl.split('?');
+
+  return (router && findRouteTemplate(router.stack, path, req.method)) ?? UNMATCHED_ROUTE;
+};
+
+/**
+ * Express sets `req.route` when a route matches and resets `req.baseUrl` when a failing request leaves
+ * its router, so by the time the response is sent the mount path can be gone. The template is taken
+ * at the moment the route matches instead. Responses sent by middleware before any route matched are
+ * labelled with the route the request would have reached, looked up in the app's router stack.
+ */
+function captureRouteTemplate(req: Request) {
+  let route: Request['route'];
+  let template: string | undefined;
+
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set(value: Request['route']) {
+      route = value;
+      template = routeTemplate(req);
+    },
+  });
+
+  return () => template ?? intendedRouteTemplate(req);
+}
+
+// counts and times every request, labelled by route template rather than the raw URL
+export const collectHttpMetrics = (metrics: Metrics = defaultMetrics) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const stopTimer = metrics.httpRequestDuration.startTimer();
+    const template = captureRouteTemplate(req);
+
+    res.on('finish', () => {
+      const labels = { method: req.method, route: template(), status: String(res.statusCode) };
+
+      metrics.httpRequests.inc(labels);
+      stopTimer(labels);
+    });
+
+    next();
+  };
+};
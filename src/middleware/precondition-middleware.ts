@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from 'express';
+import { PreconditionFailedError, PreconditionRequiredError } from '../errors';
+import { annotate } from '../openapi/route-metadata';
+import { ifMatchSatisfied } from '../utils/etag';
+
+/**
+ * Throws when a write carries no If-Match although `required`, or one that does not match the current
+ * tag. Shared with GraphQL, whose mutations take the tag as an argument instead of a header.
+ */
+export function assertIfMatch(ifMatch: string | undefined, etag: string, required = false) {
+  if (!ifMatch && required) {
+    throw new PreconditionRequiredError();
+  }
+
+  if (ifMatch && !ifMatchSatisfied(ifMatch, etag)) {
+    throw new PreconditionFailedError();
+  }
+}
+
+/**
+ * Rejects writes made against a stale copy of the resource. `currentETag` returns the tag of the
+ * resource as stored, or undefined when it does not exist so the handler can answer 404 instead.
+ * With `required` set, requests without If-Match are refused with 428.
+ */
+export const checkIfMatch = (currentETag: (req: Request) => string | undefined, required = false) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const ifMatch = req.get('If-Match');
+    const etag = currentETag(req);
+
+    if (etag === undefined) {
+      return next();
+    }
+
+    try {
+      assertIfMatch(ifMatch, etag, required);
+    } catch (error) {
+      return next(error);
+    }
+
+    return next();
+  };
+
+  return annotate(middleware, { precondition: { required } });
+};
@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { TooManyRequestsError } from '../errors';
+import { annotate } from '../openapi/route-metadata';
+import { BucketOptions, rateLimits, RateLimitStore, rateLimitStore } from '../rate-limit';
+
+// picks the bucket a request is charged to
+export type RateLimitKey = (req: Request) => string;
+
+export const byIp: RateLimitKey = (req) => `ip:${req.ip}`;
+
+// falls back to the IP for requests that are not authenticated
+export const byPrincipal: RateLimitKey = (req) => (req.principal ? `principal:${req.principal.subject}` : byIp(req));
+
+// the client a token was issued to, or else the X-API-Key header, hashed so the store never holds the secret itself
+export const byApiKey: RateLimitKey = (req) => {
+  if (req.principal?.clientId) return `client:${req.principal.clientId}`;
+
+  const apiKey = req.get('X-API-Key');
+  return apiKey ? `api-key:${createHash('sha256').update(apiKey).digest('hex')}` : byIp(req);
+};
+
+export type RateLimitOptions = BucketOptions & {
+  // keeps this limit's buckets apart from those of other routes
+  name: string;
+  keyBy?: RateLimitKey;
+  // tokens a request spends, e.g. one per user it creates; requests that spend none are not limited
+  cost?: (req: Request) => number;
+  store?: RateLimitStore;
+};
+
+const seconds = (ms: number) => String(Math.ceil(ms / 1000));
+
+/**
+ * Token-bucket rate limiting: each key gets `limit` requests at once, refilled evenly over `windowMs`.
+ * Every response carries the RateLimit-Limit, -Remaining and -Reset headers; requests over the limit
+ * fail with 429 and a Retry-After telling the client when the next token is available.
+ */
+export const rateLimit = ({
+  name,
+  limit,
+  windowMs,
+  keyBy = byIp,
+  cost = () => 1,
+  store = rateLimitStore,
+}: RateLimitOptions) => {
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tokens = cost(req);
+      if (tokens === 0) return next();
+
+      const { allowed, remaining, resetMs, retryAfterMs } = await store.take(
+        `${name}:${keyBy(req)}`,
+        { limit, windowMs },
+        { cost: tokens },
+      );
+
+      res.set({
+        'RateLimit-Limit': String(limit),
+        'RateLimit-Remaining': String(remaining),
+        'RateLimit-Reset': seconds(resetMs),
+      });
+
+      if (!allowed) {
+        res.set('Retry-After', seconds(retryAfterMs));
+        return next(new TooManyRequestsError());
+      }
+
+      return next();
+    } catch (error) {
+      // a store that cannot be reached is a server error, not a reason to let everything through
+      return next(error);
+    }
+  };
+
+  return annotate(middleware, { rateLimit: { limit, windowMs } });
+};
+
+// every route that creates users spends from the same bucket per principal, one token per user
+export const limitUserCreation = (cost?: RateLimitOptions['cost']) =>
+  rateLimit({ name: 'create-user', ...rateLimits.createUser, keyBy: byPrincipal, cost });
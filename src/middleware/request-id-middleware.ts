@@ -0,0 +1,24 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { logger, requestContext } from '../logging';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// ids from callers end up in every log line, so only plain tokens are accepted
+const validRequestId = /^[\w.:-]{1,128}$/;
+
+/**
+ * Takes the caller's X-Request-Id, or generates one, echoes it on the response and runs the rest of
+ * the request in a context whose logger adds it to every line.
+ */
+export const requestId = () => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get(REQUEST_ID_HEADER);
+    const id = header && validRequestId.test(header) ? header : randomUUID();
+
+    req.requestId = id;
+    res.set(REQUEST_ID_HEADER, id);
+
+    requestContext.run({ requestId: id, logger: logger.child({ requestId: id }) }, next);
+  };
+};
@@ -1,33 +1,41 @@
 import { NextFunction, Request, Response } from 'express';
-import { StatusCodes } from 'http-status-codes';
 import Joi from 'joi';
+import { metrics } from '../metrics';
+import { annotate } from '../openapi/route-metadata';
+import { validateValue } from '../validation/validate';
+import { routeTemplate } from './metrics-middleware';
 
 export const validateRequest = (schema: Joi.Schema, property: 'body' | 'query' | 'params') => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const { error, value } = schema.validate(req[property], {
-      abortEarly: false, // Return all errors, not just the first one
-      stripUnknown: true, // Remove unknown properties from the request body
-      errors: {
-        wrap: {
-          label: false,
-        },
-      },
-    });
-
-    if (!error) {
-      req[property] = value;
-      return next();
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req[property] = validateValue(schema, req[property], `Request ${property} failed validation`);
+    } catch (error) {
+      metrics.validationFailures.inc({ method: req.method, route: routeTemplate(req), property });
+      // rendered as a problem+json 400 by the error handler
+      return next(error);
     }
 
-    const errorDetails = error.details.map((detail) => ({
-      path: detail.path.join('.'),
-      message: detail.message,
-    }));
+    return next();
+  };
+
+  return annotate(middleware, { validate: { schema, property } });
+};
 
-    return res.status(StatusCodes.BAD_REQUEST).json({
-      status: 'error',
-      message: 'Validation error',
-      details: errorDetails,
-    });
+/**
+ * Validates the body against the schema given for its media type, e.g. a JSON Patch document against
+ * the patch schema, and against `schema` for every other type.
+ */
+export const validateBodyByType = (schema: Joi.Schema, schemasByType: Record<string, Joi.Schema>) => {
+  const validators = Object.fromEntries(
+    Object.entries(schemasByType).map(([mediaType, typeSchema]) => [mediaType, validateRequest(typeSchema, 'body')]),
+  );
+  const validateOthers = validateRequest(schema, 'body');
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const mediaType = req.is(Object.keys(validators));
+
+    return (mediaType ? validators[mediaType] : validateOthers)(req, res, next);
   };
+
+  return annotate(middleware, { validate: { schema, property: 'body' }, bodySchemas: schemasByType });
 };
@@ -0,0 +1,29 @@
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export const auditActions: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge'];
+
+export type FieldChange = {
+  before: unknown;
+  after: unknown;
+};
+
+// who performed a change; taken from the request by the routes, 'system' otherwise
+export type AuditContext = {
+  actor: string;
+  requestId?: string;
+};
+
+export type AuditEntry = {
+  // assigned by the repository in append order
+  id: number;
+  userId: string;
+  actor: string;
+  action: AuditAction;
+  timestamp: string;
+  changes: Record<string, FieldChange>;
+  requestId?: string;
+};
+
+export const systemContext: AuditContext = { actor: 'system' };
+
+export const auditEntries: AuditEntry[] = [];
@@ -6,9 +6,25 @@ export type User = {
   phone: string;
   createdAt: string;
   updatedAt: string;
+  // set when the user is soft-deleted; such users are hidden until restored or purged
+  deletedAt?: string;
 };
 
-export const users = [
+export const userFields: (keyof User)[] = [
+  'id',
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+];
+
+// the fields clients can write; the rest are managed by the service
+export const editableUserFields = ['firstName', 'lastName', 'email', 'phone'] as const;
+
+export const users: User[] = [
   {
     id: '4b1335f4-788b-4e8d-9ed5-04b99ce430a4',
     firstName: 'Emma',
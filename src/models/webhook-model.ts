@@ -0,0 +1,50 @@
+import { UserEventType } from '../events';
+
+// a subscription filter: one event type, or '*' for every user event
+export type WebhookEventFilter = UserEventType | '*';
+
+export type Webhook = {
+  id: string;
+  url: string;
+  events: WebhookEventFilter[];
+  description?: string;
+  // inactive webhooks keep their configuration and log but receive nothing
+  active: boolean;
+  // HMAC-SHA256 key for the X-Webhook-Signature header; only shown when the webhook is created
+  secret: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DeliveryAttempt = {
+  attemptedAt: string;
+  // the webhook's URL at the time, which may have been corrected since
+  url: string;
+  durationMs: number;
+  // the receiver's HTTP status, absent when the request itself failed
+  responseStatus?: number;
+  error?: string;
+};
+
+// 'dead' deliveries ran out of retries and sit in the dead-letter list until redelivered
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: UserEventType;
+  // the signed JSON body, identical on every attempt
+  payload: string;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  createdAt: string;
+  nextAttemptAt?: string;
+  completedAt?: string;
+};
+
+export type WebhookView = Omit<Webhook, 'secret'>;
+
+export const webhooks: Webhook[] = [];
+
+export const webhookDeliveries: WebhookDelivery[] = [];
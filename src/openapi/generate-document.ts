@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { joinRoutePath, Layer, mountPath } from '../utils/router-stack';
+import { joiToJsonSchema, JsonSchema } from './joi-to-json-schema';
+import { metadataOf, RouteMetadata } from './route-metadata';
+
+export type Parameter = {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: JsonSchema;
+};
+
+export type Operation = {
+  operationId: string;
+  tags: string[];
+  parameters: Parameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  security?: Record<string, string[]>[];
+  'x-permission'?: string;
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+};
+
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, unknown>;
+};
+
+export type GenerateOptions = {
+  info?: { title: string; version: string };
+  // routers left out of the document, such as the one serving it
+  exclude?: Router[];
+};
+
+type RouteDescription = {
+  path: string;
+  method: string;
+  authenticated: boolean;
+  metadata: RouteMetadata[];
+};
+
+const problemResponse = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } },
+});
+
+function collectRoutes(router: { stack: Layer[] }, prefix: string, exclude: unknown[], authenticated: string[]) {
+  const routes: RouteDescription[] = [];
+  const protectedPaths = [...authenticated];
+  const isProtected = (path: string) => protectedPaths.some((p) => path === p || path.startsWith(`${p}/`));
+
+  router.stack.forEach((layer) => {
+    if (layer.route) {
+      const path = joinRoutePath(prefix, layer.route.path);
+
+      Object.keys(layer.route.methods)
+        .filter((method) => method !== '_all')
+        .forEach((method) => {
+          const handlers = layer.route!.stack.filter((routeLayer) => routeLayer.method === method);
+
+          routes.push({
+            path,
+            method,
+            authenticated: isProtected(path),
+            metadata: handlers.map(({ handle }) => metadataOf(handle)).filter((meta) => meta !== undefined),
+          });
+        });
+    } else if (layer.handle.stack) {
+      if (!exclude.includes(layer.handle)) {
+        routes.push(
+          ...collectRoutes(layer.handle as { stack: Layer[] }, prefix + mountPath(layer), exclude, protectedPaths),
+        );
+      }
+    } else if (metadataOf(layer.handle)?.authenticate) {
+      protectedPaths.push(prefix + mountPath(layer) || '/');
+    }
+  });
+
+  return routes;
+}
+
+function toOperation({ path, method, authenticated, metadata }: RouteDescription): Operation {
+  const schemaFor = (property: 'body' | 'query' | 'params') =>
+    metadata.find((meta) => meta.validate?.property === property)?.validate?.schema;
+  const permission = metadata.find((meta) => meta.permission)?.permission;
+  const precondition = metadata.find((meta) => meta.precondition)?.precondition;
+  const rateLimit = metadata.find((meta) => meta.rateLimit)?.rateLimit;
+  const consumes = metadata.find((meta) => meta.consumes)?.consumes ?? ['application/json'];
+  const produces = metadata.find((meta) => meta.produces)?.produces;
+  const bodySchemas = metadata.find((meta) => meta.bodySchemas)?.bodySchemas ?? {};
+
+  const paramsSchema = schemaFor('params');
+  const querySchema = schemaFor('query');
+  const bodySchema = schemaFor('body');
+
+  const pathProperties = (paramsSchema ? joiToJsonSchema(paramsSchema).properties : {}) as Record<string, JsonSchema>;
+  const pathParameters: Parameter[] = [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: pathProperties[name] ?? { type: 'string' },
+  }));
+
+  const query = querySchema ? joiToJsonSchema(querySchema) : undefined;
+  const queryParameters: Parameter[] = Object.entries((query?.properties ?? {}) as Record<string, JsonSchema>).map(
+    ([name, schema]) => ({
+      name,
+      in: 'query',
+      required: ((query?.required ?? []) as string[]).includes(name),
+      schema,
+    }),
+  );
+
+  const headerParameters: Parameter[] = precondition
+    ? [{ name: 'If-Match', in: 'header', required: precondition.required, schema: { type: 'string' } }]
+    : [];
+
+  // handlers pick their own success status (200, 201, ...), which the stack cannot tell us
+  const responses: Operation['responses'] = {
+    '2XX': {
+      description: 'Successful response',
+      ...(produces && { content: Object.fromEntries(produces.map((mediaType) => [mediaType, { schema: {} }])) }),
+    },
+  };
+  if (paramsSchema || querySchema || bodySchema) {
+    responses[StatusCodes.BAD_REQUEST] = problemResponse('Invalid request');
+  }
+  if (authenticated) {
+    responses[StatusCodes.UNAUTHORIZED] = problemResponse('Missing or invalid bearer token');
+  }
+  if (permission) {
+    responses[StatusCodes.FORBIDDEN] = problemResponse(`Requires the ${permission} permission`);
+  }
+  if (pathParameters.length) {
+    responses[StatusCodes.NOT_FOUND] = problemResponse('Resource not found');
+  }
+  if (precondition) {
+    responses[StatusCodes.PRECONDITION_FAILED] = problemResponse('If-Match does not match the current ETag');
+  }
+  if (precondition?.required) {
+    responses[StatusCodes.PRECONDITION_REQUIRED] = problemResponse('If-Match header is missing');
+  }
+  if (produces) {
+    responses[StatusCodes.NOT_ACCEPTABLE] = problemResponse(`Accept allows none of ${produces.join(', ')}`);
+  }
+  if (bodySchema && consumes.length > 1) {
+    responses[StatusCodes.UNSUPPORTED_MEDIA_TYPE] = problemResponse(`Body is not one of ${consumes.join(', ')}`);
+  }
+  if (rateLimit) {
+    responses[StatusCodes.TOO_MANY_REQUESTS] = problemResponse(
+      `More than ${rateLimit.limit} requests per ${rateLimit.windowMs / 1000} seconds`,
+    );
+  }
+
+  const segments = path.split('/').filter(Boolean);
+
+  // GET /user/:id becomes getUserById, GET /.well-known/jwks.json getWellKnownJwksJson
+  const words = segments.flatMap((segment) =>
+    segment.startsWith(':') ? ['by', segment.slice(1)] : segment.split(/\W+/).filter(Boolean),
+  );
+
+  return {
+    operationId: [method, ...(words.length ? words : ['root'])]
+      .map((word, index) => (index ? word[0].toUpperCase() + word.slice(1) : word))
+      .join(''),
+    tags: [segments[0]?.replace(/^\W+/, '') || 'default'],
+    parameters: [...pathParameters, ...queryParameters, ...headerParameters],
+    ...(bodySchema && {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          consumes.map((mediaType) => [mediaType, { schema: joiToJsonSchema(bodySchemas[mediaType] ?? bodySchema) }]),
+        ),
+      },
+    }),
+    ...(authenticated && { security: [{ bearerAuth: [] }] }),
+    ...(permission && { 'x-permission': permission }),
+    responses,
+  };
+}
+
+/**
+ * Builds an OpenAPI 3.1 document by walking the router's stack. Parameters and request bodies come from
+ * the Joi schemas given to validateRequest, security from the authenticate and authorize middleware, so
+ * the document always describes what the routes actually enforce.
+ */
+export function generateOpenApiDocument(router: Router, options: GenerateOptions = {}): OpenApiDocument {
+  const { info = { title: 'API Demo - Node.js', version: '0.0.0' }, exclude = [] } = options;
+  const paths: OpenApiDocument['paths'] = {};
+
+  collectRoutes(router as unknown as { stack: Layer[] }, '', exclude, []).forEach((route) => {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: toOperation(route) };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: {
+        Problem: {
+          type: 'object',
+          properties: {
+            type: { type: 'string' },
+            title: { type: 'string' },
+            status: { type: 'integer' },
+            detail: { type: 'string' },
+            instance: { type: 'string' },
+          },
+          required: ['type', 'title', 'status'],
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,6 @@
+export type { GenerateOptions, OpenApiDocument, Operation, Parameter } from './generate-document';
+export { generateOpenApiDocument } from './generate-document';
+export type { JsonSchema } from './joi-to-json-schema';
+export { joiToJsonSchema } from './joi-to-json-schema';
+export type { RouteMetadata } from './route-metadata';
+export { annotate, metadataOf } from './route-metadata';
@@ -0,0 +1,131 @@
+import Joi from 'joi';
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+type JoiRule = { name: string; args?: Record<string, unknown> };
+
+type JoiDescription = {
+  type: string;
+  flags?: { presence?: string; default?: unknown; only?: boolean; description?: string; format?: string };
+  rules?: JoiRule[];
+  allow?: unknown[];
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  matches?: { schema: JoiDescription }[];
+  dependencies?: { rel: string; peers: string[] }[];
+  examples?: unknown[];
+};
+
+// Joi describes regexes as "/source/flags"
+function regexSource(regex: string) {
+  return regex.slice(1, regex.lastIndexOf('/'));
+}
+
+const stringFormats: Record<string, string> = {
+  email: 'email',
+  guid: 'uuid',
+  uri: 'uri',
+  domain: 'hostname',
+  hostname: 'hostname',
+  isoDate: 'date-time',
+};
+
+function applyRules(schema: JsonSchema, rules: JoiRule[], type: string) {
+  rules.forEach(({ name, args = {} }) => {
+    if (type === 'string') {
+      if (stringFormats[name]) schema.format = stringFormats[name];
+      if (name === 'pattern') schema.pattern = regexSource(String(args.regex));
+      if (name === 'min') schema.minLength = args.limit;
+      if (name === 'max') schema.maxLength = args.limit;
+      if (name === 'length') schema.minLength = schema.maxLength = args.limit;
+    }
+
+    if (type === 'number') {
+      if (name === 'integer') schema.type = 'integer';
+      if (name === 'min') schema.minimum = args.limit;
+      if (name === 'max') schema.maximum = args.limit;
+      if (name === 'greater') schema.exclusiveMinimum = args.limit;
+      if (name === 'less') schema.exclusiveMaximum = args.limit;
+    }
+
+    if (type === 'array') {
+      if (name === 'min') schema.minItems = args.limit;
+      if (name === 'max') schema.maxItems = args.limit;
+    }
+  });
+}
+
+function convert(description: JoiDescription): JsonSchema {
+  const { type, flags = {}, rules = [], allow = [] } = description;
+  let schema: JsonSchema;
+
+  switch (type) {
+    case 'object':
+      schema = convertObject(description);
+      break;
+    case 'array':
+      schema = { type: 'array' };
+      if (description.items?.length) {
+        schema.items =
+          description.items.length === 1 ? convert(description.items[0]) : { anyOf: description.items.map(convert) };
+      }
+      break;
+    case 'alternatives':
+      schema = { anyOf: (description.matches ?? []).map(({ schema: match }) => convert(match)) };
+      break;
+    case 'date':
+      schema = { type: 'string', format: 'date-time' };
+      break;
+    case 'string':
+    case 'number':
+    case 'boolean':
+      schema = { type };
+      break;
+    default:
+      schema = {};
+  }
+
+  applyRules(schema, rules, type);
+
+  if (flags.only) {
+    schema.enum = allow;
+  } else if (allow.includes(null) && typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null'];
+  }
+
+  if (flags.default !== undefined && typeof flags.default !== 'function') schema.default = flags.default;
+  if (flags.description) schema.description = flags.description;
+  if (description.examples?.length) schema.examples = description.examples;
+
+  return schema;
+}
+
+function convertObject(description: JoiDescription): JsonSchema {
+  const keys = Object.entries(description.keys ?? {}).filter(([, key]) => key.flags?.presence !== 'forbidden');
+  const required = keys.filter(([, key]) => key.flags?.presence === 'required').map(([name]) => name);
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(keys.map(([name, key]) => [name, convert(key)])),
+  };
+
+  if (required.length) {
+    schema.required = required;
+  }
+
+  // oxor: at most one of the peers may be present
+  const exclusive = (description.dependencies ?? []).filter(({ rel }) => rel === 'oxor');
+  if (exclusive.length) {
+    schema.allOf = exclusive.map(({ peers }) => ({
+      not: {
+        anyOf: peers.flatMap((peer, index) => peers.slice(index + 1).map((other) => ({ required: [peer, other] }))),
+      },
+    }));
+  }
+
+  return schema;
+}
+
+export function joiToJsonSchema(schema: Joi.Schema): JsonSchema {
+  return convert(schema.describe() as JoiDescription);
+}
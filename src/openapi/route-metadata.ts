@@ -0,0 +1,26 @@
+import Joi from 'joi';
+
+export type RouteMetadata = {
+  validate?: { schema: Joi.Schema; property: 'body' | 'query' | 'params' };
+  // body schemas for media types that differ from validate's, such as JSON Patch documents
+  bodySchemas?: Record<string, Joi.Schema>;
+  authenticate?: boolean;
+  permission?: string;
+  precondition?: { required: boolean };
+  rateLimit?: { limit: number; windowMs: number };
+  // media types of request bodies and responses, when a route supports more than JSON
+  consumes?: string[];
+  produces?: string[];
+};
+
+// keyed by middleware function so the OpenAPI generator can read what each route enforces
+const registry = new WeakMap<object, RouteMetadata>();
+
+export function annotate<T extends object>(middleware: T, metadata: RouteMetadata): T {
+  registry.set(middleware, { ...registry.get(middleware), ...metadata });
+  return middleware;
+}
+
+export function metadataOf(middleware: unknown): RouteMetadata | undefined {
+  return typeof middleware === 'function' ? registry.get(middleware) : undefined;
+}
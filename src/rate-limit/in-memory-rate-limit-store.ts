@@ -0,0 +1,50 @@
+import { BucketOptions, RateLimitStore, TakeOptions } from './rate-limit-store';
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number;
+};
+
+// how often buckets that have refilled completely are dropped
+const SWEEP_INTERVAL_MS = 60_000;
+
+export function createInMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  let sweptAt = 0;
+
+  // a full bucket is the same as no bucket, so forgetting it keeps memory bounded by active keys
+  const sweep = (now: number) => {
+    if (now - sweptAt < SWEEP_INTERVAL_MS) return;
+
+    sweptAt = now;
+    buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) buckets.delete(key);
+    });
+  };
+
+  return {
+    async take(key: string, { limit, windowMs }: BucketOptions, { cost = 1, now = Date.now() }: TakeOptions = {}) {
+      sweep(now);
+
+      const perMs = limit / windowMs;
+      const bucket = buckets.get(key);
+      const available = bucket ? Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * perMs) : limit;
+      // a request costing more than the bucket holds gets through on a full bucket and leaves it in debt,
+      // so it is paid off before the next one instead of never being allowed
+      const required = Math.min(cost, limit);
+      const allowed = available >= required;
+      const tokens = allowed ? available - cost : available;
+      const resetMs = Math.ceil((limit - tokens) / perMs);
+
+      buckets.set(key, { tokens, updatedAt: now, fullAt: now + resetMs });
+
+      return {
+        allowed,
+        remaining: Math.max(0, Math.floor(tokens)),
+        resetMs,
+        retryAfterMs: allowed ? 0 : Math.ceil((required - tokens) / perMs),
+      };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { config } from '../config';
+import { createInMemoryRateLimitStore } from './in-memory-rate-limit-store';
+
+export type { BucketOptions, BucketState, RateLimitStore, TakeOptions } from './rate-limit-store';
+export { createInMemoryRateLimitStore };
+
+// buckets are per process until a shared store is plugged in here
+export const rateLimitStore = createInMemoryRateLimitStore();
+
+const { windowMs, createUser, issueToken } = config.rateLimit;
+
+// requests allowed per key and window on the routes that are limited
+export const rateLimits = {
+  createUser: { limit: createUser, windowMs },
+  issueToken: { limit: issueToken, windowMs },
+};
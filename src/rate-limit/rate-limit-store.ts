@@ -0,0 +1,30 @@
+export type BucketOptions = {
+  // bucket size: the burst a key may spend at once
+  limit: number;
+  // time for an empty bucket to refill completely
+  windowMs: number;
+};
+
+export type TakeOptions = {
+  // tokens the request spends, 1 unless it does the work of several
+  cost?: number;
+  now?: number;
+};
+
+export type BucketState = {
+  allowed: boolean;
+  // whole tokens left after this request
+  remaining: number;
+  // until the bucket is full again
+  resetMs: number;
+  // until the next token is available; 0 when the request was allowed
+  retryAfterMs: number;
+};
+
+/**
+ * Holds the token buckets. `take` has to refill and spend in one step, so a store shared between
+ * processes must implement it atomically (e.g. as a Redis script).
+ */
+export interface RateLimitStore {
+  take(key: string, bucket: BucketOptions, options?: TakeOptions): Promise<BucketState>;
+}
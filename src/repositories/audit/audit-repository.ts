@@ -0,0 +1,7 @@
+import { AuditEntry } from '../../models/audit-model';
+
+// append-only: entries can be recorded and read back, never changed or removed
+export interface AuditRepository {
+  append(entry: Omit<AuditEntry, 'id'>): AuditEntry;
+  list(): AuditEntry[];
+}
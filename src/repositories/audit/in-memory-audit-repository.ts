@@ -0,0 +1,19 @@
+import { auditEntries, AuditEntry } from '../../models/audit-model';
+import { AuditRepository } from './audit-repository';
+
+export function createInMemoryAuditRepository(store: AuditEntry[] = auditEntries): AuditRepository {
+  return {
+    append(entry) {
+      const id = (store[store.length - 1]?.id ?? 0) + 1;
+      // frozen so no caller can rewrite history through a returned reference
+      const appendedEntry = Object.freeze({ ...entry, id });
+
+      store.push(appendedEntry);
+      return appendedEntry;
+    },
+
+    list() {
+      return [...store];
+    },
+  };
+}
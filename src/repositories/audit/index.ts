@@ -0,0 +1,24 @@
+import { config } from '../../config';
+import { AuditRepository } from './audit-repository';
+import { createInMemoryAuditRepository } from './in-memory-audit-repository';
+import { createSqliteAuditRepository } from './sqlite-audit-repository';
+
+export type { AuditRepository } from './audit-repository';
+export { createInMemoryAuditRepository, createSqliteAuditRepository };
+
+// the audit trail lives next to the users it describes, in the same store
+export function createAuditRepository(
+  store: string = config.storage.userStore,
+  filename: string = config.storage.sqliteFilename,
+): AuditRepository {
+  switch (store) {
+    case 'memory':
+      return createInMemoryAuditRepository();
+    case 'sqlite':
+      return createSqliteAuditRepository(filename);
+    default:
+      throw new Error(`Unknown audit store "${store}"`);
+  }
+}
+
+export const auditRepository = createAuditRepository();
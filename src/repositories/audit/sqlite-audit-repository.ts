@@ -0,0 +1,75 @@
+import { Database } from 'node-sqlite3-wasm';
+import { AuditAction, AuditEntry } from '../../models/audit-model';
+import { AuditRepository } from './audit-repository';
+
+type AuditEntryRow = {
+  id: number;
+  user_id: string;
+  actor: string;
+  action: AuditAction;
+  timestamp: string;
+  changes: string;
+  request_id: string | null;
+};
+
+function toAuditEntry(row: AuditEntryRow): AuditEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    actor: row.actor,
+    action: row.action,
+    timestamp: row.timestamp,
+    changes: JSON.parse(row.changes),
+    ...(row.request_id !== null && { requestId: row.request_id }),
+  };
+}
+
+export function createSqliteAuditRepository(filename: string): AuditRepository {
+  const db = new Database(filename);
+
+  // the triggers make the table append-only even for someone with direct database access
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      action TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      request_id TEXT
+    );
+
+    CREATE TRIGGER IF NOT EXISTS audit_entries_no_update BEFORE UPDATE ON audit_entries
+    BEGIN
+      SELECT RAISE(ABORT, 'audit entries are immutable');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS audit_entries_no_delete BEFORE DELETE ON audit_entries
+    BEGIN
+      SELECT RAISE(ABORT, 'audit entries are immutable');
+    END;
+  `);
+
+  return {
+    append(entry) {
+      const { lastInsertRowid } = db.run(
+        `INSERT INTO audit_entries (user_id, actor, action, timestamp, changes, request_id)
+         VALUES (:userId, :actor, :action, :timestamp, :changes, :requestId)`,
+        {
+          ':userId': entry.userId,
+          ':actor': entry.actor,
+          ':action': entry.action,
+          ':timestamp': entry.timestamp,
+          ':changes': JSON.stringify(entry.changes),
+          ':requestId': entry.requestId ?? null,
+        },
+      );
+
+      return { ...entry, id: Number(lastInsertRowid) };
+    },
+
+    list() {
+      return db.all('SELECT * FROM audit_entries ORDER BY id').map((row) => toAuditEntry(row as AuditEntryRow));
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { User, users } from '../../models/users-model';
+import { UserRepository } from './user-repository';
+
+// backed by the exported users array by default so the seed data stays the source of truth
+export function createInMemoryUserRepository(store: User[] = users): UserRepository {
+  const findIndex = (id: string) => store.findIndex((user) => user.id === id);
+
+  return {
+    find(id) {
+      return store.find((user) => user.id === id);
+    },
+
+    list() {
+      return [...store];
+    },
+
+    create(user) {
+      store.push(user);
+      return user;
+    },
+
+    update(id, user) {
+      const userIndex = findIndex(id);
+      if (userIndex === -1) {
+        return undefined;
+      }
+
+      store[userIndex] = user;
+      return user;
+    },
+
+    delete(id) {
+      const userIndex = findIndex(id);
+      if (userIndex === -1) {
+        return undefined;
+      }
+
+      const [deletedUser] = store.splice(userIndex, 1);
+      return deletedUser;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { config } from '../../config';
+import { users } from '../../models/users-model';
+import { createInMemoryUserRepository } from './in-memory-user-repository';
+import { createSqliteUserRepository } from './sqlite-user-repository';
+import { UserRepository } from './user-repository';
+
+export type { UserRepository } from './user-repository';
+export { createInMemoryUserRepository, createSqliteUserRepository };
+
+export function createUserRepository(
+  store: string = config.storage.userStore,
+  filename: string = config.storage.sqliteFilename,
+): UserRepository {
+  switch (store) {
+    case 'memory':
+      return createInMemoryUserRepository();
+    case 'sqlite':
+      return createSqliteUserRepository(filename, users);
+    default:
+      throw new Error(`Unknown user store "${store}"`);
+  }
+}
+
+export const userRepository = createUserRepository();
@@ -0,0 +1,116 @@
+import { Database } from 'node-sqlite3-wasm';
+import { User } from '../../models/users-model';
+import { UserRepository } from './user-repository';
+
+type UserRow = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+};
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    // optional columns are left off the user rather than returned as null
+    ...(row.email !== null && { email: row.email }),
+    ...(row.phone !== null && { phone: row.phone }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.deleted_at !== null && { deletedAt: row.deleted_at }),
+  } as User;
+}
+
+function toRow(user: User) {
+  return {
+    ':id': user.id,
+    ':firstName': user.firstName,
+    ':lastName': user.lastName,
+    ':email': user.email ?? null,
+    ':phone': user.phone ?? null,
+    ':createdAt': user.createdAt,
+    ':updatedAt': user.updatedAt,
+    ':deletedAt': user.deletedAt ?? null,
+  };
+}
+
+export function createSqliteUserRepository(filename: string, seed: User[] = []): UserRepository {
+  const db = new Database(filename);
+
+  const tableExists = db.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'`) !== null;
+
+  if (!tableExists) {
+    db.exec(`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        first_name TEXT NOT NULL,
+        last_name TEXT NOT NULL,
+        email TEXT,
+        phone TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        deleted_at TEXT
+      )
+    `);
+
+    // only seed a freshly created database, never one that has simply been emptied
+    seed.forEach((user) => insert(user));
+  } else if (!db.all('PRAGMA table_info(users)').some((column) => column.name === 'deleted_at')) {
+    // databases created before soft delete existed
+    db.exec('ALTER TABLE users ADD COLUMN deleted_at TEXT');
+  }
+
+  function insert(user: User) {
+    db.run(
+      `INSERT INTO users (id, first_name, last_name, email, phone, created_at, updated_at, deleted_at)
+       VALUES (:id, :firstName, :lastName, :email, :phone, :createdAt, :updatedAt, :deletedAt)`,
+      toRow(user),
+    );
+  }
+
+  function find(id: string) {
+    const row = db.get('SELECT * FROM users WHERE id = ?', [id]);
+    return row ? toUser(row as UserRow) : undefined;
+  }
+
+  return {
+    find,
+
+    list() {
+      return db.all('SELECT * FROM users ORDER BY rowid').map((row) => toUser(row as UserRow));
+    },
+
+    create(user) {
+      insert(user);
+      return user;
+    },
+
+    update(id, user) {
+      const { changes } = db.run(
+        `UPDATE users
+         SET first_name = :firstName, last_name = :lastName, email = :email, phone = :phone,
+             created_at = :createdAt, updated_at = :updatedAt, deleted_at = :deletedAt
+         WHERE id = :id`,
+        { ...toRow(user), ':id': id },
+      );
+
+      return changes > 0 ? user : undefined;
+    },
+
+    delete(id) {
+      const deletedUser = find(id);
+      if (!deletedUser) {
+        return undefined;
+      }
+
+      db.run('DELETE FROM users WHERE id = ?', [id]);
+      return deletedUser;
+    },
+  };
+}
@@ -0,0 +1,9 @@
+import { User } from '../../models/users-model';
+
+export interface UserRepository {
+  find(id: string): User | undefined;
+  list(): User[];
+  create(user: User): User;
+  update(id: string, user: User): User | undefined;
+  delete(id: string): User | undefined;
+}
@@ -0,0 +1,65 @@
+import { Webhook, webhookDeliveries, WebhookDelivery, webhooks } from '../../models/webhook-model';
+import { WebhookRepository } from './webhook-repository';
+
+export function createInMemoryWebhookRepository(
+  store: Webhook[] = webhooks,
+  deliveryStore: WebhookDelivery[] = webhookDeliveries,
+): WebhookRepository {
+  const findIndex = (id: string) => store.findIndex((webhook) => webhook.id === id);
+
+  return {
+    find(id) {
+      return store.find((webhook) => webhook.id === id);
+    },
+
+    list() {
+      return [...store];
+    },
+
+    create(webhook) {
+      store.push(webhook);
+      return webhook;
+    },
+
+    update(id, webhook) {
+      const webhookIndex = findIndex(id);
+      if (webhookIndex === -1) {
+        return undefined;
+      }
+
+      store[webhookIndex] = webhook;
+      return webhook;
+    },
+
+    delete(id) {
+      const webhookIndex = findIndex(id);
+      if (webhookIndex === -1) {
+        return undefined;
+      }
+
+      const [deletedWebhook] = store.splice(webhookIndex, 1);
+      const remaining = deliveryStore.filter((delivery) => delivery.webhookId !== id);
+      deliveryStore.splice(0, deliveryStore.length, ...remaining);
+      return deletedWebhook;
+    },
+
+    findDelivery(id) {
+      return deliveryStore.find((delivery) => delivery.id === id);
+    },
+
+    listDeliveries() {
+      return [...deliveryStore];
+    },
+
+    saveDelivery(delivery) {
+      const deliveryIndex = deliveryStore.findIndex(({ id }) => id === delivery.id);
+
+      if (deliveryIndex === -1) {
+        deliveryStore.push(delivery);
+      } else {
+        deliveryStore[deliveryIndex] = delivery;
+      }
+      return delivery;
+    },
+  };
+}
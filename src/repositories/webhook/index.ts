@@ -0,0 +1,7 @@
+import { createInMemoryWebhookRepository } from './in-memory-webhook-repository';
+
+export type { WebhookRepository } from './webhook-repository';
+export { createInMemoryWebhookRepository };
+
+// subscriptions and their delivery log live in memory whatever USER_STORE is set to
+export const webhookRepository = createInMemoryWebhookRepository();
@@ -0,0 +1,15 @@
+import { Webhook, WebhookDelivery } from '../../models/webhook-model';
+
+export interface WebhookRepository {
+  find(id: string): Webhook | undefined;
+  list(): Webhook[];
+  create(webhook: Webhook): Webhook;
+  update(id: string, webhook: Webhook): Webhook | undefined;
+  // also drops the webhook's delivery log
+  delete(id: string): Webhook | undefined;
+
+  findDelivery(id: string): WebhookDelivery | undefined;
+  listDeliveries(): WebhookDelivery[];
+  // inserts a new delivery or replaces the one with the same id
+  saveDelivery(delivery: WebhookDelivery): WebhookDelivery;
+}
@@ -0,0 +1,26 @@
+import express, { RequestHandler } from 'express';
+import { negotiateApiVersion } from '../middleware/api-version-middleware';
+import { authenticate } from '../middleware/auth-middleware';
+import { idempotency } from '../middleware/idempotency-middleware';
+import auditRouter from './audit';
+import userRouter from './user';
+import usersRouter from './users';
+import webhooksRouter from './webhooks';
+
+/**
+ * The versioned resources, mounted under /v1, /v2 and, as an alias, without a prefix. `selectVersion`
+ * only runs for these paths, so a request for an unknown version of a path that does not exist is a 404.
+ */
+export function createApiRouter(selectVersion: RequestHandler = negotiateApiVersion()) {
+  const router = express.Router();
+
+  // protected routers; unsafe requests to them can be retried with an Idempotency-Key
+  router.use('/user', selectVersion, authenticate(), idempotency(), userRouter);
+  router.use('/users', selectVersion, authenticate(), idempotency(), usersRouter);
+  router.use('/audit', selectVersion, authenticate(), auditRouter);
+  router.use('/webhooks', selectVersion, authenticate(), idempotency(), webhooksRouter);
+
+  return router;
+}
+
+export default createApiRouter();
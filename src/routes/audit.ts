@@ -0,0 +1,26 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { AuditListQuery, listAuditEntries } from '../controllers/audit/list-audit-entries';
+import { authorize } from '../middleware/auth-middleware';
+import { validateRequest } from '../middleware/validation-middleware';
+import { AuditRepository, auditRepository } from '../repositories/audit';
+import { toPageResponse } from '../utils/pagination';
+import { auditListQuerySchema } from '../validation/schemas/audit.schema';
+
+export function createAuditRouter(repository: AuditRepository = auditRepository) {
+  const router = express.Router();
+
+  router.get(
+    '/',
+    authorize('audit:list'),
+    validateRequest(auditListQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const page = listAuditEntries(req.query as AuditListQuery, repository);
+
+      res.send(toPageResponse(page, req.baseUrl || '/', req.query));
+    },
+  );
+
+  return router;
+}
+
+export default createAuditRouter();
@@ -0,0 +1,29 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { issueToken, TokenIssuer } from '../controllers/auth/issue-token';
+import { byIp, rateLimit } from '../middleware/rate-limit-middleware';
+import { validateRequest } from '../middleware/validation-middleware';
+import { rateLimits } from '../rate-limit';
+import { tokenRequestSchema } from '../validation/schemas/auth.schema';
+
+export function createAuthRouter(issuer?: TokenIssuer) {
+  const router = express.Router();
+
+  router.post(
+    '/token',
+    // slows down guessing client secrets
+    rateLimit({ name: 'issue-token', ...rateLimits.issueToken, keyBy: byIp }),
+    validateRequest(tokenRequestSchema, 'body'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { client_id, client_secret } = req.body;
+      const token = issueToken(client_id, client_secret, issuer);
+
+      // tokens must not be cached by intermediaries (RFC 6749 section 5.1)
+      res.set('Cache-Control', 'no-store');
+      res.send(token);
+    },
+  );
+
+  return router;
+}
+
+export default createAuthRouter();
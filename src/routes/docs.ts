@@ -0,0 +1,26 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { generateOpenApiDocument, OpenApiDocument } from '../openapi';
+
+// `exclude` leaves routers out of the document, for example ones mounting the same routes a second time
+export function createDocsRouter(apiRouter: Router, exclude: Router[] = []) {
+  const router = express.Router();
+  let document: OpenApiDocument | undefined;
+
+  // generated on first request, once every route has been registered
+  const getDocument = () => (document ??= generateOpenApiDocument(apiRouter, { exclude: [router, ...exclude] }));
+
+  router.get('/openapi.json', (req: Request, res: Response, next: NextFunction) => {
+    res.send(getDocument());
+  });
+
+  router.get('/docs', (req: Request, res: Response, next: NextFunction) => {
+    const { info, paths } = getDocument();
+    const operations = Object.entries(paths).flatMap(([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) => ({ path, method, ...operation })),
+    );
+
+    res.render('docs', { title: info.title, version: info.version, operations });
+  });
+
+  return router;
+}
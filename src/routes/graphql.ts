@@ -0,0 +1,72 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { graphqlSync, parse, visit } from 'graphql';
+import { StatusCodes } from 'http-status-codes';
+import { UserDependencies } from '../controllers/user/user-dependencies';
+import { createUserResolvers, formatGraphqlError, GraphqlContext, UserResolverOptions, userSchema } from '../graphql';
+import { limitUserCreation } from '../middleware/rate-limit-middleware';
+import { validateRequest } from '../middleware/validation-middleware';
+import { auditContext } from '../utils/audit-context';
+import { graphqlRequestSchema } from '../validation/schemas/graphql.schema';
+
+type GraphqlRequest = {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+};
+
+// one token per createUser field, so aliases cannot create several users for the price of one
+const createdUsers = (req: Request) => {
+  let count = 0;
+
+  try {
+    visit(parse((req.body as GraphqlRequest).query), {
+      Field(node) {
+        if (node.name.value === 'createUser') count++;
+      },
+    });
+  } catch {
+    // a document that does not parse creates nothing; running it reports the syntax error
+    return 0;
+  }
+
+  return count;
+};
+
+/**
+ * Permissions are checked per field by the resolvers rather than by `authorize` here, since a single
+ * document can mix queries and mutations.
+ */
+export function createGraphqlRouter(dependencies: Partial<UserDependencies> = {}, options: UserResolverOptions = {}) {
+  const router = express.Router();
+  const rootValue = createUserResolvers(dependencies, options);
+
+  router.post(
+    '/',
+    validateRequest(graphqlRequestSchema, 'body'),
+    limitUserCreation(createdUsers),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { query, variables, operationName } = req.body as GraphqlRequest;
+      const contextValue: GraphqlContext = { principal: req.principal, audit: auditContext(req) };
+
+      // every resolver is synchronous, like the controllers they call
+      const { data, errors } = graphqlSync({
+        schema: userSchema,
+        source: query,
+        rootValue,
+        contextValue,
+        variableValues: variables,
+        operationName,
+      });
+
+      // without data the document never ran: it did not parse or does not fit the schema
+      res.status(data === undefined ? StatusCodes.BAD_REQUEST : StatusCodes.OK).send({
+        ...(errors && { errors: errors.map(formatGraphqlError) }),
+        ...(data !== undefined && { data }),
+      });
+    },
+  );
+
+  return router;
+}
+
+export default createGraphqlRouter();
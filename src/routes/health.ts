@@ -0,0 +1,29 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { Readiness, readiness as defaultReadiness } from '../health';
+
+export function createHealthRouter(readiness: Readiness = defaultReadiness) {
+  const router = express.Router();
+
+  // liveness: the process is up and its event loop answers
+  router.get('/healthz', (req: Request, res: Response, next: NextFunction) => {
+    res.set('Cache-Control', 'no-store');
+    res.send({ status: 'ok' });
+  });
+
+  // readiness: every registered dependency works and the server is not shutting down
+  router.get('/readyz', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await readiness.check();
+
+      res.set('Cache-Control', 'no-store');
+      res.status(report.status === 'ready' ? StatusCodes.OK : StatusCodes.SERVICE_UNAVAILABLE).send(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createHealthRouter();
@@ -1,14 +1,41 @@
 import express, { NextFunction, Request, Response } from 'express';
-import userRouter from './user';
-import usersRouter from './users';
+import { pinApiVersion } from '../middleware/api-version-middleware';
+import { authenticate } from '../middleware/auth-middleware';
+import { idempotency } from '../middleware/idempotency-middleware';
+import { apiVersions } from '../versioning';
+import apiRouter, { createApiRouter } from './api';
+import authRouter from './auth';
+import { createDocsRouter } from './docs';
+import graphqlRouter from './graphql';
+import healthRouter from './health';
+import metricsRouter from './metrics';
+import wellKnownRouter from './well-known';
 
 const router = express.Router();
 
-router.use('/user', userRouter);
-router.use('/users', usersRouter);
+// /healthz and /readyz
+router.use(healthRouter);
+router.use('/auth', authRouter);
+router.use('/.well-known', wellKnownRouter);
+router.use('/metrics', metricsRouter);
+router.use('/graphql', authenticate(), idempotency(), graphqlRouter);
+
+// /v1/users, /v2/users, ...
+const versionedRouters = apiVersions.map((version) => {
+  const versionRouter = createApiRouter(pinApiVersion(version));
+
+  router.use(`/v${version}`, versionRouter);
+  return versionRouter;
+});
+
+// serves /openapi.json and /docs; the versioned copies of the unversioned paths are left out
+router.use(createDocsRouter(router, versionedRouters));
 
 router.get('/', (req: Request, res: Response, next: NextFunction) => {
   res.render('index', { title: 'Express' });
 });
 
+// unversioned paths are an alias of v1, unless Accept-Version or the Accept media type asks for another version
+router.use(apiRouter);
+
 export default router;
@@ -0,0 +1,22 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Metrics, metrics as defaultMetrics } from '../metrics';
+
+export function createMetricsRouter(metrics: Metrics = defaultMetrics) {
+  const router = express.Router();
+
+  // Prometheus text exposition format
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = await metrics.registry.metrics();
+
+      res.set('Content-Type', metrics.registry.contentType);
+      res.send(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createMetricsRouter();
@@ -1,43 +1,177 @@
 import express, { NextFunction, Request, Response } from 'express';
+import { config } from '../config';
+import { AuditListQuery } from '../controllers/audit/list-audit-entries';
 import { createNewUser } from '../controllers/user/create-new-user';
 import { deleteUser } from '../controllers/user/delete-user';
 import { getUserById } from '../controllers/user/get-user-by-id';
+import { getUserHistory } from '../controllers/user/get-user-history';
+import { patchUser, UserPatch } from '../controllers/user/patch-user';
+import { purgeUser } from '../controllers/user/purge-user';
+import { restoreUser } from '../controllers/user/restore-user';
 import { updateUser } from '../controllers/user/update-user';
-import { validateRequest } from '../middleware/validation-middleware';
-import { userCreateSchema, userIdSchema, userUpdateSchema } from '../validation/schemas/user.schema';
+import { UserDependencies } from '../controllers/user/user-dependencies';
+import { authorize } from '../middleware/auth-middleware';
+import { when } from '../middleware/conditional-middleware';
+import { parseBody, respondWith } from '../middleware/content-negotiation-middleware';
+import { checkIfMatch } from '../middleware/precondition-middleware';
+import { limitUserCreation } from '../middleware/rate-limit-middleware';
+import { validateBodyByType, validateRequest } from '../middleware/validation-middleware';
+import { userRepository } from '../repositories/user';
+import { formats, jsonPatchFormat, mergePatchFormat, patchFormats } from '../serialization';
+import { auditContext } from '../utils/audit-context';
+import { etagFor } from '../utils/etag';
+import { toPageResponse } from '../utils/pagination';
+import { presentUser } from '../utils/present-user';
+import { userHistoryQuerySchema } from '../validation/schemas/audit.schema';
+import {
+  userCreateSchema,
+  userDeleteQuerySchema,
+  userFieldsetQuerySchema,
+  userIdSchema,
+  userJsonPatchSchema,
+  userMergePatchSchema,
+  userUpdateSchema,
+} from '../validation/schemas/user.schema';
+import { deserializeUser, deserializeUserPatch } from '../versioning';
 
-const router = express.Router();
+// v2 clients write the name as name.first and name.last, the way they read it
+const deserializeBody = (req: Request, res: Response, next: NextFunction) => {
+  req.body = req.is(jsonPatchFormat.mediaTypes)
+    ? deserializeUserPatch(req.body, req.apiVersion)
+    : deserializeUser(req.body, req.apiVersion);
+  next();
+};
 
-router.delete('/:id', validateRequest(userIdSchema, 'params'), (req: Request, res: Response, next: NextFunction) => {
-  const { id } = req.params;
-  const user = deleteUser(id);
+export type UserRouterOptions = {
+  // strict optimistic concurrency: PATCH and DELETE must send the ETag from a previous GET in If-Match,
+  // otherwise they are refused with 428
+  requireIfMatch?: boolean;
+};
 
-  res.send(user);
-});
+export function createUserRouter(
+  dependencies: Partial<UserDependencies> = {},
+  { requireIfMatch = config.requireIfMatch }: UserRouterOptions = {},
+) {
+  const router = express.Router();
+  const { repository = userRepository } = dependencies;
+  const targetUser = (req: Request) => req.params.id;
+  const isHardDelete = (req: Request) => Boolean(req.query.hard);
+  // soft-deleted users have no current representation, except to the purge that removes them
+  const currentETag = (req: Request) => {
+    const user = repository.find(req.params.id);
+    return user && (!user.deletedAt || isHardDelete(req)) ? etagFor(user) : undefined;
+  };
+  // JSON Patch and Merge Patch bodies are applied to the stored user, any other body is merged into it
+  const patchOf = (req: Request): UserPatch | undefined => {
+    if (req.is(jsonPatchFormat.mediaTypes)) return { type: 'json-patch', operations: req.body };
+    if (req.is(mergePatchFormat.mediaTypes)) return { type: 'merge-patch', document: req.body };
+  };
 
-router.get('/:id', validateRequest(userIdSchema, 'params'), (req: Request, res: Response, next: NextFunction) => {
-  const { id } = req.params;
-  const user = getUserById(id);
+  router.delete(
+    '/:id',
+    authorize('user:delete', targetUser),
+    respondWith(),
+    validateRequest(userIdSchema, 'params'),
+    validateRequest(userDeleteQuerySchema, 'query'),
+    when(isHardDelete, authorize('user:purge')),
+    checkIfMatch(currentETag, requireIfMatch),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const user = isHardDelete(req)
+        ? purgeUser(id, auditContext(req), dependencies)
+        : deleteUser(id, auditContext(req), dependencies);
 
-  res.send(user);
-});
+      res.send(presentUser(user, req));
+    },
+  );
 
-router.patch(
-  '/:id',
-  validateRequest(userIdSchema, 'params'),
-  validateRequest(userUpdateSchema, 'body'),
-  (req: Request, res: Response, next: NextFunction) => {
-    const { id } = req.params;
-    const user = updateUser(id, req.body);
+  router.get(
+    '/:id',
+    authorize('user:read', targetUser),
+    respondWith(),
+    validateRequest(userIdSchema, 'params'),
+    validateRequest(userFieldsetQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const user = getUserById(id, dependencies);
 
-    res.send(user);
-  },
-);
+      res.set('ETag', etagFor(user));
+      res.send(presentUser(user, req));
+    },
+  );
 
-router.post('/', validateRequest(userCreateSchema, 'body'), (req: Request, res: Response, next: NextFunction) => {
-  const user = createNewUser(req.body);
+  router.get(
+    '/:id/history',
+    authorize('user:history', targetUser),
+    respondWith(),
+    validateRequest(userIdSchema, 'params'),
+    validateRequest(userHistoryQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const page = getUserHistory(id, req.query as AuditListQuery, dependencies);
 
-  res.status(201).send(user);
-});
+      res.send(toPageResponse(page, `${req.baseUrl}/${id}/history`, req.query));
+    },
+  );
 
-export default router;
+  router.patch(
+    '/:id',
+    authorize('user:update', targetUser),
+    respondWith(),
+    validateRequest(userIdSchema, 'params'),
+    validateRequest(userFieldsetQuerySchema, 'query'),
+    parseBody([...formats, ...patchFormats]),
+    deserializeBody,
+    validateBodyByType(userUpdateSchema, {
+      [jsonPatchFormat.mediaTypes[0]]: userJsonPatchSchema,
+      [mergePatchFormat.mediaTypes[0]]: userMergePatchSchema,
+    }),
+    checkIfMatch(currentETag, requireIfMatch),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const patch = patchOf(req);
+      const user = patch
+        ? patchUser(id, patch, auditContext(req), dependencies)
+        : updateUser(id, req.body, auditContext(req), dependencies);
+
+      res.set('ETag', etagFor(user));
+      res.send(presentUser(user, req));
+    },
+  );
+
+  router.post(
+    '/:id/restore',
+    authorize('user:restore'),
+    respondWith(),
+    validateRequest(userIdSchema, 'params'),
+    validateRequest(userFieldsetQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const user = restoreUser(id, auditContext(req), dependencies);
+
+      res.set('ETag', etagFor(user));
+      res.send(presentUser(user, req));
+    },
+  );
+
+  router.post(
+    '/',
+    limitUserCreation(),
+    authorize('user:create'),
+    respondWith(),
+    validateRequest(userFieldsetQuerySchema, 'query'),
+    parseBody(),
+    deserializeBody,
+    validateRequest(userCreateSchema, 'body'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const user = createNewUser(req.body, auditContext(req), dependencies);
+
+      res.set('ETag', etagFor(user));
+      res.status(201).send(presentUser(user, req));
+    },
+  );
+
+  return router;
+}
+
+export default createUserRouter();
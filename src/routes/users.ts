@@ -1,10 +1,197 @@
+import bodyParser from 'body-parser';
 import express, { NextFunction, Request, Response } from 'express';
-import { users } from '../models/users-model';
+import { StatusCodes } from 'http-status-codes';
+import { Readable } from 'stream';
+import { BulkOperation, bulkWriteUsers } from '../controllers/user/bulk-write-users';
+import { ExportFormat, exportUsers } from '../controllers/user/export-users';
+import { countImportRecords, importUsers } from '../controllers/user/import-users';
+import { listUsers, UserListQuery } from '../controllers/user/list-users';
+import { searchUsers, UserSearchQuery } from '../controllers/user/search-users';
+import { UserDependencies } from '../controllers/user/user-dependencies';
+import { UnsupportedMediaTypeError } from '../errors';
+import { userEventPayload, UserEventStream, userEventStream } from '../events';
+import { preserveRequestContext } from '../logging';
+import { authorize } from '../middleware/auth-middleware';
+import { when } from '../middleware/conditional-middleware';
+import { respondWith } from '../middleware/content-negotiation-middleware';
+import { toProblemDetails } from '../middleware/error-handler';
+import { limitUserCreation } from '../middleware/rate-limit-middleware';
+import { validateRequest } from '../middleware/validation-middleware';
+import { User } from '../models/users-model';
+import { auditContext } from '../utils/audit-context';
+import { Page, toPageResponse } from '../utils/pagination';
+import { presentUser } from '../utils/present-user';
+import { openSseConnection } from '../utils/sse';
+import {
+  userBulkQuerySchema,
+  userBulkSchema,
+  userExportQuerySchema,
+  userImportQuerySchema,
+  userListQuerySchema,
+  userSearchQuerySchema,
+} from '../validation/schemas/user.schema';
+import { deserializeUser } from '../versioning';
 
-const router = express.Router();
-
-router.get('/', (req: Request, res: Response, next: NextFunction) => {
-  res.send(users);
+const presentPage = (page: Page<User>, req: Request) => ({
+  ...page,
+  items: page.items.map((user) => presentUser(user, req)),
 });
 
-export default router;
+const importMediaTypes: Record<string, ExportFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+};
+
+// undefined when the body is not one of the import media types
+const importFormat = (req: Request): ExportFormat | undefined => {
+  const mediaType = req.is(Object.keys(importMediaTypes));
+  return mediaType && Buffer.isBuffer(req.body) ? importMediaTypes[mediaType] : undefined;
+};
+
+// a dry run creates nothing, and a body that cannot be imported is refused further on
+const importCost = (req: Request) => {
+  const format = importFormat(req);
+  return format && !req.query.dryRun ? countImportRecords(req.body.toString('utf8'), format) : 0;
+};
+
+// the stream replays recent changes to clients of /users/events
+export type UsersRouterDependencies = UserDependencies & { stream: UserEventStream };
+
+export function createUsersRouter(dependencies: Partial<UsersRouterDependencies> = {}) {
+  const router = express.Router();
+  const { stream = userEventStream } = dependencies;
+
+  router.get(
+    '/',
+    authorize('user:list'),
+    respondWith(),
+    validateRequest(userListQuerySchema, 'query'),
+    when((req) => Boolean(req.query.includeDeleted), authorize('user:list-deleted')),
+    (req: Request, res: Response, next: NextFunction) => {
+      const page = listUsers(req.query as UserListQuery, dependencies);
+
+      res.send(toPageResponse(presentPage(page, req), req.baseUrl || '/', req.query));
+    },
+  );
+
+  // the trash: soft-deleted users waiting to be restored or purged
+  router.get(
+    '/deleted',
+    authorize('user:list-deleted'),
+    respondWith(),
+    validateRequest(userListQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const page = listUsers({ ...(req.query as UserListQuery), onlyDeleted: true }, dependencies);
+
+      res.send(toPageResponse(presentPage(page, req), `${req.baseUrl}/deleted`, req.query));
+    },
+  );
+
+  // ranked, typo-tolerant lookup by name, email or phone
+  router.get(
+    '/search',
+    authorize('user:list'),
+    respondWith(),
+    validateRequest(userSearchQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { total, results } = searchUsers(req.query as unknown as UserSearchQuery, dependencies);
+
+      res.send({
+        data: results.map(({ user, ...result }) => ({ ...result, user: presentUser(user, req) })),
+        total,
+      });
+    },
+  );
+
+  // live user changes as Server-Sent Events; a reconnecting client's Last-Event-ID replays what it missed
+  router.get('/events', authorize('user:list'), (req: Request, res: Response, next: NextFunction) => {
+    const lastEventId = req.get('Last-Event-ID');
+    const connection = openSseConnection(req, res);
+
+    const unsubscribe = stream.subscribe(
+      ({ sequence, event }) => connection.send({ id: sequence, event: event.type, data: userEventPayload(event) }),
+      lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) : undefined,
+    );
+    connection.onClose(unsubscribe);
+  });
+
+  // permissions are checked per operation, so one forbidden item does not reject the whole batch
+  router.post(
+    '/bulk',
+    respondWith(),
+    validateRequest(userBulkQuerySchema, 'query'),
+    validateRequest(userBulkSchema, 'body'),
+    limitUserCreation((req) => (req.body as BulkOperation[]).filter(({ op }) => op === 'create').length),
+    (req: Request, res: Response, next: NextFunction) => {
+      const atomic = Boolean(req.query.atomic);
+      // item data is in the request's version, like the body of POST and PATCH /user
+      const operations = (req.body as BulkOperation[]).map((operation) =>
+        operation.op === 'delete' ? operation : { ...operation, data: deserializeUser(operation.data, req.apiVersion) },
+      );
+      const results = bulkWriteUsers(
+        operations as BulkOperation[],
+        { atomic, principal: req.principal },
+        auditContext(req),
+        dependencies,
+      );
+      const succeeded = results.filter(({ error }) => !error).length;
+
+      res.status(StatusCodes.MULTI_STATUS).send({
+        atomic,
+        summary: { total: results.length, succeeded, failed: results.length - succeeded },
+        results: results.map(({ error, user, ...result }) => {
+          if (!error) return { ...result, data: user && presentUser(user, req) };
+
+          // the problem describes the item, not the request, so it carries no instance
+          const { instance, ...problem } = toProblemDetails(error, req);
+          return { ...result, error: problem };
+        }),
+      });
+    },
+  );
+
+  router.get(
+    '/export',
+    authorize('user:list'),
+    validateRequest(userExportQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const format = req.query.format as ExportFormat;
+
+      res.attachment(`users.${format}`);
+      res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+      Readable.from(exportUsers(format, dependencies)).on('error', next).pipe(res);
+    },
+  );
+
+  router.post(
+    '/import',
+    authorize('user:create'),
+    // read as bytes, like the idempotency middleware leaves a body it had to read first
+    preserveRequestContext(bodyParser.raw({ type: Object.keys(importMediaTypes), limit: '10mb' })),
+    validateRequest(userImportQuerySchema, 'query'),
+    limitUserCreation(importCost),
+    (req: Request, res: Response, next: NextFunction) => {
+      const format = importFormat(req);
+
+      if (!format) {
+        throw new UnsupportedMediaTypeError('Send users as text/csv or application/x-ndjson');
+      }
+
+      const { dryRun, mapping } = req.query as { dryRun?: boolean; mapping?: Record<string, string> };
+      const report = importUsers(
+        req.body.toString('utf8'),
+        format,
+        { dryRun, mapping },
+        auditContext(req),
+        dependencies,
+      );
+
+      res.send(report);
+    },
+  );
+
+  return router;
+}
+
+export default createUsersRouter();
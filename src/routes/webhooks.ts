@@ -0,0 +1,113 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { createWebhook, WebhookInput } from '../controllers/webhook/create-webhook';
+import { deleteWebhook } from '../controllers/webhook/delete-webhook';
+import { getWebhookById } from '../controllers/webhook/get-webhook-by-id';
+import { DeliveryListQuery, listWebhookDeliveries } from '../controllers/webhook/list-webhook-deliveries';
+import { listWebhooks } from '../controllers/webhook/list-webhooks';
+import { redeliverWebhookDelivery } from '../controllers/webhook/redeliver-webhook-delivery';
+import { updateWebhook } from '../controllers/webhook/update-webhook';
+import { authorize } from '../middleware/auth-middleware';
+import { validateRequest } from '../middleware/validation-middleware';
+import { WebhookRepository, webhookRepository } from '../repositories/webhook';
+import { toPageResponse } from '../utils/pagination';
+import {
+  deadLetterListQuerySchema,
+  deliveryIdSchema,
+  deliveryListQuerySchema,
+  webhookCreateSchema,
+  webhookIdSchema,
+  webhookUpdateSchema,
+} from '../validation/schemas/webhook.schema';
+import { WebhookDispatcher, webhookDispatcher } from '../webhooks';
+
+export function createWebhooksRouter(
+  repository: WebhookRepository = webhookRepository,
+  dispatcher: WebhookDispatcher = webhookDispatcher,
+) {
+  const router = express.Router();
+
+  router.get('/', authorize('webhook:manage'), (req: Request, res: Response, next: NextFunction) => {
+    res.send({ data: listWebhooks(repository) });
+  });
+
+  router.post(
+    '/',
+    authorize('webhook:manage'),
+    validateRequest(webhookCreateSchema, 'body'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const webhook = createWebhook(req.body as WebhookInput, repository);
+
+      res.status(StatusCodes.CREATED).send(webhook);
+    },
+  );
+
+  // deliveries that ran out of retries, across every webhook
+  router.get(
+    '/dead-letters',
+    authorize('webhook:manage'),
+    validateRequest(deadLetterListQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const page = listWebhookDeliveries({ ...(req.query as DeliveryListQuery), status: 'dead' }, repository);
+
+      res.send(toPageResponse(page, `${req.baseUrl}/dead-letters`, req.query));
+    },
+  );
+
+  router.post(
+    '/deliveries/:deliveryId/redeliver',
+    authorize('webhook:manage'),
+    validateRequest(deliveryIdSchema, 'params'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const delivery = redeliverWebhookDelivery(req.params.deliveryId, repository, dispatcher);
+
+      res.status(StatusCodes.ACCEPTED).send(delivery);
+    },
+  );
+
+  router.get(
+    '/:id',
+    authorize('webhook:manage'),
+    validateRequest(webhookIdSchema, 'params'),
+    (req: Request, res: Response, next: NextFunction) => {
+      res.send(getWebhookById(req.params.id, repository));
+    },
+  );
+
+  router.patch(
+    '/:id',
+    authorize('webhook:manage'),
+    validateRequest(webhookIdSchema, 'params'),
+    validateRequest(webhookUpdateSchema, 'body'),
+    (req: Request, res: Response, next: NextFunction) => {
+      res.send(updateWebhook(req.params.id, req.body as Partial<WebhookInput>, repository));
+    },
+  );
+
+  router.delete(
+    '/:id',
+    authorize('webhook:manage'),
+    validateRequest(webhookIdSchema, 'params'),
+    (req: Request, res: Response, next: NextFunction) => {
+      res.send(deleteWebhook(req.params.id, repository));
+    },
+  );
+
+  // the delivery log of one webhook, newest first
+  router.get(
+    '/:id/deliveries',
+    authorize('webhook:manage'),
+    validateRequest(webhookIdSchema, 'params'),
+    validateRequest(deliveryListQuerySchema, 'query'),
+    (req: Request, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const page = listWebhookDeliveries({ ...(req.query as DeliveryListQuery), webhookId: id }, repository);
+
+      res.send(toPageResponse(page, `${req.baseUrl}/${id}/deliveries`, req.query));
+    },
+  );
+
+  return router;
+}
+
+export default createWebhooksRouter();
@@ -0,0 +1,15 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { KeyStore, keyStore } from '../auth';
+
+export function createWellKnownRouter(store: KeyStore = keyStore) {
+  const router = express.Router();
+
+  // lets other services verify our RS256 tokens
+  router.get('/jwks.json', (req: Request, res: Response, next: NextFunction) => {
+    res.send(store.jwks());
+  });
+
+  return router;
+}
+
+export default createWellKnownRouter();
@@ -0,0 +1,8 @@
+import { userRepository } from '../repositories/user';
+import { createUserSearchIndex } from './user-search-index';
+
+export type { SearchField, SearchHit, SearchOptions, UserSearchIndex } from './user-search-index';
+export { createUserSearchIndex };
+
+// built from whatever the store holds at startup; the user controllers keep it current from then on
+export const userSearchIndex = createUserSearchIndex(userRepository.list());
@@ -0,0 +1,199 @@
+import { User } from '../models/users-model';
+
+export type SearchField = 'firstName' | 'lastName' | 'email' | 'phone';
+
+export type SearchOptions = {
+  // allow typos: terms within a small edit distance of a query token still match
+  fuzzy?: boolean;
+};
+
+export type SearchHit = {
+  id: string;
+  score: number;
+  fields: SearchField[];
+};
+
+export interface UserSearchIndex {
+  // adds or replaces a user; soft-deleted users are dropped from the index
+  sync(user: User): void;
+  remove(id: string): void;
+  rebuild(users: User[]): void;
+  search(query: string, options?: SearchOptions): SearchHit[];
+}
+
+const searchFields: SearchField[] = ['firstName', 'lastName', 'email', 'phone'];
+
+const fieldWeights: Record<SearchField, number> = {
+  firstName: 3,
+  lastName: 3,
+  email: 2,
+  phone: 2,
+};
+
+// phone digits are indexed down to this length so "0123" finds "+1-555-555-0123"
+const MIN_PHONE_TERM_LENGTH = 3;
+
+// "Émile O'Brien" => ['emile', 'o', 'brien']
+function words(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// every suffix of the digits, so a prefix lookup behaves like a substring match
+function phoneTerms(phone: string): string[] {
+  const digits = digitsOnly(phone);
+  return Array.from({ length: Math.max(digits.length - MIN_PHONE_TERM_LENGTH + 1, 0) }, (_, start) =>
+    digits.slice(start),
+  );
+}
+
+function fieldTerms(field: SearchField, value: string): string[] {
+  return field === 'phone' ? phoneTerms(value) : words(value);
+}
+
+// a chunk made only of digits and phone punctuation is kept whole: "+1-555 Emma" => ['1555', 'emma']
+function queryTokens(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .flatMap((chunk) => (/^[\d\s()+.-]+$/.test(chunk) && /\d/.test(chunk) ? [digitsOnly(chunk)] : words(chunk)));
+}
+
+// same tolerance as Elasticsearch's AUTO fuzziness; phone digits must match exactly
+function maxEdits(token: string): number {
+  if (/^\d+$/.test(token) || token.length <= 2) return 0;
+  return token.length <= 5 ? 1 : 2;
+}
+
+// Levenshtein distance, giving up as soon as it is certain to exceed `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// 1 for an exact match, less for a prefix, less again for a typo; 0 when the term does not match
+function matchQuality(token: string, term: string, fuzzy: boolean): number {
+  if (term === token) return 1;
+  if (term.startsWith(token)) return 0.5 + (0.4 * token.length) / term.length;
+  if (!fuzzy) return 0;
+
+  const max = maxEdits(token);
+  const distance = max > 0 ? editDistance(token, term, max) : max + 1;
+  return distance <= max ? 0.5 * (1 - distance / token.length) : 0;
+}
+
+/**
+ * In-process inverted index over user names, emails and phone numbers. Every query token has to match
+ * some term (exactly, as a prefix or, when fuzzy, with a typo); a user's score adds up the best match of
+ * each token, weighted by the field it was found in.
+ */
+export function createUserSearchIndex(initialUsers: User[] = []): UserSearchIndex {
+  // term => user id => fields containing the term
+  const postings = new Map<string, Map<string, Set<SearchField>>>();
+  // user id => its terms, so a user can be removed without scanning the whole index
+  const documents = new Map<string, Set<string>>();
+
+  const remove = (id: string) => {
+    documents.get(id)?.forEach((term) => {
+      const users = postings.get(term);
+      users?.delete(id);
+      if (users?.size === 0) postings.delete(term);
+    });
+    documents.delete(id);
+  };
+
+  const sync = (user: User) => {
+    remove(user.id);
+    if (user.deletedAt) return;
+
+    const terms = new Set<string>();
+    for (const field of searchFields) {
+      for (const term of fieldTerms(field, user[field] ?? '')) {
+        if (!postings.has(term)) postings.set(term, new Map());
+
+        const users = postings.get(term)!;
+        if (!users.has(user.id)) users.set(user.id, new Set());
+
+        users.get(user.id)!.add(field);
+        terms.add(term);
+      }
+    }
+    documents.set(user.id, terms);
+  };
+
+  const rebuild = (users: User[]) => {
+    postings.clear();
+    documents.clear();
+    users.forEach(sync);
+  };
+
+  rebuild(initialUsers);
+
+  return {
+    sync,
+    remove,
+    rebuild,
+
+    search(query, { fuzzy = true } = {}) {
+      const tokens = queryTokens(query);
+      let hits: Map<string, { score: number; fields: Set<SearchField> }> | undefined;
+
+      for (const token of tokens) {
+        const tokenHits = new Map<string, { score: number; fields: Set<SearchField> }>();
+
+        postings.forEach((users, term) => {
+          const quality = matchQuality(token, term, fuzzy);
+          if (quality === 0) return;
+
+          users.forEach((fields, id) => {
+            const hit = tokenHits.get(id) ?? { score: 0, fields: new Set<SearchField>() };
+            fields.forEach((field) => {
+              hit.score = Math.max(hit.score, quality * fieldWeights[field]);
+              hit.fields.add(field);
+            });
+            tokenHits.set(id, hit);
+          });
+        });
+
+        // every token has to match, so users missing this one drop out
+        hits = hits
+          ? new Map(
+              [...hits]
+                .filter(([id]) => tokenHits.has(id))
+                .map(([id, hit]) => {
+                  const tokenHit = tokenHits.get(id)!;
+                  return [
+                    id,
+                    { score: hit.score + tokenHit.score, fields: new Set([...hit.fields, ...tokenHit.fields]) },
+                  ];
+                }),
+            )
+          : tokenHits;
+      }
+
+      return [...(hits ?? [])]
+        .map(([id, { score, fields }]) => ({
+          id,
+          score: Math.round(score * 1000) / 1000,
+          fields: searchFields.filter((field) => fields.has(field)),
+        }))
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    },
+  };
+}
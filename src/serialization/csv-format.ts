@@ -0,0 +1,48 @@
+import { formatCsvRow, parseCsvRecords } from '../utils/csv';
+import { Format } from './format';
+
+type Row = Record<string, unknown>;
+
+// nested objects become dotted columns (name.first); arrays stay JSON inside their cell
+function flatten(value: Row, prefix = ''): Row {
+  return Object.entries(value).reduce<Row>((row, [key, field]) => {
+    const column = `${prefix}${key}`;
+
+    if (field !== null && typeof field === 'object' && !Array.isArray(field)) {
+      return { ...row, ...flatten(field as Row, `${column}.`) };
+    }
+
+    return { ...row, [column]: Array.isArray(field) ? JSON.stringify(field) : field };
+  }, {});
+}
+
+// a list response contributes its `data` items, and a single object is one row
+function rowsOf(body: unknown): Row[] {
+  if (Array.isArray(body)) return body;
+
+  const { data } = (body ?? {}) as { data?: unknown };
+  return Array.isArray(data) ? data : [body as Row];
+}
+
+export const csvFormat: Format = {
+  name: 'csv',
+  mediaTypes: ['text/csv'],
+
+  serialize(body) {
+    const rows = rowsOf(body).map((row) => flatten(row ?? {}));
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+    return [columns, ...rows.map((row) => columns.map((column) => row[column]))].map(formatCsvRow).join('');
+  },
+
+  // one record under a header row; empty cells are left out, as if the field had not been sent
+  parse(raw) {
+    const records = parseCsvRecords(raw.toString('utf8'));
+
+    if (records.length !== 1) {
+      throw new Error(`Expected a header and one record, found ${records.length} records`);
+    }
+
+    return Object.fromEntries(Object.entries(records[0]).filter(([, value]) => value !== ''));
+  },
+};
@@ -0,0 +1,13 @@
+export type FormatName = 'json' | 'xml' | 'csv' | 'msgpack' | 'json-patch' | 'merge-patch';
+
+export interface Format {
+  name: FormatName;
+  // the first media type is the one responses are labelled with; the others are accepted as aliases
+  mediaTypes: string[];
+  serialize(body: unknown): string | Buffer;
+  // absent for JSON, which the app parses for every route
+  parse?(raw: Buffer): unknown;
+}
+
+// what JSON.stringify would make of a body: no undefined, dates as strings, toJSON applied
+export const toPlain = (body: unknown): unknown => (body === undefined ? undefined : JSON.parse(JSON.stringify(body)));
@@ -0,0 +1,22 @@
+import { csvFormat } from './csv-format';
+import { Format } from './format';
+import { jsonFormat } from './json-format';
+import { jsonPatchFormat } from './json-patch-format';
+import { mergePatchFormat } from './merge-patch-format';
+import { msgpackFormat } from './msgpack-format';
+import { xmlFormat } from './xml-format';
+
+export type { Format, FormatName } from './format';
+export { toPlain } from './format';
+export { csvFormat, jsonFormat, jsonPatchFormat, mergePatchFormat, msgpackFormat, xmlFormat };
+
+// in order of preference, so clients accepting anything get JSON
+export const formats: Format[] = [jsonFormat, xmlFormat, csvFormat, msgpackFormat];
+
+// accepted as PATCH bodies on top of `formats`, never offered as responses
+export const patchFormats: Format[] = [jsonPatchFormat, mergePatchFormat];
+
+export const mediaTypesOf = (available: Format[]) => available.flatMap((format) => format.mediaTypes);
+
+export const formatFor = (mediaType: string, available: Format[] = formats) =>
+  available.find((format) => format.mediaTypes.includes(mediaType.toLowerCase()));
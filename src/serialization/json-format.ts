@@ -0,0 +1,7 @@
+import { Format } from './format';
+
+export const jsonFormat: Format = {
+  name: 'json',
+  mediaTypes: ['application/json'],
+  serialize: (body) => JSON.stringify(body),
+};
@@ -0,0 +1,9 @@
+import { Format } from './format';
+
+// RFC 6902 documents, only ever sent as PATCH bodies
+export const jsonPatchFormat: Format = {
+  name: 'json-patch',
+  mediaTypes: ['application/json-patch+json'],
+  serialize: (body) => JSON.stringify(body),
+  parse: (raw) => JSON.parse(raw.toString('utf8')),
+};
@@ -0,0 +1,9 @@
+import { Format } from './format';
+
+// RFC 7396 documents, only ever sent as PATCH bodies
+export const mergePatchFormat: Format = {
+  name: 'merge-patch',
+  mediaTypes: ['application/merge-patch+json'],
+  serialize: (body) => JSON.stringify(body),
+  parse: (raw) => JSON.parse(raw.toString('utf8')),
+};
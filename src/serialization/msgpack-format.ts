@@ -0,0 +1,9 @@
+import { decode, encode } from '@msgpack/msgpack';
+import { Format } from './format';
+
+export const msgpackFormat: Format = {
+  name: 'msgpack',
+  mediaTypes: ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'],
+  serialize: (body) => Buffer.from(encode(body, { ignoreUndefined: true })),
+  parse: (raw) => decode(raw),
+};
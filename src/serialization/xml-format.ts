@@ -0,0 +1,30 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { Format } from './format';
+
+const builder = new XMLBuilder({ suppressEmptyNode: true });
+// values stay strings, so a phone number is not read as a number; validation converts the rest
+const parser = new XMLParser({ parseTagValue: false, ignoreDeclaration: true, ignoreAttributes: true });
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * Bodies are wrapped in a <response> element. Arrays repeat their element once per item, so
+ * `{ data: [a, b] }` becomes `<data>…</data><data>…</data>`; a top-level array uses <item>.
+ */
+export const xmlFormat: Format = {
+  name: 'xml',
+  mediaTypes: ['application/xml', 'text/xml'],
+
+  serialize(body) {
+    const content = Array.isArray(body) ? { item: body } : body;
+    return `${XML_DECLARATION}${builder.build({ response: content })}`;
+  },
+
+  // the root element's name is free, <user> reads best; its children are the fields
+  parse(raw) {
+    const document = parser.parse(raw.toString('utf8'), true);
+    const [root] = Object.values(document);
+
+    return root === '' ? {} : root;
+  },
+};
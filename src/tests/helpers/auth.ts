@@ -0,0 +1,15 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { keyStore, Principal, signToken, tokenOptions } from '../../auth';
+
+export const testPrincipal: Principal = { subject: 'test-admin', roles: ['admin'] };
+
+// signed with the app's own key store so the authenticate middleware accepts it
+export function bearerToken(principal: Partial<Principal> = {}) {
+  return `Bearer ${signToken({ ...testPrincipal, ...principal }, keyStore, tokenOptions)}`;
+}
+
+// a supertest agent that sends a valid bearer token with every request
+export function authorizedRequest(app: Express, principal: Partial<Principal> = {}) {
+  return request.agent(app).set('Authorization', bearerToken(principal));
+}
@@ -0,0 +1,36 @@
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+
+export type ReceivedRequest = {
+  headers: IncomingHttpHeaders;
+  body: string;
+};
+
+export type WebhookReceiver = {
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+};
+
+// a local HTTP endpoint for webhook deliveries; `respond` picks the status code for the nth request
+export async function startWebhookReceiver(respond: (index: number) => number = () => 204): Promise<WebhookReceiver> {
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(respond(requests.length - 1)).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -1,19 +1,32 @@
 import cookieParser from 'cookie-parser';
 import express, { NextFunction, Request, Response } from 'express';
 import createError from 'http-errors';
-import logger from 'morgan';
 import path from 'path';
+import { config } from '../../config';
+import { preserveRequestContext } from '../../logging';
+import { errorHandler } from '../../middleware/error-handler';
+import { recordRawBody } from '../../middleware/idempotency-middleware';
+import { logger } from '../../middleware/logger';
+import { collectHttpMetrics } from '../../middleware/metrics-middleware';
+import { requestId } from '../../middleware/request-id-middleware';
 import indexRouter from '../../routes/index';
 
 const app = express();
 
+app.set('env', config.env);
+// req.ip, and so rate limiting by IP, reads X-Forwarded-For from the proxies trusted here
+app.set('trust proxy', config.trustProxy);
+
 // view engine setup
 app.set('views', path.join(__dirname, 'views'));
 app.set('view engine', 'jade');
 
-app.use(logger('dev'));
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+app.use(requestId());
+app.use(logger);
+app.use(collectHttpMetrics());
+// large enough for a full batch of POST /users/bulk operations
+app.use(preserveRequestContext(express.json({ limit: '1mb', verify: recordRawBody })));
+app.use(preserveRequestContext(express.urlencoded({ extended: false, verify: recordRawBody })));
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, 'public')));
 
@@ -25,15 +38,6 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 });
 
 // error handler
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  // set locals, only providing error in development
-  res.locals.message = err.message;
-  res.locals.error = req.app.get('env') === 'development' ? err : {};
-
-  // render the error page
-  res.status(err.status || 500);
-  res.render('error');
-});
+app.use(errorHandler);
 
 export default app;
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { findClient } from '../../../../auth/clients';
+
+describe('clients', () => {
+  const clients = [{ clientId: 'admin-app', clientSecret: 's3cret', subject: 'admin', roles: ['admin'] }];
+
+  it('should find a client with matching credentials', () => {
+    expect(findClient(clients, 'admin-app', 's3cret')).toEqual(clients[0]);
+  });
+
+  it('should not find a client with a wrong secret or id', () => {
+    expect(findClient(clients, 'admin-app', 'wrong')).toBeUndefined();
+    expect(findClient(clients, 'admin-app', 's3cret-but-longer')).toBeUndefined();
+    expect(findClient(clients, 'other-app', 's3cret')).toBeUndefined();
+  });
+});
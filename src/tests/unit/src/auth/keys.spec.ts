@@ -0,0 +1,89 @@
+import { generateKeyPairSync } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { createKeyStore, loadKeyStore } from '../../../../auth/keys';
+
+describe('keys', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  describe('createKeyStore', () => {
+    it('should use the first key able to sign as the active key', () => {
+      const store = createKeyStore([
+        { kid: 'retired', alg: 'RS256', publicKey },
+        { kid: 'current', alg: 'HS256', secret: 'shh' },
+        { kid: 'next', alg: 'RS256', privateKey },
+      ]);
+
+      expect(store.activeKey.kid).toBe('current');
+      expect(store.find('retired')?.signingKey).toBeUndefined();
+      expect(store.find('missing')).toBeUndefined();
+    });
+
+    it('should derive the public key from an RS256 private key', () => {
+      const store = createKeyStore([{ kid: 'rsa', alg: 'RS256', privateKey }]);
+
+      expect(store.activeKey.verificationKey).toBeDefined();
+      expect(store.jwks().keys).toHaveLength(1);
+    });
+
+    it('should only publish RS256 public keys in the JWKS', () => {
+      const store = createKeyStore([
+        { kid: 'hmac', alg: 'HS256', secret: 'shh' },
+        { kid: 'rsa', alg: 'RS256', privateKey, publicKey },
+      ]);
+
+      const { keys } = store.jwks();
+
+      expect(keys).toEqual([expect.objectContaining({ kty: 'RSA', kid: 'rsa', alg: 'RS256', use: 'sig' })]);
+      expect(keys[0]).not.toHaveProperty('d');
+      expect(JSON.stringify(keys)).not.toContain('shh');
+    });
+
+    it('should reject a store without a signing key', () => {
+      expect(() => createKeyStore([])).toThrowError('At least one signing key must be configured');
+      expect(() => createKeyStore([{ kid: 'old', alg: 'RS256', publicKey }])).toThrowError(
+        'At least one signing key must be configured',
+      );
+    });
+
+    it('should reject RS256 keys without key material', () => {
+      expect(() => createKeyStore([{ kid: 'empty', alg: 'RS256' }])).toThrowError(
+        'RS256 key "empty" needs a private or public key',
+      );
+    });
+
+    it('should reject duplicate key ids', () => {
+      expect(() =>
+        createKeyStore([
+          { kid: 'same', alg: 'HS256', secret: 'a' },
+          { kid: 'same', alg: 'HS256', secret: 'b' },
+        ]),
+      ).toThrowError('Signing key ids must be unique');
+    });
+  });
+
+  describe('loadKeyStore', () => {
+    it('should prefer configured key definitions', () => {
+      const store = loadKeyStore({ keys: [{ kid: 'k1', alg: 'HS256', secret: 'shh' }], secret: 'other' });
+
+      expect(store.activeKey).toMatchObject({ kid: 'k1', alg: 'HS256' });
+    });
+
+    it('should fall back to a single secret', () => {
+      const store = loadKeyStore({ secret: 'shh' });
+
+      expect(store.activeKey).toMatchObject({ kid: 'default', alg: 'HS256', signingKey: 'shh' });
+    });
+
+    it('should generate a random HS256 key when nothing is configured', () => {
+      const first = loadKeyStore({});
+      const second = loadKeyStore({});
+
+      expect(first.activeKey.alg).toBe('HS256');
+      expect(first.activeKey.signingKey).not.toEqual(second.activeKey.signingKey);
+    });
+  });
+});
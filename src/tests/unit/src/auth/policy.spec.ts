@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowed, Policy } from '../../../../auth/policy';
+
+describe('policy', () => {
+  const admin = { subject: 'admin-1', roles: ['admin'] };
+  const manager = { subject: 'manager-1', roles: ['manager'] };
+  const self = { subject: 'user-1', roles: ['self'] };
+
+  it('should allow admins every user permission', () => {
+    (['user:list', 'user:read', 'user:create', 'user:update', 'user:delete'] as const).forEach((permission) => {
+      expect(isAllowed(admin, permission, 'user-2')).toBe(true);
+    });
+  });
+
+  it('should allow managers everything except delete', () => {
+    expect(isAllowed(manager, 'user:list')).toBe(true);
+    expect(isAllowed(manager, 'user:create')).toBe(true);
+    expect(isAllowed(manager, 'user:update', 'user-2')).toBe(true);
+    expect(isAllowed(manager, 'user:delete', 'user-2')).toBe(false);
+  });
+
+  it('should only allow self to read and update their own record', () => {
+    expect(isAllowed(self, 'user:read', 'user-1')).toBe(true);
+    expect(isAllowed(self, 'user:update', 'user-1')).toBe(true);
+    expect(isAllowed(self, 'user:update', 'user-2')).toBe(false);
+    expect(isAllowed(self, 'user:update')).toBe(false);
+    expect(isAllowed(self, 'user:delete', 'user-1')).toBe(false);
+    expect(isAllowed(self, 'user:list')).toBe(false);
+  });
+
+  it('should deny principals without a known role', () => {
+    expect(isAllowed({ subject: 'x', roles: [] }, 'user:read', 'x')).toBe(false);
+    expect(isAllowed({ subject: 'x', roles: ['guest'] }, 'user:read', 'x')).toBe(false);
+  });
+
+  it('should combine the grants of multiple roles', () => {
+    expect(isAllowed({ subject: 'user-1', roles: ['self', 'manager'] }, 'user:update', 'user-2')).toBe(true);
+  });
+
+  it('should accept a custom policy', () => {
+    const policy = { ...({} as Policy), 'user:delete': { self: 'own' } } as Policy;
+
+    expect(isAllowed(self, 'user:delete', 'user-1', policy)).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createKeyStore } from '../../../../auth/keys';
+import { signToken, verifyToken } from '../../../../auth/tokens';
+import { UnauthorizedError } from '../../../../errors';
+
+describe('tokens', () => {
+  const { privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  const options = { issuer: 'test-issuer', audience: 'test-audience', expiresIn: 60 };
+  const principal = { subject: 'user-1', roles: ['admin'], clientId: 'client-1' };
+  const hmacStore = createKeyStore([{ kid: 'hmac', alg: 'HS256', secret: 'shh' }]);
+  const rsaStore = createKeyStore([{ kid: 'rsa', alg: 'RS256', privateKey }]);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['HS256', hmacStore],
+    ['RS256', rsaStore],
+  ])('should sign and verify %s tokens', (alg, store) => {
+    const token = signToken(principal, store, options);
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg, kid: store.activeKey.kid });
+    expect(verifyToken(token, store, options)).toEqual(principal);
+  });
+
+  it('should set the registered claims', () => {
+    const token = signToken(principal, hmacStore, options);
+
+    expect(jwt.decode(token)).toMatchObject({
+      sub: 'user-1',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      roles: ['admin'],
+      client_id: 'client-1',
+    });
+  });
+
+  it('should verify tokens signed with a rotated-out key', () => {
+    const token = signToken(principal, hmacStore, options);
+    const rotated = createKeyStore([
+      { kid: 'rsa', alg: 'RS256', privateKey },
+      { kid: 'hmac', alg: 'HS256', secret: 'shh' },
+    ]);
+
+    expect(verifyToken(token, rotated, options)).toEqual(principal);
+  });
+
+  it('should reject expired tokens', () => {
+    vi.useFakeTimers();
+    const token = signToken(principal, hmacStore, options);
+    vi.advanceTimersByTime(61_000);
+
+    expect(() => verifyToken(token, hmacStore, options)).toThrowError('Token has expired');
+  });
+
+  it('should reject tokens for another issuer or audience', () => {
+    const token = signToken(principal, hmacStore, options);
+
+    expect(() => verifyToken(token, hmacStore, { ...options, issuer: 'other' })).toThrowError(/jwt issuer invalid/);
+    expect(() => verifyToken(token, hmacStore, { ...options, audience: 'other' })).toThrowError(/jwt audience invalid/);
+  });
+
+  it('should reject tokens with a bad signature', () => {
+    const token = signToken(principal, hmacStore, options);
+    const forged = createKeyStore([{ kid: 'hmac', alg: 'HS256', secret: 'guess' }]);
+
+    expect(() => verifyToken(token, forged, options)).toThrowError('Invalid token: invalid signature');
+  });
+
+  it('should reject tokens with an unknown kid', () => {
+    const token = signToken(principal, hmacStore, options);
+
+    expect(() => verifyToken(token, rsaStore, options)).toThrowError('Invalid token: unknown signing key');
+  });
+
+  it('should reject tokens that switch the algorithm of a known key', () => {
+    const token = jwt.sign({ roles: [] }, 'not-the-key', {
+      algorithm: 'HS256',
+      keyid: 'rsa',
+      subject: 'attacker',
+      issuer: options.issuer,
+      audience: options.audience,
+    });
+
+    expect(() => verifyToken(token, rsaStore, options)).toThrowError(UnauthorizedError);
+  });
+
+  it('should reject malformed tokens and tokens without a subject', () => {
+    const withoutSubject = jwt.sign({}, 'shh', {
+      algorithm: 'HS256',
+      keyid: 'hmac',
+      issuer: options.issuer,
+      audience: options.audience,
+    });
+
+    expect(() => verifyToken('not-a-jwt', hmacStore, options)).toThrowError('Invalid token: jwt malformed');
+    expect(() => verifyToken(withoutSubject, hmacStore, options)).toThrowError('Invalid token: missing subject');
+  });
+});
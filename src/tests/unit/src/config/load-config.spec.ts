@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../../../../config';
+
+describe('loadConfig', () => {
+  let cwd: string;
+
+  const writeEnvFile = (name: string, content: string) => fs.writeFileSync(path.join(cwd, name), content);
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should apply defaults', () => {
+    const config = loadConfig({ env: {}, cwd });
+
+    expect(config).toMatchObject({
+      env: 'development',
+      port: 3000,
+      logging: { level: 'debug', redact: ['email', 'phone', 'q', 'authorization', 'client_secret', 'secret'] },
+      storage: { userStore: 'memory', sqliteFilename: 'users.sqlite' },
+      auth: { token: { issuer: 'api-demo-node', audience: 'api-demo-node', expiresIn: 900 }, clients: [] },
+      requireIfMatch: false,
+      trustProxy: false,
+      rateLimit: { windowMs: 60_000, createUser: 30, issueToken: 10 },
+    });
+    expect(config.auth).not.toHaveProperty('secret');
+  });
+
+  it('should convert and map environment variables', () => {
+    const clients = [{ clientId: 'app', clientSecret: 's3cret', subject: 'app', roles: ['admin'] }];
+
+    const config = loadConfig({
+      env: {
+        API_PORT: '8080',
+        LOG_REDACT: 'email, token',
+        USER_STORE: 'sqlite',
+        JWT_KEYS: JSON.stringify([{ kid: 'k1', alg: 'HS256', secret: 'shh' }]),
+        JWT_EXPIRES_IN: '30',
+        AUTH_CLIENTS: JSON.stringify(clients),
+        REQUIRE_IF_MATCH: 'true',
+        WEBHOOK_MAX_ATTEMPTS: '2',
+        TRUST_PROXY: '1',
+      },
+      cwd,
+    });
+
+    expect(config).toMatchObject({
+      port: 8080,
+      logging: { redact: ['email', 'token'] },
+      storage: { userStore: 'sqlite' },
+      auth: { keys: [{ kid: 'k1', alg: 'HS256', secret: 'shh' }], token: { expiresIn: 30 }, clients },
+      requireIfMatch: true,
+      trustProxy: 1,
+      webhooks: { maxAttempts: 2 },
+    });
+  });
+
+  it('should pass trusted proxy addresses through as they are', () => {
+    expect(loadConfig({ env: { TRUST_PROXY: 'true' }, cwd }).trustProxy).toBe(true);
+    expect(loadConfig({ env: { TRUST_PROXY: 'loopback, 10.0.0.0/8' }, cwd }).trustProxy).toBe('loopback, 10.0.0.0/8');
+  });
+
+  it('should use per-environment defaults', () => {
+    expect(loadConfig({ env: { NODE_ENV: 'test' }, cwd }).logging.level).toBe('silent');
+    expect(loadConfig({ env: { NODE_ENV: 'production', JWT_SECRET: 'shh' }, cwd }).logging.level).toBe('info');
+    expect(
+      loadConfig({ env: { NODE_ENV: 'production', LOG_LEVEL: 'warn', JWT_SECRET: 'shh' }, cwd }).logging.level,
+    ).toBe('warn');
+  });
+
+  it('should read .env files with environment variables taking precedence', () => {
+    writeEnvFile('.env', 'PORT=4000\nJWT_ISSUER=from-env-file\nLOG_LEVEL=error\n');
+    writeEnvFile('.env.development', 'JWT_ISSUER=from-development-file\n');
+
+    const config = loadConfig({ env: { LOG_LEVEL: 'warn' }, cwd });
+
+    expect(config.port).toBe(4000);
+    expect(config.auth.token.issuer).toBe('from-development-file');
+    expect(config.logging.level).toBe('warn');
+  });
+
+  it('should only read .env.test in tests', () => {
+    writeEnvFile('.env', 'PORT=4000\n');
+    writeEnvFile('.env.test', 'JWT_AUDIENCE=tests\n');
+
+    const config = loadConfig({ env: { NODE_ENV: 'test' }, cwd });
+
+    expect(config.port).toBe(3000);
+    expect(config.auth.token.audience).toBe('tests');
+  });
+
+  it('should treat empty values as unset', () => {
+    expect(loadConfig({ env: { PORT: '', USER_STORE: '' }, cwd })).toMatchObject({
+      port: 3000,
+      storage: { userStore: 'memory' },
+    });
+  });
+
+  it('should accept the path of a socket or named pipe as PORT', () => {
+    expect(loadConfig({ env: { PORT: '/run/api.sock' }, cwd }).port).toBe('/run/api.sock');
+    expect(loadConfig({ env: { API_PORT: '\\\\.\\pipe\\api' }, cwd }).port).toBe('\\\\.\\pipe\\api');
+  });
+
+  it('should report every invalid variable at once', () => {
+    const load = () =>
+      loadConfig({
+        env: { PORT: 'eighty', USER_STORE: 'postgres', AUTH_CLIENTS: '[{', RATE_LIMIT_CREATE_USER: '0' },
+        cwd,
+      });
+
+    expect(load).toThrowError(ConfigError);
+    expect(load).toThrowError(
+      [
+        'Invalid configuration:',
+        '  - PORT: "PORT" must be a port number or the path of a socket or named pipe',
+        '  - USER_STORE: "USER_STORE" must be one of [memory, sqlite]',
+        '  - AUTH_CLIENTS: "AUTH_CLIENTS" must be a JSON array',
+        '  - RATE_LIMIT_CREATE_USER: "RATE_LIMIT_CREATE_USER" must be greater than or equal to 1',
+      ].join('\n'),
+    );
+  });
+
+  it('should validate signing keys and clients', () => {
+    const load = () =>
+      loadConfig({
+        env: {
+          JWT_KEYS: JSON.stringify([{ kid: 'k1', alg: 'HS512', secret: 'shh' }]),
+          AUTH_CLIENTS: JSON.stringify([{ clientId: 'app' }]),
+        },
+        cwd,
+      });
+
+    expect(load).toThrowError(/JWT_KEYS\.0\.alg: "JWT_KEYS\[0\]\.alg" must be one of \[HS256, RS256\]/);
+    expect(load).toThrowError(/AUTH_CLIENTS\.0\.clientSecret: "AUTH_CLIENTS\[0\]\.clientSecret" is required/);
+  });
+
+  it('should require a signing key in production', () => {
+    expect(() => loadConfig({ env: { NODE_ENV: 'production' }, cwd })).toThrowError(
+      'JWT_SECRET: JWT_SECRET or JWT_KEYS is required in production',
+    );
+    expect(() =>
+      loadConfig({ env: { NODE_ENV: 'production', JWT_KEYS: '[{"kid":"k1","alg":"HS256","secret":"shh"}]' }, cwd }),
+    ).not.toThrow();
+  });
+
+  it('should return a frozen config', () => {
+    const config = loadConfig({ env: {}, cwd });
+
+    expect(Object.isFrozen(config)).toBe(true);
+    expect(Object.isFrozen(config.auth.token)).toBe(true);
+    expect(Object.isFrozen(config.logging.redact)).toBe(true);
+  });
+});
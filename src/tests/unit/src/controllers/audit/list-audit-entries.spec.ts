@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { listAuditEntries } from '../../../../../controllers/audit/list-audit-entries';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { AuditRepository, createInMemoryAuditRepository } from '../../../../../repositories/audit';
+
+describe('listAuditEntries', () => {
+  let repository: AuditRepository;
+
+  const append = (userId: string, actor: string, action: AuditEntry['action']) =>
+    repository.append({ userId, actor, action, timestamp: '2024-01-01T00:00:00.000Z', changes: {} });
+
+  beforeEach(() => {
+    repository = createInMemoryAuditRepository([]);
+    append('user-1', 'alice', 'create');
+    append('user-1', 'bob', 'update');
+    append('user-2', 'alice', 'delete');
+  });
+
+  it('should list entries newest first', () => {
+    const page = listAuditEntries({}, repository);
+
+    expect(page.items.map(({ id }) => id)).toEqual([3, 2, 1]);
+    expect(page.total).toBe(3);
+  });
+
+  it('should filter by actor, action and user', () => {
+    expect(listAuditEntries({ actor: 'alice' }, repository).items.map(({ id }) => id)).toEqual([3, 1]);
+    expect(listAuditEntries({ action: 'update' }, repository).items.map(({ id }) => id)).toEqual([2]);
+    expect(listAuditEntries({ userId: 'user-1', actor: 'alice' }, repository).items.map(({ id }) => id)).toEqual([1]);
+  });
+
+  it('should paginate by offset and limit', () => {
+    const page = listAuditEntries({ limit: 2, offset: 2 }, repository);
+
+    expect(page.items.map(({ id }) => id)).toEqual([1]);
+    expect(page.limit).toBe(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { diffUsers, recordAudit } from '../../../../../controllers/audit/record-audit';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { User } from '../../../../../models/users-model';
+import { createInMemoryAuditRepository } from '../../../../../repositories/audit';
+
+describe('recordAudit', () => {
+  const john: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  describe('diffUsers', () => {
+    it('should list only the fields that changed, ignoring updatedAt', () => {
+      const after = { ...john, firstName: 'Johnny', updatedAt: '2024-02-01T00:00:00.000Z' };
+
+      expect(diffUsers(john, after)).toEqual({ firstName: { before: 'John', after: 'Johnny' } });
+    });
+
+    it('should record added and removed fields against null', () => {
+      const deleted = { ...john, deletedAt: '2024-02-01T00:00:00.000Z' };
+
+      expect(diffUsers(john, deleted)).toEqual({ deletedAt: { before: null, after: '2024-02-01T00:00:00.000Z' } });
+      expect(diffUsers(deleted, john)).toEqual({ deletedAt: { before: '2024-02-01T00:00:00.000Z', after: null } });
+    });
+
+    it('should diff every field on creation', () => {
+      expect(diffUsers(undefined, john)).toMatchObject({
+        id: { before: null, after: '1' },
+        firstName: { before: null, after: 'John' },
+      });
+    });
+  });
+
+  it('should append an entry with actor, action, timestamp and request id', () => {
+    const store: AuditEntry[] = [];
+
+    const entry = recordAudit(
+      'update',
+      john,
+      { ...john, email: 'johnny@example.com' },
+      { actor: 'admin', requestId: 'req-1' },
+      createInMemoryAuditRepository(store),
+    );
+
+    expect(entry).toEqual({
+      id: 1,
+      userId: '1',
+      actor: 'admin',
+      action: 'update',
+      timestamp: expect.any(String),
+      changes: { email: { before: 'john.doe@example.com', after: 'johnny@example.com' } },
+      requestId: 'req-1',
+    });
+    expect(store).toEqual([entry]);
+  });
+
+  it('should take the user id from the removed user on purge', () => {
+    const entry = recordAudit('purge', john, undefined, { actor: 'admin' }, createInMemoryAuditRepository([]));
+
+    expect(entry.userId).toBe('1');
+    expect(entry).not.toHaveProperty('requestId');
+    expect(entry.changes.firstName).toEqual({ before: 'John', after: null });
+  });
+});
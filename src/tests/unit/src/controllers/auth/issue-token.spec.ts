@@ -0,0 +1,36 @@
+import jwt from 'jsonwebtoken';
+import { describe, expect, it } from 'vitest';
+import { createKeyStore } from '../../../../../auth/keys';
+import { verifyToken } from '../../../../../auth/tokens';
+import { issueToken } from '../../../../../controllers/auth/issue-token';
+import { UnauthorizedError } from '../../../../../errors';
+
+describe('issueToken', () => {
+  const issuer = {
+    clients: [{ clientId: 'admin-app', clientSecret: 's3cret', subject: 'admin', roles: ['admin'] }],
+    keyStore: createKeyStore([{ kid: 'k1', alg: 'HS256', secret: 'shh' }]),
+    tokenOptions: { issuer: 'test', audience: 'test', expiresIn: 120 },
+  };
+
+  it('should issue a bearer token for valid client credentials', () => {
+    const result = issueToken('admin-app', 's3cret', issuer);
+
+    expect(result).toEqual({ access_token: expect.any(String), token_type: 'Bearer', expires_in: 120 });
+    expect(verifyToken(result.access_token, issuer.keyStore, issuer.tokenOptions)).toEqual({
+      subject: 'admin',
+      roles: ['admin'],
+      clientId: 'admin-app',
+    });
+  });
+
+  it('should sign with the active key id', () => {
+    const { access_token } = issueToken('admin-app', 's3cret', issuer);
+
+    expect(jwt.decode(access_token, { complete: true })?.header.kid).toBe('k1');
+  });
+
+  it('should throw an UnauthorizedError for invalid credentials', () => {
+    expect(() => issueToken('admin-app', 'nope', issuer)).toThrowError(UnauthorizedError);
+    expect(() => issueToken('admin-app', 'nope', issuer)).toThrowError('Invalid client credentials');
+  });
+});
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BulkOperation, bulkWriteUsers } from '../../../../../controllers/user/bulk-write-users';
+import { FailedDependencyError, ForbiddenError, NotFoundError, ValidationFailedError } from '../../../../../errors';
+import { createUserEventBus, UserEvent, UserEventBus } from '../../../../../events';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { User } from '../../../../../models/users-model';
+import { AuditRepository, createInMemoryAuditRepository } from '../../../../../repositories/audit';
+import { createInMemoryUserRepository, UserRepository } from '../../../../../repositories/user';
+import { createUserSearchIndex, UserSearchIndex } from '../../../../../search';
+
+describe('bulkWriteUsers', () => {
+  const john: User = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const missingId = '999e4567-e89b-12d3-a456-426614174999';
+
+  let store: User[];
+  let auditStore: AuditEntry[];
+  let repository: UserRepository;
+  let audit: AuditRepository;
+  let search: UserSearchIndex;
+  let events: UserEventBus;
+  let published: UserEvent[];
+
+  const run = (operations: BulkOperation[], options = {}) =>
+    bulkWriteUsers(operations, options, { actor: 'admin' }, { repository, audit, search, events });
+
+  beforeEach(() => {
+    store = [{ ...john }];
+    auditStore = [];
+    repository = createInMemoryUserRepository(store);
+    audit = createInMemoryAuditRepository(auditStore);
+    search = createUserSearchIndex(store);
+    events = createUserEventBus();
+    published = [];
+    events.subscribe((event) => published.push(event));
+  });
+
+  it('should apply create, update and delete operations in order', () => {
+    const results = run([
+      { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+      { op: 'update', id: john.id, data: { firstName: 'Johnny' } },
+      { op: 'delete', id: john.id },
+    ]);
+
+    expect(results.map(({ op, status }) => [op, status])).toEqual([
+      ['create', 201],
+      ['update', 200],
+      ['delete', 200],
+    ]);
+    expect(results[0].user).toMatchObject({ firstName: 'Alice', id: expect.any(String) });
+    expect(store).toHaveLength(2);
+    expect(store[0]).toMatchObject({ firstName: 'Johnny', deletedAt: expect.any(String) });
+    expect(auditStore.map(({ action }) => action)).toEqual(['create', 'update', 'delete']);
+  });
+
+  it('should report failed items and carry on with the rest', () => {
+    const results = run([
+      { op: 'create', data: { firstName: 'Alice' } },
+      { op: 'update', id: missingId, data: { firstName: 'Ghost' } },
+      { op: 'create', data: { firstName: 'Bob', lastName: 'Wilson' } },
+    ]);
+
+    expect(results[0]).toMatchObject({ status: 400, error: expect.any(ValidationFailedError) });
+    expect(results[0].error?.extensions.details).toEqual([expect.objectContaining({ path: 'lastName' })]);
+    expect(results[1]).toMatchObject({ status: 404, id: missingId, error: expect.any(NotFoundError) });
+    expect(results[2]).toMatchObject({ status: 201, user: expect.objectContaining({ firstName: 'Bob' }) });
+    expect(store).toHaveLength(2);
+  });
+
+  it('should undo every applied operation in atomic mode when one fails', () => {
+    const results = run(
+      [
+        { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+        { op: 'update', id: john.id, data: { firstName: 'Johnny' } },
+        { op: 'delete', id: missingId },
+        { op: 'create', data: { firstName: 'Bob', lastName: 'Wilson' } },
+      ],
+      { atomic: true },
+    );
+
+    expect(results.map(({ status }) => status)).toEqual([424, 424, 404, 424]);
+    expect(results[0].error).toBeInstanceOf(FailedDependencyError);
+    expect(results[0].error?.message).toBe('Not applied because operation 2 failed');
+    expect(store).toEqual([john]);
+    expect(auditStore).toEqual([]);
+    expect(published).toEqual([]);
+  });
+
+  it('should undo an atomic batch before passing on an unexpected error', () => {
+    const failure = new Error('disk full');
+    const { update } = repository;
+    // the soft delete of the last operation fails, the updates that undo the others do not
+    repository = {
+      ...repository,
+      update: (id, user) => {
+        if (user.deletedAt) throw failure;
+        return update(id, user);
+      },
+    };
+
+    expect(() =>
+      run(
+        [
+          { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+          { op: 'update', id: john.id, data: { firstName: 'Johnny' } },
+          { op: 'delete', id: john.id },
+        ],
+        { atomic: true },
+      ),
+    ).toThrow(failure);
+    expect(store).toEqual([john]);
+    expect(auditStore).toEqual([]);
+    expect(published).toEqual([]);
+  });
+
+  it('should keep the search index in step with an atomic rollback', () => {
+    run(
+      [
+        { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+        { op: 'update', id: john.id, data: { firstName: 'Johnny' } },
+        { op: 'delete', id: missingId },
+      ],
+      { atomic: true },
+    );
+
+    expect(search.search('alice')).toEqual([]);
+    expect(search.search('john', { fuzzy: false }).map(({ id }) => id)).toEqual([john.id]);
+    expect(search.search('johnny', { fuzzy: false })).toEqual([]);
+  });
+
+  it('should audit and publish atomic batches once they succeed', () => {
+    run(
+      [
+        { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+        { op: 'delete', id: john.id },
+      ],
+      { atomic: true },
+    );
+
+    expect(auditStore.map(({ id, action }) => [id, action])).toEqual([
+      [1, 'create'],
+      [2, 'delete'],
+    ]);
+    expect(published.map(({ type }) => type)).toEqual(['user.created', 'user.deleted']);
+  });
+
+  it("should check each operation against the principal's permissions", () => {
+    const results = run(
+      [
+        { op: 'update', id: john.id, data: { firstName: 'Johnny' } },
+        { op: 'delete', id: john.id },
+      ],
+      { principal: { subject: 'manager', roles: ['manager'] } },
+    );
+
+    expect(results[0].status).toBe(200);
+    expect(results[1]).toMatchObject({ status: 403, error: expect.any(ForbiddenError) });
+    expect(store[0].deletedAt).toBeUndefined();
+  });
+});
@@ -61,7 +61,8 @@ describe('createNewUser', () => {
 
     createNewUser(inputUser as User);
 
-    expect(randomUUID).toHaveBeenCalledOnce();
+    // once for the user, once for its user.created event
+    expect(randomUUID).toHaveBeenCalledTimes(2);
   });
 
   it('should set createdAt and updatedAt to current timestamp', () => {
@@ -47,26 +47,13 @@ describe('deleteUser', () => {
     users.length = 0;
   });
 
-  it('should delete an existing user and return the deleted user', () => {
-    const userToDelete = testUsers[1]; // Jane Smith
-    const initialLength = users.length;
-
+  it('should mark an existing user as deleted and return it', () => {
     const result = deleteUser('2');
 
-    expect(result).toEqual(userToDelete);
-    expect(users).toHaveLength(initialLength - 1);
-    expect(users.find((user) => user.id === '2')).toBeUndefined();
-  });
-
-  it('should remove the correct user from the users array', () => {
-    const userToDelete = testUsers[0]; // John Doe
-    const remainingUsers = testUsers.slice(1);
-
-    deleteUser('1');
-
-    expect(users).toHaveLength(2);
-    expect(users).toEqual(remainingUsers);
-    expect(users.find((user) => user.id === '1')).toBeUndefined();
+    expect(result).toEqual({ ...testUsers[1], deletedAt: expect.any(String) });
+    expect(new Date(result.deletedAt!).toISOString()).toBe(result.deletedAt);
+    expect(users).toHaveLength(3);
+    expect(users[1]).toEqual(result);
   });
 
   it('should throw an error when user is not found', () => {
@@ -79,50 +66,17 @@ describe('deleteUser', () => {
     expect(() => deleteUser('1')).toThrowError('User not found');
   });
 
-  it('should handle deleting the first user in the array', () => {
-    const firstUser = testUsers[0];
-    const remainingUsers = testUsers.slice(1);
-
-    const result = deleteUser('1');
-
-    expect(result).toEqual(firstUser);
-    expect(users).toEqual(remainingUsers);
-  });
-
-  it('should handle deleting the last user in the array', () => {
-    const lastUser = testUsers[2];
-    const remainingUsers = testUsers.slice(0, 2);
-
-    const result = deleteUser('3');
-
-    expect(result).toEqual(lastUser);
-    expect(users).toEqual(remainingUsers);
-  });
-
-  it('should handle deleting when only one user exists', () => {
-    // Keep only one user
-    const singleUser = testUsers[0];
-    users.length = 0;
-    users.push(singleUser);
-
-    const result = deleteUser('1');
+  it('should throw an error when the user is already deleted', () => {
+    deleteUser('1');
 
-    expect(result).toEqual(singleUser);
-    expect(users).toHaveLength(0);
+    expect(() => deleteUser('1')).toThrowError('User not found');
   });
 
   it('should not affect other users when deleting a specific user', () => {
-    const userToDelete = testUsers[1]; // Jane Smith
-    const unaffectedUsers = [testUsers[0], testUsers[2]]; // John and Bob
-
     deleteUser('2');
 
-    expect(users).toHaveLength(2);
-    expect(users).toEqual(unaffectedUsers);
-
-    // Verify the remaining users are intact
     expect(users[0]).toEqual(testUsers[0]);
-    expect(users[1]).toEqual(testUsers[2]);
+    expect(users[2]).toEqual(testUsers[2]);
   });
 
   it('should throw error for empty string ID', () => {
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { exportUsers } from '../../../../../controllers/user/export-users';
+import { User } from '../../../../../models/users-model';
+import { createInMemoryUserRepository } from '../../../../../repositories/user';
+
+describe('exportUsers', () => {
+  const john: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe, Jr.',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const deleted: User = { ...john, id: '2', deletedAt: '2024-02-01T00:00:00.000Z' };
+  const repository = createInMemoryUserRepository([john, deleted]);
+
+  it('should yield a CSV header followed by one line per active user', () => {
+    expect([...exportUsers('csv', { repository })]).toEqual([
+      'id,firstName,lastName,email,phone,createdAt,updatedAt\r\n',
+      '1,John,"Doe, Jr.",john.doe@example.com,+1-555-123-4567,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z\r\n',
+    ]);
+  });
+
+  it('should yield one JSON object per line for NDJSON', () => {
+    const lines = [...exportUsers('ndjson', { repository })];
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].endsWith('\n')).toBe(true);
+    expect(JSON.parse(lines[0])).toEqual(john);
+  });
+});
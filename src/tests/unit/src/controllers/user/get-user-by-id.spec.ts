@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { getUserById } from '../../../../../controllers/user/get-user-by-id';
 import { User, users } from '../../../../../models/users-model';
+import { createInMemoryUserRepository } from '../../../../../repositories/user';
 
 describe('getUserById', () => {
   let testUsers: User[];
@@ -75,6 +76,12 @@ describe('getUserById', () => {
     expect(() => getUserById('nonexistent-id')).toThrowError('User not found');
   });
 
+  it('should throw an error when the user is soft-deleted', () => {
+    users[0] = { ...testUsers[0], deletedAt: '2024-02-01T00:00:00.000Z' };
+
+    expect(() => getUserById('1')).toThrowError('User not found');
+  });
+
   it('should throw an error when searching in empty users array', () => {
     users.length = 0;
 
@@ -158,4 +165,11 @@ describe('getUserById', () => {
     expect(typeof result.createdAt).toBe('string');
     expect(typeof result.updatedAt).toBe('string');
   });
+
+  it('should look up users in an injected repository', () => {
+    const repository = createInMemoryUserRepository([testUsers[0]]);
+
+    expect(getUserById('1', { repository })).toEqual(testUsers[0]);
+    expect(() => getUserById('2', { repository })).toThrowError('User not found');
+  });
 });
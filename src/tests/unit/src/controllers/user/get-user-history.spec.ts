@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getUserHistory } from '../../../../../controllers/user/get-user-history';
+import { NotFoundError } from '../../../../../errors';
+import { User } from '../../../../../models/users-model';
+import { AuditRepository, createInMemoryAuditRepository } from '../../../../../repositories/audit';
+import { createInMemoryUserRepository, UserRepository } from '../../../../../repositories/user';
+
+describe('getUserHistory', () => {
+  const john: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  let audit: AuditRepository;
+  let repository: UserRepository;
+
+  beforeEach(() => {
+    audit = createInMemoryAuditRepository([]);
+    repository = createInMemoryUserRepository([john]);
+  });
+
+  it("should return only the user's entries", () => {
+    audit.append({ userId: '1', actor: 'a', action: 'update', timestamp: '2024-01-02T00:00:00.000Z', changes: {} });
+    audit.append({ userId: '2', actor: 'a', action: 'update', timestamp: '2024-01-02T00:00:00.000Z', changes: {} });
+
+    const page = getUserHistory('1', {}, { audit, repository });
+
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0].userId).toBe('1');
+  });
+
+  it('should return an empty page for an existing user without history', () => {
+    expect(getUserHistory('1', {}, { audit, repository }).items).toEqual([]);
+  });
+
+  it('should keep the history of purged users readable', () => {
+    audit.append({ userId: '2', actor: 'a', action: 'purge', timestamp: '2024-01-02T00:00:00.000Z', changes: {} });
+
+    expect(getUserHistory('2', {}, { audit, repository }).total).toBe(1);
+  });
+
+  it('should throw a NotFoundError for an unknown user without history', () => {
+    expect(() => getUserHistory('2', {}, { audit, repository })).toThrowError(NotFoundError);
+  });
+});
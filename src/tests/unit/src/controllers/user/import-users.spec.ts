@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { importUsers } from '../../../../../controllers/user/import-users';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { User } from '../../../../../models/users-model';
+import { AuditRepository, createInMemoryAuditRepository } from '../../../../../repositories/audit';
+import { createInMemoryUserRepository, UserRepository } from '../../../../../repositories/user';
+
+describe('importUsers', () => {
+  const john: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  let store: User[];
+  let auditStore: AuditEntry[];
+  let repository: UserRepository;
+  let audit: AuditRepository;
+
+  const run = (source: string, format: 'csv' | 'ndjson', options = {}) =>
+    importUsers(source, format, options, { actor: 'hr' }, { repository, audit });
+
+  beforeEach(() => {
+    store = [{ ...john }];
+    auditStore = [];
+    repository = createInMemoryUserRepository(store);
+    audit = createInMemoryAuditRepository(auditStore);
+  });
+
+  it('should create a user per valid CSV row', () => {
+    const report = run('firstName,lastName,email\nAlice,Johnson,alice@example.com\nBob,Wilson,\n', 'csv');
+
+    expect(report.summary).toEqual({ total: 2, created: 2, valid: 0, skipped: 0, failed: 0 });
+    expect(report.rows[0]).toEqual({
+      row: 1,
+      status: 'created',
+      user: expect.objectContaining({ firstName: 'Alice', id: expect.any(String) }),
+    });
+    expect(report.rows[1]).toMatchObject({ status: 'created', user: expect.not.objectContaining({ email: '' }) });
+    expect(store).toHaveLength(3);
+    expect(auditStore.map(({ actor, action }) => [actor, action])).toEqual([
+      ['hr', 'create'],
+      ['hr', 'create'],
+    ]);
+  });
+
+  it('should rename columns with the mapping', () => {
+    const report = run('First Name,Surname\nAlice,Johnson\n', 'csv', {
+      mapping: { 'First Name': 'firstName', Surname: 'lastName' },
+    });
+
+    expect(report.rows[0]).toMatchObject({ status: 'created', user: { firstName: 'Alice', lastName: 'Johnson' } });
+  });
+
+  it('should report rows that fail validation without stopping the import', () => {
+    const report = run(
+      'firstName,lastName,email\nAlice,,alice@example.com\nBob,Wilson,not-an-email\nCy,Young,\n',
+      'csv',
+    );
+
+    expect(report.summary).toMatchObject({ created: 1, failed: 2 });
+    expect(report.rows[0]).toEqual({
+      row: 1,
+      status: 'failed',
+      errors: [{ path: 'lastName', message: expect.any(String) }],
+    });
+    expect(report.rows[1]).toMatchObject({ status: 'failed', errors: [{ path: 'email' }] });
+  });
+
+  it('should skip empty rows and emails that already exist', () => {
+    const report = run(
+      'firstName,lastName,email\n,,\nJohnny,Doe,JOHN.DOE@example.com\nAlice,Johnson,a@example.com\nAl,J,a@example.com\n',
+      'csv',
+    );
+
+    expect(report.rows.map(({ status }) => status)).toEqual(['skipped', 'skipped', 'created', 'skipped']);
+    expect(report.rows[1]).toMatchObject({ reason: 'Email JOHN.DOE@example.com already exists' });
+  });
+
+  it('should validate without writing in dry run mode', () => {
+    const report = run('firstName,lastName\nAlice,Johnson\nBob,\n', 'csv', { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.summary).toEqual({ total: 2, created: 0, valid: 1, skipped: 0, failed: 1 });
+    expect(store).toHaveLength(1);
+    expect(auditStore).toEqual([]);
+  });
+
+  it('should import NDJSON and report lines that are not JSON objects', () => {
+    const report = run('{"firstName":"Alice","lastName":"Johnson"}\n\nnot json\n[1,2]\n', 'ndjson');
+
+    expect(report.rows).toEqual([
+      { row: 1, status: 'created', user: expect.objectContaining({ firstName: 'Alice' }) },
+      { row: 2, status: 'failed', errors: [{ path: '', message: 'Invalid JSON' }] },
+      { row: 3, status: 'failed', errors: [{ path: '', message: 'Expected a JSON object' }] },
+    ]);
+  });
+});
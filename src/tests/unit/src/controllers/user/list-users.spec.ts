@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { listUsers } from '../../../../../controllers/user/list-users';
+import { User, users } from '../../../../../models/users-model';
+import { createInMemoryUserRepository } from '../../../../../repositories/user';
+
+describe('listUsers', () => {
+  let testUsers: User[];
+
+  beforeEach(() => {
+    testUsers = [
+      {
+        id: '1',
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phone: '+1-555-123-4567',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        id: '2',
+        firstName: 'Jane',
+        lastName: 'Smith',
+        email: 'jane.smith@example.com',
+        phone: '+1-555-987-6543',
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      },
+    ];
+
+    users.length = 0;
+    users.push(...testUsers);
+  });
+
+  afterEach(() => {
+    users.length = 0;
+  });
+
+  it('should return every user from the default repository', () => {
+    const result = listUsers();
+
+    expect(result.items).toEqual(testUsers);
+    expect(result.total).toBe(2);
+  });
+
+  it('should return an empty page when there are no users', () => {
+    users.length = 0;
+
+    const result = listUsers();
+
+    expect(result.items).toEqual([]);
+    expect(result.total).toBe(0);
+    expect(result.nextCursor).toBeNull();
+    expect(result.prevCursor).toBeNull();
+  });
+
+  it('should read from an injected repository', () => {
+    const repository = createInMemoryUserRepository([testUsers[1]]);
+
+    expect(listUsers({}, { repository }).items).toEqual([testUsers[1]]);
+  });
+
+  it('should default to 20 users per page sorted by createdAt', () => {
+    const manyUsers = Array.from({ length: 25 }, (_, index) => ({
+      ...testUsers[0],
+      id: `${index}`.padStart(3, '0'),
+      createdAt: `2024-01-${`${25 - index}`.padStart(2, '0')}T00:00:00.000Z`,
+    }));
+    users.length = 0;
+    users.push(...manyUsers);
+
+    const result = listUsers();
+
+    expect(result.items).toHaveLength(20);
+    expect(result.total).toBe(25);
+    expect(result.items[0].id).toBe('024');
+  });
+
+  it('should sort on multiple fields with descending prefixes', () => {
+    users.push({ ...testUsers[0], id: '3', lastName: 'Adams', createdAt: '2024-01-02T00:00:00.000Z' });
+
+    const result = listUsers({ sort: '-createdAt,lastName' });
+
+    expect(result.items.map((user) => user.id)).toEqual(['3', '2', '1']);
+  });
+
+  it('should paginate by offset and limit', () => {
+    const result = listUsers({ limit: 1, offset: 1 });
+
+    expect(result.items).toEqual([testUsers[1]]);
+    expect(result.offset).toBe(1);
+    expect(result.nextCursor).toBeNull();
+    expect(result.prevCursor).not.toBeNull();
+  });
+
+  it('should filter by exact value case-insensitively', () => {
+    expect(listUsers({ firstName: 'jane' }).items).toEqual([testUsers[1]]);
+    expect(listUsers({ firstName: 'Jan' }).items).toEqual([]);
+  });
+
+  it('should filter by prefix when the value ends with *', () => {
+    expect(listUsers({ lastName: 'sm*' }).items).toEqual([testUsers[1]]);
+  });
+
+  it('should filter by email domain', () => {
+    users.push({ ...testUsers[0], id: '3', email: 'bob@other.org' });
+
+    expect(listUsers({ emailDomain: 'OTHER.org' }).items.map((user) => user.id)).toEqual(['3']);
+  });
+
+  it('should filter by created and updated ranges', () => {
+    expect(listUsers({ createdAfter: new Date('2024-01-01T12:00:00.000Z') }).items).toEqual([testUsers[1]]);
+    expect(listUsers({ createdBefore: new Date('2024-01-02T00:00:00.000Z') }).items).toEqual([testUsers[0]]);
+    expect(listUsers({ updatedAfter: new Date('2024-01-03T00:00:00.000Z') }).items).toEqual([]);
+  });
+
+  describe('soft-deleted users', () => {
+    beforeEach(() => {
+      users[0] = { ...testUsers[0], deletedAt: '2024-02-01T00:00:00.000Z' };
+    });
+
+    it('should leave them out by default', () => {
+      expect(listUsers().items).toEqual([testUsers[1]]);
+    });
+
+    it('should include them with includeDeleted', () => {
+      expect(listUsers({ includeDeleted: true }).items.map(({ id }) => id)).toEqual(['1', '2']);
+    });
+
+    it('should list only them with onlyDeleted', () => {
+      expect(listUsers({ onlyDeleted: true }).items).toEqual([users[0]]);
+    });
+  });
+});
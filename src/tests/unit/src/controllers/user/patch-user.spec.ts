@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { patchUser } from '../../../../../controllers/user/patch-user';
+import { ConflictError, NotFoundError, ValidationFailedError } from '../../../../../errors';
+import { User, users } from '../../../../../models/users-model';
+
+describe('patchUser', () => {
+  const existingUser: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    users.length = 0;
+    users.push({ ...existingUser });
+  });
+
+  afterEach(() => {
+    users.length = 0;
+  });
+
+  it('should apply a JSON Patch', () => {
+    const result = patchUser('1', {
+      type: 'json-patch',
+      operations: [
+        { op: 'test', path: '/email', value: 'john.doe@example.com' },
+        { op: 'replace', path: '/email', value: 'johnny@example.com' },
+        { op: 'remove', path: '/phone' },
+      ],
+    });
+
+    expect(result).toMatchObject({ id: '1', firstName: 'John', email: 'johnny@example.com' });
+    expect(result).not.toHaveProperty('phone');
+    expect(result.updatedAt).not.toBe(existingUser.updatedAt);
+    expect(users[0]).toEqual(result);
+  });
+
+  it('should apply a Merge Patch, removing fields set to null', () => {
+    const result = patchUser('1', { type: 'merge-patch', document: { lastName: 'Dane', phone: null } });
+
+    expect(result).toMatchObject({ firstName: 'John', lastName: 'Dane', email: 'john.doe@example.com' });
+    expect(result).not.toHaveProperty('phone');
+  });
+
+  it('should keep the order of the fields', () => {
+    const result = patchUser('1', { type: 'merge-patch', document: { firstName: 'Jon', phone: null } });
+
+    expect(Object.keys(result)).toEqual(['id', 'firstName', 'lastName', 'email', 'createdAt', 'updatedAt']);
+  });
+
+  it('should keep the fields the service manages', () => {
+    const result = patchUser('1', { type: 'merge-patch', document: { id: '2', createdAt: null } });
+
+    expect(result).toMatchObject({ id: '1', createdAt: existingUser.createdAt });
+  });
+
+  it('should validate the patched user and store nothing when it is invalid', () => {
+    const patch = () => patchUser('1', { type: 'json-patch', operations: [{ op: 'remove', path: '/firstName' }] });
+
+    expect(patch).toThrowError(ValidationFailedError);
+    expect(patch).toThrowError('Patched user failed validation');
+    expect(users[0]).toEqual(existingUser);
+  });
+
+  it('should store nothing when a test fails', () => {
+    const patch = () =>
+      patchUser('1', {
+        type: 'json-patch',
+        operations: [
+          { op: 'replace', path: '/firstName', value: 'Johnny' },
+          { op: 'test', path: '/updatedAt', value: '2023-01-01T00:00:00.000Z' },
+        ],
+      });
+
+    expect(patch).toThrowError(ConflictError);
+    expect(users[0]).toEqual(existingUser);
+  });
+
+  it('should throw a NotFoundError for a missing or deleted user', () => {
+    users[0].deletedAt = '2024-02-01T00:00:00.000Z';
+
+    expect(() => patchUser('1', { type: 'merge-patch', document: {} })).toThrowError(NotFoundError);
+    expect(() => patchUser('2', { type: 'merge-patch', document: {} })).toThrowError(NotFoundError);
+  });
+});
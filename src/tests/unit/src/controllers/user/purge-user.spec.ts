@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { purgeUser } from '../../../../../controllers/user/purge-user';
+import { User, users } from '../../../../../models/users-model';
+
+describe('purgeUser', () => {
+  const testUsers: User[] = [
+    {
+      id: '1',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      phone: '+1-555-123-4567',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+    {
+      id: '2',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      email: 'jane.smith@example.com',
+      phone: '+1-555-987-6543',
+      createdAt: '2024-01-02T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      deletedAt: '2024-02-01T00:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    users.length = 0;
+    users.push(...testUsers);
+  });
+
+  afterEach(() => {
+    users.length = 0;
+  });
+
+  it('should permanently remove a user and return it', () => {
+    expect(purgeUser('1')).toEqual(testUsers[0]);
+    expect(users).toEqual([testUsers[1]]);
+  });
+
+  it('should permanently remove a soft-deleted user', () => {
+    expect(purgeUser('2')).toEqual(testUsers[1]);
+    expect(users).toEqual([testUsers[0]]);
+  });
+
+  it('should throw an error when the user does not exist', () => {
+    expect(() => purgeUser('nonexistent-id')).toThrowError('User not found');
+  });
+});
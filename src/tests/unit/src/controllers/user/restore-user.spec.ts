@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { restoreUser } from '../../../../../controllers/user/restore-user';
+import { ConflictError, NotFoundError } from '../../../../../errors';
+import { User, users } from '../../../../../models/users-model';
+
+describe('restoreUser', () => {
+  const deletedUser: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    deletedAt: '2024-02-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    users.length = 0;
+    users.push({ ...deletedUser });
+  });
+
+  afterEach(() => {
+    users.length = 0;
+  });
+
+  it('should clear deletedAt and return the restored user', () => {
+    const result = restoreUser('1');
+
+    expect(result).not.toHaveProperty('deletedAt');
+    expect(result).toMatchObject({ id: '1', firstName: 'John' });
+    expect(result.updatedAt).not.toBe(deletedUser.updatedAt);
+    expect(users[0]).toEqual(result);
+  });
+
+  it('should throw a ConflictError when the user is not deleted', () => {
+    restoreUser('1');
+
+    expect(() => restoreUser('1')).toThrowError(ConflictError);
+  });
+
+  it('should throw a NotFoundError when the user does not exist', () => {
+    expect(() => restoreUser('nonexistent-id')).toThrowError(NotFoundError);
+  });
+});
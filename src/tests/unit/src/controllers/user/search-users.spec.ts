@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { searchUsers } from '../../../../../controllers/user/search-users';
+import { User } from '../../../../../models/users-model';
+import { createInMemoryUserRepository, UserRepository } from '../../../../../repositories/user';
+import { createUserSearchIndex, UserSearchIndex } from '../../../../../search';
+
+describe('searchUsers', () => {
+  const user = (id: string, firstName: string, lastName: string): User => ({
+    id,
+    firstName,
+    lastName,
+    email: `${firstName}.${lastName}@example.com`.toLowerCase(),
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  let store: User[];
+  let repository: UserRepository;
+  let search: UserSearchIndex;
+
+  beforeEach(() => {
+    store = [user('1', 'John', 'Doe'), user('2', 'Johnny', 'Walker'), user('3', 'Jane', 'Smith')];
+    repository = createInMemoryUserRepository(store);
+    search = createUserSearchIndex(store);
+  });
+
+  it('should return the best matches first with the user and matched fields', () => {
+    const { total, results } = searchUsers({ q: 'john' }, { repository, search });
+
+    expect(total).toBe(2);
+    expect(results.map(({ user }) => user.id)).toEqual(['1', '2']);
+    expect(results[0]).toEqual({ score: expect.any(Number), matches: ['firstName', 'email'], user: store[0] });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should apply the limit after counting every match', () => {
+    const { total, results } = searchUsers({ q: 'john', limit: 1 }, { repository, search });
+
+    expect(total).toBe(2);
+    expect(results).toHaveLength(1);
+  });
+
+  it('should pass the fuzzy option through to the index', () => {
+    expect(searchUsers({ q: 'smyth' }, { repository, search }).total).toBe(1);
+    expect(searchUsers({ q: 'smyth', fuzzy: false }, { repository, search }).total).toBe(0);
+  });
+
+  it('should skip index entries whose user is gone or deleted', () => {
+    repository.delete('1');
+    repository.update('2', { ...store[1], deletedAt: '2024-02-01T00:00:00.000Z' });
+
+    expect(searchUsers({ q: 'john' }, { repository, search })).toEqual({ total: 0, results: [] });
+  });
+});
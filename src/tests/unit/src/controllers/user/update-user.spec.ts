@@ -1,6 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { updateUser } from '../../../../../controllers/user/update-user';
+import { createUserEventBus } from '../../../../../events';
+import { systemContext } from '../../../../../models/audit-model';
 import { User, users } from '../../../../../models/users-model';
+import { createInMemoryAuditRepository } from '../../../../../repositories/audit';
+import { createInMemoryUserRepository } from '../../../../../repositories/user';
+import { createUserSearchIndex } from '../../../../../search';
 
 describe('updateUser', () => {
   let testUsers: User[];
@@ -122,6 +127,13 @@ describe('updateUser', () => {
     expect(() => updateUser('nonexistent-id', updateData as User)).toThrowError('User not found');
   });
 
+  it('should throw an error when the user is soft-deleted', () => {
+    users[0] = { ...testUsers[0], deletedAt: '2024-02-01T00:00:00.000Z' };
+
+    expect(() => updateUser('1', { firstName: 'Ghost' } as User)).toThrowError('User not found');
+    expect(users[0].firstName).toBe('John');
+  });
+
   it('should throw an error when updating in empty users array', () => {
     users.length = 0;
     const updateData: Partial<User> = {
@@ -243,4 +255,42 @@ describe('updateUser', () => {
       updatedAt: mockDateString, // updatedAt should still be updated
     });
   });
+
+  it('should publish a user.updated event carrying the previous version', () => {
+    const events = createUserEventBus();
+    const listener = vi.fn();
+    events.subscribe(listener);
+
+    const result = updateUser(
+      '1',
+      { firstName: 'Johnny' } as User,
+      { actor: 'admin' },
+      {
+        repository: createInMemoryUserRepository(users),
+        audit: createInMemoryAuditRepository([]),
+        search: createUserSearchIndex(),
+        events,
+      },
+    );
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'user.updated', actor: 'admin', user: result, previous: testUsers[0] }),
+    );
+  });
+
+  it('should not publish anything when the update fails', () => {
+    const events = createUserEventBus();
+    const listener = vi.fn();
+    events.subscribe(listener);
+
+    expect(() =>
+      updateUser('missing', {} as User, systemContext, {
+        repository: createInMemoryUserRepository(users),
+        audit: createInMemoryAuditRepository([]),
+        search: createUserSearchIndex(),
+        events,
+      }),
+    ).toThrow();
+    expect(listener).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createWebhook } from '../../../../../controllers/webhook/create-webhook';
+import { Webhook } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository } from '../../../../../repositories/webhook';
+
+describe('createWebhook', () => {
+  it('should store an active webhook with a generated id and secret', () => {
+    const store: Webhook[] = [];
+
+    const webhook = createWebhook(
+      { url: 'https://example.com/hooks', events: ['user.created'] },
+      createInMemoryWebhookRepository(store, []),
+    );
+
+    expect(webhook).toEqual({
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      url: 'https://example.com/hooks',
+      events: ['user.created'],
+      active: true,
+      secret: expect.stringMatching(/^whsec_[\w-]{32}$/),
+      createdAt: expect.any(String),
+      updatedAt: webhook.createdAt,
+    });
+    expect(store).toEqual([webhook]);
+  });
+
+  it('should keep a secret and active flag given by the caller', () => {
+    const webhook = createWebhook(
+      { url: 'https://example.com/hooks', events: ['*'], secret: 'my-own-secret-value', active: false },
+      createInMemoryWebhookRepository([], []),
+    );
+
+    expect(webhook).toMatchObject({ secret: 'my-own-secret-value', active: false });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { deleteWebhook } from '../../../../../controllers/webhook/delete-webhook';
+import { NotFoundError } from '../../../../../errors';
+import { Webhook } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository } from '../../../../../repositories/webhook';
+
+describe('deleteWebhook', () => {
+  const webhook: Webhook = {
+    id: 'webhook-1',
+    url: 'https://example.com/hooks',
+    events: ['user.created'],
+    active: true,
+    secret: 'whsec_test-secret-value',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('should remove the webhook and return it without its secret', () => {
+    const store = [{ ...webhook }];
+
+    const result = deleteWebhook('webhook-1', createInMemoryWebhookRepository(store, []));
+
+    expect(result).toMatchObject({ id: 'webhook-1' });
+    expect(result).not.toHaveProperty('secret');
+    expect(store).toEqual([]);
+  });
+
+  it('should throw a NotFoundError for an unknown webhook', () => {
+    expect(() => deleteWebhook('missing', createInMemoryWebhookRepository([], []))).toThrowError(NotFoundError);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getWebhookById } from '../../../../../controllers/webhook/get-webhook-by-id';
+import { NotFoundError } from '../../../../../errors';
+import { Webhook } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository } from '../../../../../repositories/webhook';
+
+describe('getWebhookById', () => {
+  const webhook: Webhook = {
+    id: 'webhook-1',
+    url: 'https://example.com/hooks',
+    events: ['user.created'],
+    active: true,
+    secret: 'whsec_test-secret-value',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const repository = createInMemoryWebhookRepository([webhook], []);
+
+  it('should return the webhook without its secret', () => {
+    const { secret, ...view } = webhook;
+
+    expect(getWebhookById('webhook-1', repository)).toEqual(view);
+  });
+
+  it('should throw a NotFoundError for an unknown webhook', () => {
+    expect(() => getWebhookById('missing', repository)).toThrowError(NotFoundError);
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { listWebhookDeliveries } from '../../../../../controllers/webhook/list-webhook-deliveries';
+import { NotFoundError } from '../../../../../errors';
+import { Webhook, WebhookDelivery } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository, WebhookRepository } from '../../../../../repositories/webhook';
+
+describe('listWebhookDeliveries', () => {
+  const webhook = (id: string): Webhook => ({
+    id,
+    url: 'https://example.com/hooks',
+    events: ['*'],
+    active: true,
+    secret: 'whsec_test-secret-value',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+  const delivery = (
+    id: string,
+    webhookId: string,
+    status: WebhookDelivery['status'],
+    day: number,
+  ): WebhookDelivery => ({
+    id,
+    webhookId,
+    eventId: `event-${id}`,
+    event: 'user.created',
+    payload: '{}',
+    status,
+    attempts: [],
+    createdAt: `2024-01-0${day}T00:00:00.000Z`,
+  });
+
+  let repository: WebhookRepository;
+
+  beforeEach(() => {
+    repository = createInMemoryWebhookRepository(
+      [webhook('webhook-1'), webhook('webhook-2')],
+      [
+        delivery('d1', 'webhook-1', 'delivered', 1),
+        delivery('d2', 'webhook-1', 'dead', 2),
+        delivery('d3', 'webhook-2', 'dead', 3),
+        delivery('d4', 'webhook-1', 'pending', 4),
+      ],
+    );
+  });
+
+  it("should list one webhook's deliveries newest first", () => {
+    const page = listWebhookDeliveries({ webhookId: 'webhook-1' }, repository);
+
+    expect(page.items.map(({ id }) => id)).toEqual(['d4', 'd2', 'd1']);
+    expect(page.total).toBe(3);
+  });
+
+  it('should filter by status across every webhook', () => {
+    const page = listWebhookDeliveries({ status: 'dead' }, repository);
+
+    expect(page.items.map(({ id }) => id)).toEqual(['d3', 'd2']);
+  });
+
+  it('should paginate', () => {
+    const page = listWebhookDeliveries({ limit: 1, offset: 1 }, repository);
+
+    expect(page.items.map(({ id }) => id)).toEqual(['d3']);
+  });
+
+  it('should throw a NotFoundError for an unknown webhook', () => {
+    expect(() => listWebhookDeliveries({ webhookId: 'missing' }, repository)).toThrowError(NotFoundError);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { listWebhooks } from '../../../../../controllers/webhook/list-webhooks';
+import { Webhook } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository } from '../../../../../repositories/webhook';
+
+describe('listWebhooks', () => {
+  it('should list every webhook without secrets', () => {
+    const webhook: Webhook = {
+      id: 'webhook-1',
+      url: 'https://example.com/hooks',
+      events: ['*'],
+      active: false,
+      secret: 'whsec_test-secret-value',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    const listed = listWebhooks(createInMemoryWebhookRepository([webhook], []));
+
+    expect(listed).toEqual([expect.objectContaining({ id: 'webhook-1', active: false })]);
+    expect(listed[0]).not.toHaveProperty('secret');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { redeliverWebhookDelivery } from '../../../../../controllers/webhook/redeliver-webhook-delivery';
+import { ConflictError, NotFoundError } from '../../../../../errors';
+import { WebhookDelivery } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository } from '../../../../../repositories/webhook';
+import { WebhookDispatcher } from '../../../../../webhooks';
+
+describe('redeliverWebhookDelivery', () => {
+  const dead: WebhookDelivery = {
+    id: 'delivery-1',
+    webhookId: 'webhook-1',
+    eventId: 'event-1',
+    event: 'user.created',
+    payload: '{}',
+    status: 'dead',
+    attempts: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+  const repository = createInMemoryWebhookRepository([], [dead, { ...dead, id: 'delivery-2', status: 'delivered' }]);
+  const dispatcher = (): WebhookDispatcher => ({
+    dispatch: vi.fn(),
+    redeliver: vi.fn((delivery) => ({ ...delivery, status: 'pending' })),
+    idle: vi.fn(),
+  });
+
+  it('should hand a dead delivery back to the dispatcher', () => {
+    const mockDispatcher = dispatcher();
+
+    const result = redeliverWebhookDelivery('delivery-1', repository, mockDispatcher);
+
+    expect(mockDispatcher.redeliver).toHaveBeenCalledWith(dead);
+    expect(result.status).toBe('pending');
+  });
+
+  it('should throw a ConflictError for a delivery that is not dead', () => {
+    expect(() => redeliverWebhookDelivery('delivery-2', repository, dispatcher())).toThrowError(ConflictError);
+  });
+
+  it('should throw a NotFoundError for an unknown delivery', () => {
+    expect(() => redeliverWebhookDelivery('missing', repository, dispatcher())).toThrowError(NotFoundError);
+  });
+});
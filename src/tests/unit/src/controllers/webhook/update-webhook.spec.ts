@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { updateWebhook } from '../../../../../controllers/webhook/update-webhook';
+import { NotFoundError } from '../../../../../errors';
+import { Webhook } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository, WebhookRepository } from '../../../../../repositories/webhook';
+
+describe('updateWebhook', () => {
+  const webhook: Webhook = {
+    id: 'webhook-1',
+    url: 'https://example.com/hooks',
+    events: ['user.created'],
+    active: true,
+    secret: 'whsec_test-secret-value',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  let store: Webhook[];
+  let repository: WebhookRepository;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-02-01T00:00:00.000Z'));
+    store = [{ ...webhook }];
+    repository = createInMemoryWebhookRepository(store, []);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should merge the changes and return the webhook without its secret', () => {
+    const result = updateWebhook('webhook-1', { events: ['*'], active: false }, repository);
+
+    expect(result).toEqual({
+      id: 'webhook-1',
+      url: 'https://example.com/hooks',
+      events: ['*'],
+      active: false,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    });
+    expect(store[0]).toEqual({ ...result, secret: webhook.secret });
+  });
+
+  it('should throw a NotFoundError for an unknown webhook', () => {
+    expect(() => updateWebhook('missing', { active: false }, repository)).toThrowError(NotFoundError);
+  });
+});
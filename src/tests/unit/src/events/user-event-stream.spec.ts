@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  createUserEventBus,
+  createUserEventStream,
+  StreamedUserEvent,
+  userEvent,
+  UserEventBus,
+  UserEventStream,
+} from '../../../../events';
+import { User } from '../../../../models/users-model';
+
+describe('createUserEventStream', () => {
+  const user: User = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  let bus: UserEventBus;
+  let stream: UserEventStream;
+  const publish = (count: number) => {
+    for (let i = 0; i < count; i++) bus.publish(userEvent('user.updated', user, { actor: 'system' }));
+  };
+  const sequences = (received: StreamedUserEvent[]) => received.map(({ sequence }) => sequence);
+
+  beforeEach(() => {
+    bus = createUserEventBus();
+    stream = createUserEventStream(bus, 3);
+  });
+
+  it('should number events and pass them to live subscribers', () => {
+    const received: StreamedUserEvent[] = [];
+    stream.subscribe((streamed) => received.push(streamed));
+
+    publish(2);
+
+    expect(sequences(received)).toEqual([1, 2]);
+    expect(received[0].event.type).toBe('user.updated');
+  });
+
+  it('should not replay anything without a last sequence', () => {
+    publish(2);
+    const received: StreamedUserEvent[] = [];
+
+    stream.subscribe((streamed) => received.push(streamed));
+
+    expect(received).toEqual([]);
+  });
+
+  it('should replay buffered events after the last sequence before live ones', () => {
+    publish(3);
+    const received: StreamedUserEvent[] = [];
+
+    stream.subscribe((streamed) => received.push(streamed), 1);
+    publish(1);
+
+    expect(sequences(received)).toEqual([2, 3, 4]);
+  });
+
+  it('should only keep the most recent events', () => {
+    publish(5);
+    const received: StreamedUserEvent[] = [];
+
+    stream.subscribe((streamed) => received.push(streamed), 0);
+
+    expect(sequences(received)).toEqual([3, 4, 5]);
+  });
+
+  it('should stop delivering after unsubscribing', () => {
+    const received: StreamedUserEvent[] = [];
+    const unsubscribe = stream.subscribe((streamed) => received.push(streamed));
+
+    expect(stream.subscriberCount()).toBe(1);
+    unsubscribe();
+    publish(1);
+
+    expect(received).toEqual([]);
+    expect(stream.subscriberCount()).toBe(0);
+  });
+});
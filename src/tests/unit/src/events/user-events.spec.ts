@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createUserEventBus, userEvent, userEventPayload } from '../../../../events';
+import { User } from '../../../../models/users-model';
+
+describe('user events', () => {
+  const user: User = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  describe('userEvent', () => {
+    it('should describe the change with a fresh id and the acting context', () => {
+      const previous = { ...user, firstName: 'Johnny' };
+      const event = userEvent('user.updated', user, { actor: 'admin', requestId: 'req-1' }, previous);
+
+      expect(event).toEqual({
+        id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+        type: 'user.updated',
+        occurredAt: expect.any(String),
+        actor: 'admin',
+        requestId: 'req-1',
+        user,
+        previous,
+      });
+    });
+
+    it('should leave out what is not known', () => {
+      const event = userEvent('user.created', user, { actor: 'system' });
+
+      expect(event).not.toHaveProperty('requestId');
+      expect(event).not.toHaveProperty('previous');
+    });
+  });
+
+  describe('userEventPayload', () => {
+    it('should nest the user and its previous version under data', () => {
+      const previous = { ...user, firstName: 'Johnny' };
+      const event = userEvent('user.updated', user, { actor: 'admin', requestId: 'req-1' }, previous);
+
+      expect(userEventPayload(event)).toEqual({
+        id: event.id,
+        type: 'user.updated',
+        occurredAt: event.occurredAt,
+        actor: 'admin',
+        data: { user, previous },
+      });
+    });
+  });
+
+  describe('createUserEventBus', () => {
+    it('should deliver published events to every subscriber until it unsubscribes', () => {
+      const bus = createUserEventBus();
+      const first = vi.fn();
+      const second = vi.fn();
+      const event = userEvent('user.created', user, { actor: 'system' });
+
+      const unsubscribe = bus.subscribe(first);
+      bus.subscribe(second);
+      bus.publish(event);
+      unsubscribe();
+      bus.publish(event);
+
+      expect(first).toHaveBeenCalledOnce();
+      expect(second).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenCalledWith(event);
+    });
+
+    it('should keep going when a subscriber throws', () => {
+      const bus = createUserEventBus();
+      const listener = vi.fn();
+      bus.subscribe(() => {
+        throw new Error('boom');
+      });
+      bus.subscribe(listener);
+
+      expect(() => bus.publish(userEvent('user.deleted', user, { actor: 'system' }))).not.toThrow();
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  ForbiddenError,
+  PreconditionFailedError,
+  PreconditionRequiredError,
+  UnauthorizedError,
+  ValidationFailedError,
+} from '../../../../errors';
+import { createUserEventBus, UserEvent } from '../../../../events';
+import { createUserResolvers, GraphqlContext } from '../../../../graphql';
+import { AuditEntry } from '../../../../models/audit-model';
+import { User } from '../../../../models/users-model';
+import { createInMemoryAuditRepository } from '../../../../repositories/audit';
+import { createInMemoryUserRepository } from '../../../../repositories/user';
+import { createUserSearchIndex } from '../../../../search';
+import { etagFor } from '../../../../utils/etag';
+
+describe('createUserResolvers', () => {
+  const id = '123e4567-e89b-12d3-a456-426614174000';
+  const missingId = '999e4567-e89b-12d3-a456-426614174999';
+  const admin: GraphqlContext = { principal: { subject: 'admin', roles: ['admin'] }, audit: { actor: 'admin' } };
+  const self: GraphqlContext = { principal: { subject: id, roles: ['self'] }, audit: { actor: id } };
+
+  let store: User[];
+  let entries: AuditEntry[];
+  let published: UserEvent[];
+  let resolvers: ReturnType<typeof createUserResolvers>;
+  let dependencies: Parameters<typeof createUserResolvers>[0];
+
+  beforeEach(() => {
+    store = [
+      {
+        id,
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phone: '+1-555-123-4567',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    ];
+    entries = [];
+    published = [];
+
+    const events = createUserEventBus();
+    events.subscribe((event) => published.push(event));
+
+    dependencies = {
+      repository: createInMemoryUserRepository(store),
+      audit: createInMemoryAuditRepository(entries),
+      search: createUserSearchIndex(store),
+      events,
+    };
+    resolvers = createUserResolvers(dependencies);
+  });
+
+  describe('user', () => {
+    it('should return the user or null when there is none', () => {
+      expect(resolvers.user({ id }, admin)).toEqual(store[0]);
+      expect(resolvers.user({ id: missingId }, admin)).toBeNull();
+    });
+
+    it('should let self read only their own user', () => {
+      expect(resolvers.user({ id }, self)).toEqual(store[0]);
+      expect(() => resolvers.user({ id: missingId }, self)).toThrow(ForbiddenError);
+    });
+
+    it('should reject an id the REST route would reject', () => {
+      expect(() => resolvers.user({ id: 'not-a-uuid' }, admin)).toThrow(ValidationFailedError);
+    });
+
+    it('should require a principal', () => {
+      expect(() => resolvers.user({ id }, { audit: { actor: 'anonymous' } })).toThrow(UnauthorizedError);
+    });
+  });
+
+  describe('users', () => {
+    it('should validate and apply the list query', () => {
+      const page = resolvers.users({ limit: 1, sort: '-lastName' }, admin);
+
+      expect(page).toMatchObject({ items: [store[0]], total: 1, limit: 1, offset: 0 });
+      expect(() => resolvers.users({ sort: 'password' }, admin)).toThrow(ValidationFailedError);
+    });
+
+    it('should need user:list-deleted to include deleted users', () => {
+      const manager = { ...admin, principal: { subject: 'manager', roles: ['manager' as const] } };
+
+      expect(() => resolvers.users({ includeDeleted: true }, manager)).toThrow('Missing permission user:list-deleted');
+    });
+  });
+
+  describe('mutations', () => {
+    it('should create, update and delete through the controllers', () => {
+      const created = resolvers.createUser({ input: { firstName: 'Jane', lastName: 'Smith' } }, admin);
+      const updated = resolvers.updateUser({ id: created.id, input: { email: 'jane@example.com' } }, admin);
+      const deleted = resolvers.deleteUser({ id: created.id }, admin);
+
+      expect(updated).toMatchObject({ firstName: 'Jane', email: 'jane@example.com' });
+      expect(deleted.deletedAt).toEqual(expect.any(String));
+      expect(entries.map(({ action, actor }) => [action, actor])).toEqual([
+        ['create', 'admin'],
+        ['update', 'admin'],
+        ['delete', 'admin'],
+      ]);
+      expect(published.map(({ type }) => type)).toEqual(['user.created', 'user.updated', 'user.deleted']);
+    });
+
+    it('should reject input with the REST schemas', () => {
+      expect(() => resolvers.createUser({ input: { firstName: 'Jane' } }, admin)).toThrow(ValidationFailedError);
+      expect(() => resolvers.updateUser({ id, input: { email: 'not-an-email' } }, admin)).toThrow(
+        ValidationFailedError,
+      );
+      expect(store).toHaveLength(1);
+    });
+
+    it('should apply an ifMatch like the If-Match header', () => {
+      const etag = etagFor(store[0]);
+
+      const updated = resolvers.updateUser({ id, input: { firstName: 'Johnny' }, ifMatch: etag }, admin);
+
+      expect(updated.firstName).toBe('Johnny');
+      expect(() => resolvers.updateUser({ id, input: { firstName: 'Jack' }, ifMatch: etag }, admin)).toThrow(
+        PreconditionFailedError,
+      );
+      expect(() => resolvers.deleteUser({ id, ifMatch: etag }, admin)).toThrow(PreconditionFailedError);
+      expect(store[0]).toMatchObject({ firstName: 'Johnny' });
+      expect(store[0]).not.toHaveProperty('deletedAt');
+    });
+
+    it('should require an ifMatch when the REST routes require If-Match', () => {
+      const strict = createUserResolvers(dependencies, { requireIfMatch: true });
+
+      expect(() => strict.updateUser({ id, input: { firstName: 'Jack' } }, admin)).toThrow(PreconditionRequiredError);
+      expect(() => strict.deleteUser({ id }, admin)).toThrow(PreconditionRequiredError);
+      expect(strict.deleteUser({ id, ifMatch: etagFor(store[0]) }, admin).deletedAt).toEqual(expect.any(String));
+    });
+
+    it('should check permissions before touching the repository', () => {
+      expect(() => resolvers.deleteUser({ id }, self)).toThrow(ForbiddenError);
+      expect(store[0]).not.toHaveProperty('deletedAt');
+    });
+  });
+});
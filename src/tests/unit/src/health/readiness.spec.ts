@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createReadiness, Readiness } from '../../../../health';
+
+describe('createReadiness', () => {
+  let readiness: Readiness;
+
+  beforeEach(() => {
+    readiness = createReadiness(50);
+  });
+
+  it('should be ready without checks', async () => {
+    expect(await readiness.check()).toEqual({ status: 'ready', checks: {} });
+  });
+
+  it('should report every check and fail when one fails', async () => {
+    readiness.register('store', () => undefined);
+    readiness.register('cache', async () => {
+      throw new Error('connection refused');
+    });
+
+    expect(await readiness.check()).toEqual({
+      status: 'not-ready',
+      checks: {
+        store: { status: 'ok' },
+        cache: { status: 'failing', error: 'connection refused' },
+      },
+    });
+  });
+
+  it('should fail a check that hangs', async () => {
+    readiness.register('slow', () => new Promise(() => undefined));
+
+    expect(await readiness.check()).toEqual({
+      status: 'not-ready',
+      checks: { slow: { status: 'failing', error: 'Timed out after 50 ms' } },
+    });
+  });
+
+  it('should report shutting down once shut down, whatever the checks say', async () => {
+    readiness.register('store', () => undefined);
+
+    readiness.shutDown();
+
+    expect(await readiness.check()).toEqual({ status: 'shutting-down', checks: { store: { status: 'ok' } } });
+  });
+});
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createInMemoryIdempotencyStore, IdempotencyStore } from '../../../../idempotency';
+
+describe('createInMemoryIdempotencyStore', () => {
+  const record = { fingerprint: 'abc', expiresAt: 1000 };
+  const response = { status: 201, headers: { 'content-type': 'application/json' }, body: '{}' };
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    store = createInMemoryIdempotencyStore();
+  });
+
+  it('should claim a free key and return the record holding a taken one', () => {
+    expect(store.claim('key', record, 0)).toBeUndefined();
+    expect(store.claim('key', { fingerprint: 'other', expiresAt: 2000 }, 0)).toEqual(record);
+  });
+
+  it('should attach the response once the request completes', () => {
+    store.claim('key', record, 0);
+    store.complete('key', response);
+
+    expect(store.claim('key', record, 0)).toEqual({ ...record, response });
+  });
+
+  it('should free released and expired keys', () => {
+    store.claim('released', record, 0);
+    store.release('released');
+    store.claim('expired', record, 0);
+
+    expect(store.claim('released', record, 0)).toBeUndefined();
+    expect(store.claim('expired', { fingerprint: 'new', expiresAt: 5000 }, 1000)).toBeUndefined();
+    expect(store.claim('expired', record, 1000)).toMatchObject({ fingerprint: 'new' });
+  });
+
+  it('should ignore completing a key that was released', () => {
+    store.complete('unknown', response);
+
+    expect(store.claim('unknown', record, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLogger, LoggerOptions, REDACTED } from '../../../../logging';
+
+describe('createLogger', () => {
+  let lines: Record<string, unknown>[];
+
+  const create = (options: LoggerOptions = {}) =>
+    createLogger({ write: (line) => lines.push(JSON.parse(line)), ...options });
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON object per line with time, level and message', () => {
+    create().info('user created', { userId: '42' });
+
+    expect(lines).toEqual([{ time: expect.any(String), level: 'info', msg: 'user created', userId: '42' }]);
+  });
+
+  it('should drop lines below the configured level', () => {
+    const logger = create({ level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map(({ msg }) => msg)).toEqual(['warn', 'error']);
+    expect(logger.isLevelEnabled('info')).toBe(false);
+    expect(logger.isLevelEnabled('error')).toBe(true);
+  });
+
+  it('should write nothing when silent', () => {
+    create({ level: 'silent' }).error('error');
+
+    expect(lines).toEqual([]);
+  });
+
+  it('should add the bindings of child loggers to every line', () => {
+    const child = create({ bindings: { service: 'api' } }).child({ requestId: 'req-1' });
+
+    child.child({ deliveryId: 'd-1' }).warn('retrying');
+
+    expect(lines[0]).toMatchObject({ service: 'api', requestId: 'req-1', deliveryId: 'd-1', msg: 'retrying' });
+  });
+
+  it('should redact configured fields at any depth, ignoring case', () => {
+    create({ redact: ['email', 'phone'] }).info('request completed', {
+      body: { firstName: 'Jane', Email: 'jane@example.com', contacts: [{ phone: '+1-555-123-4567' }] },
+    });
+
+    expect(lines[0].body).toEqual({ firstName: 'Jane', Email: REDACTED, contacts: [{ phone: REDACTED }] });
+  });
+
+  it('should write errors with their name, message and stack', () => {
+    const error = Object.assign(new TypeError('boom'), { code: 'E_BOOM' });
+
+    create().error('request failed', { err: error });
+
+    expect(lines[0].err).toEqual({ name: 'TypeError', message: 'boom', stack: expect.any(String), code: 'E_BOOM' });
+  });
+});
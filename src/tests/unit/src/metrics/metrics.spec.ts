@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createMetrics } from '../../../../metrics';
+import { User } from '../../../../models/users-model';
+import { createInMemoryUserRepository } from '../../../../repositories/user';
+
+describe('createMetrics', () => {
+  const user = (id: string, deletedAt?: string): User => ({
+    id,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...(deletedAt && { deletedAt }),
+  });
+
+  it('should report the users in the store on every scrape', async () => {
+    const store = [user('1'), user('2'), user('3', '2024-02-01T00:00:00.000Z')];
+    const { registry } = createMetrics(createInMemoryUserRepository(store));
+
+    expect(await registry.metrics()).toContain('users{state="active"} 2');
+
+    store.push(user('4'));
+    expect(await registry.metrics()).toContain('users{state="active"} 3');
+    expect(await registry.metrics()).toContain('users{state="deleted"} 1');
+  });
+
+  it('should include the Node process metrics', async () => {
+    const { registry } = createMetrics(createInMemoryUserRepository([]));
+    const text = await registry.metrics();
+
+    expect(text).toContain('nodejs_eventloop_lag_seconds');
+    expect(text).toContain('nodejs_heap_size_used_bytes');
+    expect(text).toContain('nodejs_gc_duration_seconds');
+  });
+
+  it('should keep each registry separate', async () => {
+    const first = createMetrics(createInMemoryUserRepository([]));
+    const second = createMetrics(createInMemoryUserRepository([]));
+
+    first.httpRequests.inc({ method: 'GET', route: '/users', status: '200' });
+
+    expect(await first.registry.metrics()).toContain('http_requests_total{method="GET",route="/users",status="200"} 1');
+    expect(await second.registry.metrics()).not.toContain('http_requests_total{');
+  });
+});
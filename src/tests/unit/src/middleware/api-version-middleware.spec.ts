@@ -0,0 +1,57 @@
+import express, { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { negotiateApiVersion, pinApiVersion } from '../../../../middleware/api-version-middleware';
+import { errorHandler } from '../../../../middleware/error-handler';
+
+describe('API version middleware', () => {
+  function createApp() {
+    const app = express();
+    const echo = (req: Request, res: Response) => res.send({ version: req.apiVersion });
+
+    app.get('/v2/echo', pinApiVersion('2'), echo);
+    app.get('/echo', negotiateApiVersion(), echo);
+    app.use(errorHandler);
+
+    return app;
+  }
+
+  describe('negotiateApiVersion', () => {
+    it('should default to v1', async () => {
+      const response = await request(createApp()).get('/echo');
+
+      expect(response.body).toEqual({ version: '1' });
+      expect(response.headers['api-version']).toBe('1');
+      expect(response.headers.vary).toBe('Accept, Accept-Version');
+    });
+
+    it('should serve the version asked for in Accept-Version or Accept', async () => {
+      const fromHeader = await request(createApp()).get('/echo').set('Accept-Version', '2');
+      const fromMediaType = await request(createApp()).get('/echo').set('Accept', 'application/json; version=2');
+
+      expect(fromHeader.body).toEqual({ version: '2' });
+      expect(fromMediaType.body).toEqual({ version: '2' });
+      expect(fromMediaType.headers['api-version']).toBe('2');
+    });
+
+    it('should return 406 for an unknown version', async () => {
+      const response = await request(createApp()).get('/echo').set('Accept-Version', '3');
+
+      expect(response.status).toBe(StatusCodes.NOT_ACCEPTABLE);
+      expect(response.body).toMatchObject({
+        type: 'urn:problem-type:not-acceptable',
+        detail: 'API version 3 is not supported, use one of 1, 2',
+      });
+    });
+  });
+
+  describe('pinApiVersion', () => {
+    it('should ignore the version asked for in the headers', async () => {
+      const response = await request(createApp()).get('/v2/echo').set('Accept-Version', '1');
+
+      expect(response.body).toEqual({ version: '2' });
+      expect(response.headers['api-version']).toBe('2');
+    });
+  });
+});
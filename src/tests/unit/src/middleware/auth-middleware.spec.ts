@@ -0,0 +1,112 @@
+import { NextFunction, Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createKeyStore } from '../../../../auth/keys';
+import { signToken } from '../../../../auth/tokens';
+import { ForbiddenError, UnauthorizedError } from '../../../../errors';
+import { authenticate, authorize } from '../../../../middleware/auth-middleware';
+
+describe('authenticate', () => {
+  const store = createKeyStore([{ kid: 'k1', alg: 'HS256', secret: 'shh' }]);
+  const options = { issuer: 'test', audience: 'test', expiresIn: 60 };
+  const principal = { subject: 'user-1', roles: ['admin'] };
+
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+  let setMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setMock = vi.fn().mockReturnThis();
+    mockNext = vi.fn();
+    mockRequest = { headers: {} };
+    mockResponse = { set: setMock };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const run = () => authenticate(store, options)(mockRequest as Request, mockResponse as Response, mockNext);
+
+  it('should attach the principal for a valid bearer token', () => {
+    mockRequest.headers = { authorization: `Bearer ${signToken(principal, store, options)}` };
+
+    run();
+
+    expect(mockRequest.principal).toEqual(principal);
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it('should accept the scheme case-insensitively', () => {
+    mockRequest.headers = { authorization: `bearer ${signToken(principal, store, options)}` };
+
+    run();
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it.each([undefined, 'Basic dXNlcjpwYXNz', 'Bearer'])('should reject the authorization header %s', (header) => {
+    mockRequest.headers = { authorization: header };
+
+    run();
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+    expect(vi.mocked(mockNext).mock.calls[0][0]).toHaveProperty('message', 'Missing bearer token');
+    expect(setMock).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+    expect(mockRequest.principal).toBeUndefined();
+  });
+
+  it('should reject invalid tokens with an invalid_token challenge', () => {
+    mockRequest.headers = { authorization: 'Bearer not-a-token' };
+
+    run();
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+    expect(setMock).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer error="invalid_token"');
+    expect(mockRequest.principal).toBeUndefined();
+  });
+});
+
+describe('authorize', () => {
+  let mockRequest: Partial<Request>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    mockNext = vi.fn();
+    mockRequest = { params: { id: 'user-1' } };
+  });
+
+  const run = (...args: Parameters<typeof authorize>) =>
+    authorize(...args)(mockRequest as Request, {} as Response, mockNext);
+
+  it('should call next when the principal has the permission', () => {
+    mockRequest.principal = { subject: 'admin-1', roles: ['admin'] };
+
+    run('user:delete', (req) => req.params.id);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it('should resolve the owner for self-scoped grants', () => {
+    mockRequest.principal = { subject: 'user-1', roles: ['self'] };
+
+    run('user:update', (req) => req.params.id);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it('should pass a ForbiddenError when the permission is missing', () => {
+    mockRequest.principal = { subject: 'user-2', roles: ['self'] };
+
+    run('user:update', (req) => req.params.id);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(ForbiddenError));
+    expect(vi.mocked(mockNext).mock.calls[0][0]).toHaveProperty('message', 'Missing permission user:update');
+  });
+
+  it('should pass an UnauthorizedError when no principal is set', () => {
+    run('user:list');
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+  });
+});
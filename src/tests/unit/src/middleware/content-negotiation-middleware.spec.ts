@@ -0,0 +1,111 @@
+import { decode, encode } from '@msgpack/msgpack';
+import express, { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { NotFoundError } from '../../../../errors';
+import { parseBody, respondWith } from '../../../../middleware/content-negotiation-middleware';
+import { errorHandler } from '../../../../middleware/error-handler';
+
+describe('content negotiation middleware', () => {
+  function createApp() {
+    const app = express();
+    app.use(express.json());
+    app.get('/user', respondWith(), (req: Request, res: Response) => res.send({ id: '1', firstName: 'John' }));
+    app.get('/missing', respondWith(), () => {
+      throw new NotFoundError('User not found');
+    });
+    app.post('/echo', respondWith(), parseBody(), (req: Request, res: Response) => res.send(req.body));
+    app.use(errorHandler);
+
+    return app;
+  }
+
+  describe('respondWith', () => {
+    it('should default to JSON', async () => {
+      const response = await request(createApp()).get('/user');
+
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.headers.vary).toBe('Accept');
+      expect(response.body).toEqual({ id: '1', firstName: 'John' });
+    });
+
+    it.each([
+      ['application/xml', /^application\/xml/, '<response><id>1</id><firstName>John</firstName></response>'],
+      ['text/xml', /^application\/xml/, '<firstName>John</firstName>'],
+      ['text/csv', /^text\/csv/, 'id,firstName\r\n1,John\r\n'],
+    ])('should answer Accept: %s', async (accept, contentType, content) => {
+      const response = await request(createApp()).get('/user').set('Accept', accept);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(contentType);
+      expect(response.text).toContain(content);
+    });
+
+    it('should answer with MessagePack', async () => {
+      const response = await request(createApp())
+        .get('/user')
+        .set('Accept', 'application/msgpack')
+        .responseType('blob');
+
+      expect(response.headers['content-type']).toBe('application/msgpack');
+      expect(decode(response.body)).toEqual({ id: '1', firstName: 'John' });
+    });
+
+    it('should honour quality values and ignore the version parameter', async () => {
+      const response = await request(createApp())
+        .get('/user')
+        .set('Accept', 'application/json;q=0.5, text/csv; version=2');
+
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    });
+
+    it('should return 406 when no format is acceptable', async () => {
+      const response = await request(createApp()).get('/user').set('Accept', 'application/pdf');
+
+      expect(response.status).toBe(StatusCodes.NOT_ACCEPTABLE);
+      expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+      expect(response.body.detail).toMatch(/^Responses are available as application\/json, application\/xml/);
+    });
+
+    it('should keep problem details as JSON', async () => {
+      const response = await request(createApp()).get('/missing').set('Accept', 'application/xml');
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    });
+  });
+
+  describe('parseBody', () => {
+    it.each([
+      ['application/xml', '<user><firstName>Alice</firstName><lastName>Johnson</lastName></user>'],
+      ['text/csv', 'firstName,lastName\nAlice,Johnson\n'],
+      ['application/msgpack', Buffer.from(encode({ firstName: 'Alice', lastName: 'Johnson' }))],
+      ['application/json', JSON.stringify({ firstName: 'Alice', lastName: 'Johnson' })],
+    ])('should parse %s bodies', async (contentType, body) => {
+      const response = await request(createApp()).post('/echo').set('Content-Type', contentType).send(body);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({ firstName: 'Alice', lastName: 'Johnson' });
+    });
+
+    it('should return 400 for a body that cannot be parsed', async () => {
+      const response = await request(createApp())
+        .post('/echo')
+        .set('Content-Type', 'application/xml')
+        .send('<user><firstName>Alice</user>');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body).toMatchObject({
+        type: 'urn:problem-type:validation-failed',
+        detail: 'Request body is not valid xml',
+      });
+    });
+
+    it('should return 415 for other media types', async () => {
+      const response = await request(createApp()).post('/echo').set('Content-Type', 'text/plain').send('Alice');
+
+      expect(response.status).toBe(StatusCodes.UNSUPPORTED_MEDIA_TYPE);
+    });
+  });
+});
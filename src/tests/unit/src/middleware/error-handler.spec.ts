@@ -0,0 +1,128 @@
+import express, { NextFunction, Request, Response } from 'express';
+import createError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import path from 'path';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import {
+  ConflictError,
+  FailedDependencyError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  PreconditionRequiredError,
+  UnauthorizedError,
+  ValidationFailedError,
+} from '../../../../errors';
+import { errorHandler } from '../../../../middleware/error-handler';
+
+function createApp(error: unknown, env = 'test') {
+  const app = express();
+
+  app.set('env', env);
+  app.set('views', path.join(__dirname, '../../../../../views'));
+  app.set('view engine', 'jade');
+  app.use(express.json());
+
+  app.post('/boom', (req: Request, res: Response) => res.send(req.body));
+  app.get('/boom', (req: Request, res: Response, next: NextFunction) => next(error));
+  app.use(errorHandler);
+
+  return app;
+}
+
+describe('errorHandler', () => {
+  it('should render domain errors as problem details', async () => {
+    const response = await request(createApp(new NotFoundError('User not found'))).get('/boom?x=1');
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(response.body).toEqual({
+      type: 'urn:problem-type:not-found',
+      title: 'Not Found',
+      status: StatusCodes.NOT_FOUND,
+      detail: 'User not found',
+      instance: '/boom?x=1',
+    });
+  });
+
+  it.each([
+    [new ConflictError(), StatusCodes.CONFLICT, 'urn:problem-type:conflict'],
+    [new UnauthorizedError(), StatusCodes.UNAUTHORIZED, 'urn:problem-type:unauthorized'],
+    [new FailedDependencyError(), StatusCodes.FAILED_DEPENDENCY, 'urn:problem-type:failed-dependency'],
+    [new ForbiddenError(), StatusCodes.FORBIDDEN, 'urn:problem-type:forbidden'],
+    [new PreconditionFailedError(), StatusCodes.PRECONDITION_FAILED, 'urn:problem-type:precondition-failed'],
+    [new PreconditionRequiredError(), StatusCodes.PRECONDITION_REQUIRED, 'urn:problem-type:precondition-required'],
+  ])('should map %s to its status code', async (error, status, type) => {
+    const response = await request(createApp(error)).get('/boom');
+
+    expect(response.status).toBe(status);
+    expect(response.body).toMatchObject({ status, type, detail: error.message });
+  });
+
+  it('should include validation details as an extension member', async () => {
+    const details = [{ path: 'email', message: 'Invalid email address' }];
+
+    const response = await request(createApp(new ValidationFailedError(details))).get('/boom');
+
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    expect(response.body).toMatchObject({
+      type: 'urn:problem-type:validation-failed',
+      title: 'Validation error',
+      detail: 'Request failed validation',
+      details,
+    });
+  });
+
+  it('should use the status of http errors', async () => {
+    const response = await request(createApp(createError(StatusCodes.NOT_FOUND))).get('/boom');
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    expect(response.body).toMatchObject({ type: 'about:blank', title: 'Not Found', detail: 'Not Found' });
+  });
+
+  it('should report malformed JSON bodies as 400', async () => {
+    const response = await request(createApp(null))
+      .post('/boom')
+      .send('{"invalid": json}')
+      .set('Content-Type', 'application/json');
+
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    expect(response.body).toMatchObject({ type: 'about:blank', title: 'Bad Request' });
+  });
+
+  it('should hide unexpected error messages outside development', async () => {
+    const response = await request(createApp(new Error('database password is hunter2'))).get('/boom');
+
+    expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: StatusCodes.INTERNAL_SERVER_ERROR,
+      instance: '/boom',
+    });
+  });
+
+  it('should show unexpected error messages in development', async () => {
+    const response = await request(createApp(new Error('Something broke'), 'development')).get('/boom');
+
+    expect(response.body).toHaveProperty('detail', 'Something broke');
+  });
+
+  it('should render the error page for browsers', async () => {
+    const response = await request(createApp(new NotFoundError('User not found')))
+      .get('/boom')
+      .set('Accept', 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8');
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    expect(response.type).toBe('text/html');
+    expect(response.text).toContain('User not found');
+  });
+
+  it('should fall back to problem details for unacceptable media types', async () => {
+    const response = await request(createApp(new NotFoundError())).get('/boom').set('Accept', 'image/png');
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+  });
+});
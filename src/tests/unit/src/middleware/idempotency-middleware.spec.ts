@@ -0,0 +1,144 @@
+import bodyParser from 'body-parser';
+import express, { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryIdempotencyStore } from '../../../../idempotency';
+import { errorHandler } from '../../../../middleware/error-handler';
+import { idempotency } from '../../../../middleware/idempotency-middleware';
+
+describe('idempotency', () => {
+  let calls: number;
+  let app: express.Express;
+
+  beforeEach(() => {
+    calls = 0;
+    app = express();
+    app.use(express.json());
+    app.use(idempotency({ store: createInMemoryIdempotencyStore(), ttlMs: 60_000 }));
+    app.post('/items', (req: Request, res: Response) => {
+      calls += 1;
+      res
+        .status(StatusCodes.CREATED)
+        .set('Location', `/items/${calls}`)
+        .send({ id: calls, ...req.body });
+    });
+    app.delete('/items/:id', (req: Request, res: Response) => {
+      calls += 1;
+      res.status(StatusCodes.NO_CONTENT).end();
+    });
+    // parses its own body, after the idempotency middleware
+    app.post('/notes', bodyParser.raw({ type: 'text/plain' }), (req: Request, res: Response) => {
+      calls += 1;
+      res.status(StatusCodes.CREATED).send({ id: calls, text: req.body.toString('utf8') });
+    });
+    app.post('/flaky', (req: Request, res: Response, next: NextFunction) => {
+      calls += 1;
+      if (calls === 1) return next(new Error('database unavailable'));
+      return res.send({ ok: true });
+    });
+    app.use(errorHandler);
+  });
+
+  const post = (path: string, body: object, key = 'key-1') =>
+    request(app).post(path).set('Idempotency-Key', key).send(body);
+
+  it('should replay the first response for a repeated key', async () => {
+    const first = await post('/items', { name: 'a' });
+    const second = await post('/items', { name: 'a' });
+
+    expect(calls).toBe(1);
+    expect(second.status).toBe(StatusCodes.CREATED);
+    expect(second.body).toEqual(first.body);
+    expect(second.headers).toMatchObject({ location: '/items/1', 'idempotent-replayed': 'true' });
+    expect(first.headers).not.toHaveProperty('idempotent-replayed');
+  });
+
+  it('should replay responses without a body', async () => {
+    await request(app).delete('/items/1').set('Idempotency-Key', 'key-1');
+    const second = await request(app).delete('/items/1').set('Idempotency-Key', 'key-1');
+
+    expect(calls).toBe(1);
+    expect(second.status).toBe(StatusCodes.NO_CONTENT);
+  });
+
+  it('should handle requests with different keys or no key separately', async () => {
+    await post('/items', { name: 'a' }, 'key-1');
+    await post('/items', { name: 'a' }, 'key-2');
+    await request(app).post('/items').send({ name: 'a' });
+    await request(app).post('/items').send({ name: 'a' });
+
+    expect(calls).toBe(4);
+  });
+
+  it('should return 422 when a key is reused for a different request', async () => {
+    await post('/items', { name: 'a' });
+    const response = await post('/items', { name: 'b' });
+
+    expect(response.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    expect(response.body).toHaveProperty('type', 'urn:problem-type:unprocessable-entity');
+    expect(calls).toBe(1);
+  });
+
+  it('should fingerprint bodies that the route parses itself', async () => {
+    const postNote = (text: string) =>
+      request(app).post('/notes').set('Idempotency-Key', 'key-1').set('Content-Type', 'text/plain').send(text);
+
+    const first = await postNote('first');
+    const replayed = await postNote('first');
+    const different = await postNote('second');
+
+    expect(first.body).toEqual({ id: 1, text: 'first' });
+    expect(replayed.headers).toHaveProperty('idempotent-replayed', 'true');
+    expect(different.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    expect(calls).toBe(1);
+  });
+
+  it('should return 422 when a key is reused with another Content-Type or Accept', async () => {
+    await post('/items', { name: 'a' });
+    const otherType = await request(app)
+      .post('/items')
+      .set('Idempotency-Key', 'key-1')
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ name: 'a' }));
+    const otherAccept = await post('/items', { name: 'a' }).set('Accept', 'application/xml');
+
+    expect(otherType.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    expect(otherAccept.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    expect(calls).toBe(1);
+  });
+
+  it('should not store server errors, so the request can be retried', async () => {
+    const failed = await post('/flaky', {});
+    const retried = await post('/flaky', {});
+
+    expect(failed.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+    expect(retried.status).toBe(StatusCodes.OK);
+    expect(calls).toBe(2);
+  });
+
+  it('should return 409 while the first request is still being handled', async () => {
+    let finish: (() => void) | undefined;
+    app = express();
+    app.use(idempotency({ store: createInMemoryIdempotencyStore() }));
+    app.post('/slow', (req: Request, res: Response) => {
+      finish = () => res.send({ ok: true });
+    });
+    app.use(errorHandler);
+
+    const first = post('/slow', {}).then((response) => response);
+    await vi.waitFor(() => expect(finish).toBeDefined());
+    const second = await post('/slow', {});
+    finish!();
+
+    expect(second.status).toBe(StatusCodes.CONFLICT);
+    expect((await first).status).toBe(StatusCodes.OK);
+  });
+
+  it('should reject an overlong key', async () => {
+    const response = await post('/items', {}, 'k'.repeat(256));
+
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    expect(calls).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLogger, LogLevel, REDACTED, requestContext } from '../../../../logging';
+import { logger } from '../../../../middleware/logger';
+
+describe('logger', () => {
+  let lines: Record<string, unknown>[];
+
+  function createApp(level: LogLevel = 'info') {
+    const testLogger = createLogger({ level, redact: ['email'], write: (line) => lines.push(JSON.parse(line)) });
+
+    const app = express();
+    app.use((req: Request, res: Response, next: NextFunction) =>
+      requestContext.run({ requestId: 'req-1', logger: testLogger.child({ requestId: 'req-1' }) }, next),
+    );
+    app.use(logger);
+    app.use(express.json());
+    app.post('/users', (req: Request, res: Response) => res.status(201).send({}));
+    app.get('/missing', (req: Request, res: Response) => res.status(404).send({}));
+    app.get('/broken', (req: Request, res: Response) => res.status(500).send({}));
+
+    return app;
+  }
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should log one line per request with the request id', async () => {
+    await request(createApp()).post('/users').send({ email: 'jane@example.com' });
+
+    expect(lines).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        msg: 'request completed',
+        requestId: 'req-1',
+        method: 'POST',
+        path: '/users',
+        status: 201,
+        durationMs: expect.any(Number),
+        ip: expect.any(String),
+      },
+    ]);
+  });
+
+  it('should log client errors as warnings and server errors as errors', async () => {
+    const app = createApp();
+
+    await request(app).get('/missing');
+    await request(app).get('/broken');
+
+    expect(lines.map(({ level, status }) => [level, status])).toEqual([
+      ['warn', 404],
+      ['error', 500],
+    ]);
+  });
+
+  it('should log the query parameters with the configured ones redacted', async () => {
+    await request(createApp()).get('/missing?email=jane@example.com&limit=10&tag=a&tag=b');
+
+    expect(lines[0]).toMatchObject({ path: '/missing', query: { email: REDACTED, limit: '10', tag: ['a', 'b'] } });
+    expect(JSON.stringify(lines[0])).not.toContain('jane@example.com');
+  });
+
+  it('should include the redacted body at debug level', async () => {
+    await request(createApp('debug')).post('/users').send({ firstName: 'Jane', email: 'jane@example.com' });
+
+    expect(lines[0].body).toEqual({ firstName: 'Jane', email: REDACTED });
+  });
+});
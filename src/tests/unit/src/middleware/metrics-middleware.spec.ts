@@ -0,0 +1,87 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import Joi from 'joi';
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createInMemoryIdempotencyStore } from '../../../../idempotency';
+import { createMetrics, Metrics } from '../../../../metrics';
+import { authenticate } from '../../../../middleware/auth-middleware';
+import { errorHandler } from '../../../../middleware/error-handler';
+import { idempotency } from '../../../../middleware/idempotency-middleware';
+import { collectHttpMetrics } from '../../../../middleware/metrics-middleware';
+import { createInMemoryUserRepository } from '../../../../repositories/user';
+import { authorizedRequest } from '../../../../tests/helpers/auth';
+
+describe('collectHttpMetrics', () => {
+  let metrics: Metrics;
+  let app: express.Express;
+
+  beforeEach(() => {
+    metrics = createMetrics(createInMemoryUserRepository([]));
+
+    const itemRouter = express.Router();
+    itemRouter.get('/', (req: Request, res: Response) => res.send([]));
+    itemRouter.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+      if (Joi.string().uuid().validate(req.params.id).error) return next(new Error('invalid id'));
+      return res.send({ id: req.params.id });
+    });
+    itemRouter.post('/', (req: Request, res: Response) => res.status(StatusCodes.CREATED).send(req.body));
+
+    app = express();
+    app.use(collectHttpMetrics(metrics));
+    app.use(express.json());
+    app.use('/items', authenticate(), idempotency({ store: createInMemoryIdempotencyStore() }), itemRouter);
+    app.use(errorHandler);
+  });
+
+  const counters = async () => (await metrics.httpRequests.get()).values;
+
+  it('should count requests by route template, method and status', async () => {
+    await authorizedRequest(app).get('/items');
+    await authorizedRequest(app).get('/items/123e4567-e89b-12d3-a456-426614174000');
+    await authorizedRequest(app).get('/items/223e4567-e89b-12d3-a456-426614174000');
+
+    expect(await counters()).toEqual([
+      { labels: { method: 'GET', route: '/items', status: '200' }, value: 1 },
+      { labels: { method: 'GET', route: '/items/:id', status: '200' }, value: 2 },
+    ]);
+  });
+
+  it('should keep the template of routes that fail after leaving their router', async () => {
+    await authorizedRequest(app).get('/items/not-a-uuid');
+
+    expect(await counters()).toEqual([{ labels: { method: 'GET', route: '/items/:id', status: '500' }, value: 1 }]);
+  });
+
+  it('should label responses sent by middleware in front of a route with its template', async () => {
+    await request(app).get('/items/123e4567-e89b-12d3-a456-426614174000');
+    const post = () => authorizedRequest(app).post('/items').set('Idempotency-Key', 'key-1').send({ name: 'a' });
+    await post();
+    const replayed = await post();
+
+    expect(replayed.status).toBe(StatusCodes.CREATED);
+    expect(await counters()).toEqual([
+      { labels: { method: 'GET', route: '/items/:id', status: '401' }, value: 1 },
+      { labels: { method: 'POST', route: '/items', status: '201' }, value: 2 },
+    ]);
+  });
+
+  it('should label requests that match no route as unmatched', async () => {
+    await request(app).get('/nothing/here');
+
+    expect(await counters()).toEqual([{ labels: { method: 'GET', route: 'unmatched', status: '404' }, value: 1 }]);
+  });
+
+  it('should time every request', async () => {
+    await authorizedRequest(app).get('/items');
+
+    const { values } = await metrics.httpRequestDuration.get();
+    expect(values).toContainEqual(
+      expect.objectContaining({
+        metricName: 'http_request_duration_seconds_count',
+        labels: { method: 'GET', route: '/items', status: '200' },
+        value: 1,
+      }),
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PreconditionFailedError, PreconditionRequiredError } from '../../../../errors';
+import { checkIfMatch } from '../../../../middleware/precondition-middleware';
+
+describe('checkIfMatch', () => {
+  const etag = '"abc"';
+
+  let mockRequest: Partial<Request>;
+  let mockNext: NextFunction;
+  let ifMatch: string | undefined;
+
+  beforeEach(() => {
+    ifMatch = undefined;
+    mockNext = vi.fn();
+    mockRequest = { get: vi.fn(() => ifMatch) as unknown as Request['get'] };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const run = (currentETag: string | undefined, required = false) =>
+    checkIfMatch(() => currentETag, required)(mockRequest as Request, {} as Response, mockNext);
+
+  it('should continue when If-Match matches the current ETag', () => {
+    ifMatch = etag;
+
+    run(etag);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it('should fail with PreconditionFailedError when If-Match does not match', () => {
+    ifMatch = '"stale"';
+
+    run(etag);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith(expect.any(PreconditionFailedError));
+  });
+
+  it('should continue without If-Match unless it is required', () => {
+    run(etag);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+
+  it('should fail with PreconditionRequiredError without If-Match when it is required', () => {
+    run(etag, true);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith(expect.any(PreconditionRequiredError));
+  });
+
+  it('should leave missing resources to the route handler', () => {
+    ifMatch = '"stale"';
+
+    run(undefined, true);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+  });
+});
@@ -0,0 +1,121 @@
+import { NextFunction, Request, Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TooManyRequestsError } from '../../../../errors';
+import { byApiKey, byIp, byPrincipal, rateLimit } from '../../../../middleware/rate-limit-middleware';
+import { createInMemoryRateLimitStore, RateLimitStore } from '../../../../rate-limit';
+
+describe('rateLimit', () => {
+  let store: RateLimitStore;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+  let headers: Record<string, string>;
+
+  const mockRequest = (request: Partial<Request> = {}) =>
+    ({ ip: '203.0.113.7', get: vi.fn(() => undefined), ...request }) as unknown as Request;
+
+  beforeEach(() => {
+    store = createInMemoryRateLimitStore();
+    headers = {};
+    mockNext = vi.fn();
+    mockResponse = {
+      set: vi.fn((field: string | Record<string, string>, value?: string) => {
+        Object.assign(headers, typeof field === 'string' ? { [field]: value } : field);
+        return mockResponse as Response;
+      }) as unknown as Response['set'],
+    };
+  });
+
+  const limiter = (options = {}) => rateLimit({ name: 'test', limit: 2, windowMs: 60_000, store, ...options });
+
+  it('should send the rate limit headers and continue while tokens are left', async () => {
+    await limiter()(mockRequest(), mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith();
+    expect(headers).toEqual({ 'RateLimit-Limit': '2', 'RateLimit-Remaining': '1', 'RateLimit-Reset': '30' });
+  });
+
+  it('should fail with TooManyRequestsError and Retry-After once the bucket is empty', async () => {
+    const middleware = limiter();
+    for (let i = 0; i < 3; i++) {
+      await middleware(mockRequest(), mockResponse as Response, mockNext);
+    }
+
+    expect(mockNext).toHaveBeenLastCalledWith(expect.any(TooManyRequestsError));
+    expect(headers).toMatchObject({ 'RateLimit-Remaining': '0', 'Retry-After': '30' });
+  });
+
+  it('should keep limits with different names apart', async () => {
+    await limiter()(mockRequest(), mockResponse as Response, mockNext);
+    await limiter()(mockRequest(), mockResponse as Response, mockNext);
+    await limiter({ name: 'other' })(mockRequest(), mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenLastCalledWith();
+    expect(headers['RateLimit-Remaining']).toBe('1');
+  });
+
+  it('should charge what the request costs and skip requests that cost nothing', async () => {
+    const costly = limiter({ limit: 5, cost: (req: Request) => Number(req.get('X-Cost')) });
+
+    await costly(
+      mockRequest({ get: vi.fn(() => '3') as unknown as Request['get'] }),
+      mockResponse as Response,
+      mockNext,
+    );
+    expect(headers['RateLimit-Remaining']).toBe('2');
+
+    headers = {};
+    await costly(
+      mockRequest({ get: vi.fn(() => '0') as unknown as Request['get'] }),
+      mockResponse as Response,
+      mockNext,
+    );
+    expect(headers).toEqual({});
+    expect(mockNext).toHaveBeenLastCalledWith();
+  });
+
+  it('should give each API key its own bucket, even from the same IP', async () => {
+    const middleware = limiter({ limit: 1, keyBy: byApiKey });
+    const withApiKey = (apiKey: string) =>
+      mockRequest({ get: vi.fn((name: string) => (name === 'X-API-Key' ? apiKey : undefined)) as Request['get'] });
+
+    await middleware(withApiKey('key-a'), mockResponse as Response, mockNext);
+    await middleware(withApiKey('key-b'), mockResponse as Response, mockNext);
+    expect(mockNext).toHaveBeenLastCalledWith();
+
+    await middleware(withApiKey('key-a'), mockResponse as Response, mockNext);
+    expect(mockNext).toHaveBeenLastCalledWith(expect.any(TooManyRequestsError));
+  });
+
+  it('should pass store failures on', async () => {
+    const failure = new Error('store unavailable');
+    const broken: RateLimitStore = { take: vi.fn().mockRejectedValue(failure) };
+
+    await limiter({ store: broken })(mockRequest(), mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledExactlyOnceWith(failure);
+  });
+
+  describe('keys', () => {
+    it('should key by IP', () => {
+      expect(byIp(mockRequest())).toBe('ip:203.0.113.7');
+    });
+
+    it('should key by principal, falling back to the IP', () => {
+      const principal = { subject: 'alice', roles: [] };
+
+      expect(byPrincipal(mockRequest({ principal }))).toBe('principal:alice');
+      expect(byPrincipal(mockRequest())).toBe('ip:203.0.113.7');
+    });
+
+    it('should key by client, then by a hash of the API key, falling back to the IP', () => {
+      const principal = { subject: 'reporting', roles: [], clientId: 'reporting-client' };
+      const get = vi.fn(() => 'secret') as unknown as Request['get'];
+
+      expect(byApiKey(mockRequest({ principal, get }))).toBe('client:reporting-client');
+      expect(byApiKey(mockRequest({ get }))).toBe(
+        'api-key:2bb80d537b1da3e38bd30361aa855686bde0eacd7162fef6a25fe97bf527a25b',
+      );
+      expect(byApiKey(mockRequest())).toBe('ip:203.0.113.7');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { getLogger, preserveRequestContext, requestContext } from '../../../../logging';
+import { requestId } from '../../../../middleware/request-id-middleware';
+
+describe('requestId', () => {
+  function createApp() {
+    const app = express();
+    app.use(requestId());
+    app.use(preserveRequestContext(express.json()));
+    app.post('/echo', async (req: Request, res: Response) => {
+      // still available after the body was parsed and after awaiting
+      await new Promise((resolve) => setImmediate(resolve));
+      res.send({ requestId: req.requestId, contextId: requestContext.getStore()?.requestId });
+    });
+
+    return app;
+  }
+
+  it('should generate a request id and echo it', async () => {
+    const response = await request(createApp()).post('/echo').send({ name: 'a' });
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body).toEqual({
+      requestId: response.headers['x-request-id'],
+      contextId: response.headers['x-request-id'],
+    });
+  });
+
+  it('should keep the id sent by the caller', async () => {
+    const response = await request(createApp()).post('/echo').set('X-Request-Id', 'req-123').send({});
+
+    expect(response.headers['x-request-id']).toBe('req-123');
+    expect(response.body.contextId).toBe('req-123');
+  });
+
+  it('should replace ids that are not plain tokens', async () => {
+    const response = await request(createApp()).post('/echo').set('X-Request-Id', 'a b\t"c"').send({});
+
+    expect(response.headers['x-request-id']).not.toBe('a b\t"c"');
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should fall back to the root logger outside of a request', () => {
+    expect(requestContext.getStore()).toBeUndefined();
+    expect(getLogger()).toBeDefined();
+  });
+});
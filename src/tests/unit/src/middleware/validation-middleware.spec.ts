@@ -2,7 +2,8 @@ import { NextFunction, Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import Joi from 'joi';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { validateRequest } from '../../../../middleware/validation-middleware';
+import { ValidationFailedError } from '../../../../errors';
+import { validateBodyByType, validateRequest } from '../../../../middleware/validation-middleware';
 
 describe('validateRequest', () => {
   let mockRequest: Partial<Request>;
@@ -34,6 +35,9 @@ describe('validateRequest', () => {
     vi.clearAllMocks();
   });
 
+  // the error passed on to the error handler
+  const validationError = () => vi.mocked(mockNext).mock.calls[0][0] as unknown as ValidationFailedError;
+
   describe('body validation', () => {
     const testSchema = Joi.object({
       name: Joi.string().required(),
@@ -51,7 +55,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(testSchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
       expect(statusMock).not.toHaveBeenCalled();
       expect(jsonMock).not.toHaveBeenCalled();
     });
@@ -73,7 +77,7 @@ describe('validateRequest', () => {
         email: 'john@example.com',
         // extraField should be stripped due to stripUnknown: true
       });
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
     });
 
     it('should return 400 error for invalid body data', () => {
@@ -86,10 +90,10 @@ describe('validateRequest', () => {
       const middleware = validateRequest(testSchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationFailedError));
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: expect.any(String),
@@ -97,7 +101,8 @@ describe('validateRequest', () => {
           }),
         ]),
       });
-      expect(mockNext).not.toHaveBeenCalled();
+      expect(statusMock).not.toHaveBeenCalled();
+      expect(jsonMock).not.toHaveBeenCalled();
     });
 
     it('should return all validation errors when abortEarly is false', () => {
@@ -110,9 +115,9 @@ describe('validateRequest', () => {
       const middleware = validateRequest(testSchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: 'name',
@@ -148,7 +153,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(querySchema, 'query');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
       expect(statusMock).not.toHaveBeenCalled();
     });
 
@@ -166,7 +171,7 @@ describe('validateRequest', () => {
         limit: 10, // default value applied
         search: 'test',
       });
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
     });
 
     it('should return 400 for invalid query parameters', () => {
@@ -178,10 +183,10 @@ describe('validateRequest', () => {
       const middleware = validateRequest(querySchema, 'query');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationFailedError));
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: 'page',
@@ -211,7 +216,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(paramsSchema, 'params');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
       expect(statusMock).not.toHaveBeenCalled();
     });
 
@@ -224,10 +229,10 @@ describe('validateRequest', () => {
       const middleware = validateRequest(paramsSchema, 'params');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationFailedError));
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: 'id',
@@ -261,7 +266,7 @@ describe('validateRequest', () => {
         name: 'John',
         // unknownField and anotherUnknown should be stripped
       });
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
     });
 
     it('should handle nested object validation', () => {
@@ -286,10 +291,10 @@ describe('validateRequest', () => {
       const middleware = validateRequest(nestedSchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationFailedError));
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: 'user.details.age',
@@ -323,10 +328,10 @@ describe('validateRequest', () => {
       const middleware = validateRequest(arraySchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
-      expect(jsonMock).toHaveBeenCalledWith({
-        status: 'error',
-        message: 'Validation error',
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationFailedError));
+      expect(validationError()).toMatchObject({
+        status: StatusCodes.BAD_REQUEST,
+        title: 'Validation error',
         details: expect.arrayContaining([
           expect.objectContaining({
             path: 'items.1.name',
@@ -341,6 +346,18 @@ describe('validateRequest', () => {
     });
   });
 
+  describe('error reporting', () => {
+    it('should describe which part of the request failed', () => {
+      const schema = Joi.object({ id: Joi.string().uuid().required() });
+      mockRequest.params = { id: 'nope' };
+
+      validateRequest(schema, 'params')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(validationError().message).toBe('Request params failed validation');
+      expect(validationError().extensions).toEqual({ details: validationError().details });
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty request data', () => {
       const schema = Joi.object({
@@ -352,7 +369,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(schema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
     });
 
     it('should handle null request data', () => {
@@ -365,7 +382,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(schema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(statusMock).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+      expect(validationError()).toHaveProperty('status', StatusCodes.BAD_REQUEST);
     });
 
     it('should handle undefined request data', () => {
@@ -380,7 +397,7 @@ describe('validateRequest', () => {
 
       // Joi treats undefined as an empty object {} when stripUnknown is true
       // Since all fields are optional in this case, validation passes
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
     });
 
     it('should format error details correctly', () => {
@@ -397,7 +414,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(schema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      const callArgs = jsonMock.mock.calls[0][0];
+      const callArgs = validationError();
       expect(callArgs.details).toHaveLength(2);
       expect(callArgs.details[0]).toHaveProperty('path');
       expect(callArgs.details[0]).toHaveProperty('message');
@@ -427,7 +444,7 @@ describe('validateRequest', () => {
       const middleware = validateRequest(userSchema, 'body');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
       expect(statusMock).not.toHaveBeenCalled();
     });
 
@@ -443,8 +460,37 @@ describe('validateRequest', () => {
       const middleware = validateRequest(idSchema, 'params');
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalledOnce();
+      expect(mockNext).toHaveBeenCalledExactlyOnceWith();
       expect(statusMock).not.toHaveBeenCalled();
     });
   });
 });
+
+describe('validateBodyByType', () => {
+  const middleware = validateBodyByType(Joi.object({ name: Joi.string().required() }), {
+    'application/json-patch+json': Joi.array().items(Joi.object({ op: Joi.string().required() })),
+  });
+
+  const requestWith = (contentType: string, body: unknown) =>
+    ({ body, is: (types: string[]) => types.find((type) => type === contentType) ?? false }) as unknown as Request;
+
+  it('should validate against the schema for the media type', () => {
+    const next = vi.fn();
+
+    middleware(requestWith('application/json-patch+json', [{ op: 'remove' }]), {} as Response, next);
+    middleware(requestWith('application/json-patch+json', { name: 'John' }), {} as Response, next);
+
+    expect(next.mock.calls[0]).toEqual([]);
+    expect(next.mock.calls[1][0]).toBeInstanceOf(ValidationFailedError);
+  });
+
+  it('should validate other media types against the default schema', () => {
+    const next = vi.fn();
+
+    middleware(requestWith('application/json', { name: 'John' }), {} as Response, next);
+    middleware(requestWith('application/xml', [{ op: 'remove' }]), {} as Response, next);
+
+    expect(next.mock.calls[0]).toEqual([]);
+    expect(next.mock.calls[1][0]).toBeInstanceOf(ValidationFailedError);
+  });
+});
@@ -0,0 +1,156 @@
+import express from 'express';
+import Joi from 'joi';
+import { describe, expect, it } from 'vitest';
+import { authenticate, authorize } from '../../../../middleware/auth-middleware';
+import { parseBody, respondWith } from '../../../../middleware/content-negotiation-middleware';
+import { checkIfMatch } from '../../../../middleware/precondition-middleware';
+import { rateLimit } from '../../../../middleware/rate-limit-middleware';
+import { validateBodyByType, validateRequest } from '../../../../middleware/validation-middleware';
+import { generateOpenApiDocument } from '../../../../openapi/generate-document';
+import { formats, jsonFormat, jsonPatchFormat, mediaTypesOf } from '../../../../serialization';
+
+const noop = () => undefined;
+
+function createApiRouter() {
+  const itemRouter = express.Router();
+  itemRouter.get(
+    '/:id',
+    authorize('user:read'),
+    validateRequest(Joi.object({ id: Joi.string().uuid() }), 'params'),
+    noop,
+  );
+  itemRouter.delete(
+    '/:id',
+    checkIfMatch(() => undefined, true),
+    noop,
+  );
+  itemRouter.post(
+    '/',
+    rateLimit({ name: 'create-item', limit: 10, windowMs: 60_000 }),
+    validateRequest(Joi.object({ name: Joi.string().required() }), 'body'),
+    noop,
+  );
+
+  const router = express.Router();
+  router.get('/status', validateRequest(Joi.object({ verbose: Joi.boolean() }), 'query'), noop);
+  router.use('/items', authenticate(), itemRouter);
+
+  return router;
+}
+
+describe('generateOpenApiDocument', () => {
+  it('should describe every route under its mount path', () => {
+    const document = generateOpenApiDocument(createApiRouter());
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'API Demo - Node.js', version: '0.0.0' });
+    expect(Object.keys(document.paths)).toEqual(['/status', '/items/{id}', '/items']);
+    expect(Object.keys(document.paths['/items/{id}'])).toEqual(['get', 'delete']);
+  });
+
+  it('should derive path and query parameters from validation schemas', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+
+    expect(paths['/items/{id}'].get.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+    ]);
+    expect(paths['/status'].get.parameters).toEqual([
+      { name: 'verbose', in: 'query', required: false, schema: { type: 'boolean' } },
+    ]);
+  });
+
+  it('should derive the request body from the body schema', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+
+    expect(paths['/items'].post.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        },
+      },
+    });
+  });
+
+  it('should mark routes behind authenticate and authorize', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+    const getItem = paths['/items/{id}'].get;
+
+    expect(getItem.security).toEqual([{ bearerAuth: [] }]);
+    expect(getItem['x-permission']).toBe('user:read');
+    expect(Object.keys(getItem.responses)).toEqual(['400', '401', '403', '404', '2XX']);
+    expect(paths['/status'].get.security).toBeUndefined();
+    expect(Object.keys(paths['/status'].get.responses)).toEqual(['400', '2XX']);
+  });
+
+  it('should document If-Match preconditions', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+    const deleteItem = paths['/items/{id}'].delete;
+
+    expect(deleteItem.parameters).toContainEqual({
+      name: 'If-Match',
+      in: 'header',
+      required: true,
+      schema: { type: 'string' },
+    });
+    expect(deleteItem.responses).toHaveProperty('412');
+    expect(deleteItem.responses).toHaveProperty('428');
+  });
+
+  it('should document rate limits', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+
+    expect(paths['/items'].post.responses['429']).toMatchObject({
+      description: 'More than 10 requests per 60 seconds',
+    });
+  });
+
+  it('should name operations after their method and path', () => {
+    const { paths } = generateOpenApiDocument(createApiRouter());
+
+    expect(paths['/items/{id}'].get).toMatchObject({ operationId: 'getItemsById', tags: ['items'] });
+    expect(paths['/items'].post).toMatchObject({ operationId: 'postItems', tags: ['items'] });
+  });
+
+  it('should document the media types a route consumes and produces', () => {
+    const router = express
+      .Router()
+      .post('/things', respondWith(), parseBody(), validateRequest(Joi.object({ name: Joi.string() }), 'body'), noop);
+    const { paths } = generateOpenApiDocument(router);
+    const postThings = paths['/things'].post;
+
+    expect(Object.keys(postThings.requestBody?.content ?? {})).toEqual(mediaTypesOf(formats));
+    expect(Object.keys(postThings.responses['2XX'].content ?? {})).toEqual([
+      'application/json',
+      'application/xml',
+      'text/csv',
+      'application/msgpack',
+    ]);
+    expect(postThings.responses).toHaveProperty('406');
+    expect(postThings.responses).toHaveProperty('415');
+  });
+
+  it('should use the body schema given for a media type', () => {
+    const router = express
+      .Router()
+      .patch(
+        '/things/:id',
+        parseBody([jsonFormat, jsonPatchFormat]),
+        validateBodyByType(Joi.object({ name: Joi.string() }), { 'application/json-patch+json': Joi.array() }),
+        noop,
+      );
+    const { content } = generateOpenApiDocument(router).paths['/things/{id}'].patch.requestBody!;
+
+    expect(content['application/json'].schema).toMatchObject({ type: 'object' });
+    expect(content['application/json-patch+json'].schema).toMatchObject({ type: 'array' });
+  });
+
+  it('should leave out excluded routers', () => {
+    const router = createApiRouter();
+    const hidden = express.Router().get('/secret', noop);
+    router.use(hidden);
+
+    expect(generateOpenApiDocument(router, { exclude: [hidden] }).paths['/secret']).toBeUndefined();
+    expect(generateOpenApiDocument(router).paths['/secret']).toBeDefined();
+  });
+});
@@ -0,0 +1,66 @@
+import Joi from 'joi';
+import { describe, expect, it } from 'vitest';
+import { joiToJsonSchema } from '../../../../openapi/joi-to-json-schema';
+import { userCreateSchema, userListQuerySchema } from '../../../../validation/schemas/user.schema';
+
+describe('joiToJsonSchema', () => {
+  it('should convert string formats and patterns', () => {
+    expect(joiToJsonSchema(Joi.string().email())).toEqual({ type: 'string', format: 'email' });
+    expect(joiToJsonSchema(Joi.string().uuid())).toEqual({ type: 'string', format: 'uuid' });
+    expect(joiToJsonSchema(Joi.string().pattern(/^\d+$/).min(2).max(5))).toEqual({
+      type: 'string',
+      pattern: '^\\d+$',
+      minLength: 2,
+      maxLength: 5,
+    });
+  });
+
+  it('should convert number bounds, integers and defaults', () => {
+    expect(joiToJsonSchema(Joi.number().integer().min(1).max(100).default(20))).toEqual({
+      type: 'integer',
+      minimum: 1,
+      maximum: 100,
+      default: 20,
+    });
+  });
+
+  it('should convert allowed values to an enum', () => {
+    expect(joiToJsonSchema(Joi.string().valid('a', 'b'))).toEqual({ type: 'string', enum: ['a', 'b'] });
+  });
+
+  it('should mark nullable values', () => {
+    expect(joiToJsonSchema(Joi.string().allow(null))).toEqual({ type: ['string', 'null'] });
+  });
+
+  it('should convert dates to date-time strings', () => {
+    expect(joiToJsonSchema(Joi.date().iso())).toEqual({ type: 'string', format: 'date-time' });
+  });
+
+  it('should convert arrays and alternatives', () => {
+    expect(joiToJsonSchema(Joi.array().items(Joi.string()).max(3))).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      maxItems: 3,
+    });
+    expect(joiToJsonSchema(Joi.alternatives().try(Joi.string(), Joi.number()))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+  });
+
+  it('should convert object properties and required keys', () => {
+    const schema = joiToJsonSchema(userCreateSchema);
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['firstName', 'lastName']);
+    expect(schema.properties).toMatchObject({
+      firstName: { type: 'string' },
+      email: { type: 'string', format: 'email' },
+    });
+  });
+
+  it('should express mutually exclusive keys', () => {
+    const schema = joiToJsonSchema(userListQuerySchema);
+
+    expect(schema.allOf).toEqual([{ not: { anyOf: [{ required: ['cursor', 'offset'] }] } }]);
+  });
+});
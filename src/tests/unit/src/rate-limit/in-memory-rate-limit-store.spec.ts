@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createInMemoryRateLimitStore, RateLimitStore } from '../../../../rate-limit';
+
+describe('createInMemoryRateLimitStore', () => {
+  // 3 tokens, one back every second
+  const bucket = { limit: 3, windowMs: 3000 };
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    store = createInMemoryRateLimitStore();
+  });
+
+  it('should allow a burst up to the limit and then refuse', async () => {
+    const states = [];
+    for (let i = 0; i < 4; i++) {
+      states.push(await store.take('client', bucket, { now: 0 }));
+    }
+
+    expect(states.map(({ allowed, remaining }) => [allowed, remaining])).toEqual([
+      [true, 2],
+      [true, 1],
+      [true, 0],
+      [false, 0],
+    ]);
+    expect(states[3]).toMatchObject({ retryAfterMs: 1000, resetMs: 3000 });
+  });
+
+  it('should refill tokens over time, up to the limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.take('client', bucket, { now: 0 });
+    }
+
+    expect(await store.take('client', bucket, { now: 1500 })).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await store.take('client', bucket, { now: 60_000 })).toMatchObject({
+      allowed: true,
+      remaining: 2,
+      resetMs: 1000,
+    });
+  });
+
+  it('should not charge refused requests', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.take('client', bucket, { now: 0 });
+    }
+    await store.take('client', bucket, { now: 500 });
+
+    expect(await store.take('client', bucket, { now: 1000 })).toMatchObject({ allowed: true });
+  });
+
+  it('should charge the cost of a request', async () => {
+    expect(await store.take('client', bucket, { cost: 2, now: 0 })).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await store.take('client', bucket, { cost: 2, now: 0 })).toMatchObject({
+      allowed: false,
+      retryAfterMs: 1000,
+    });
+  });
+
+  it('should let a request costing more than the limit through on a full bucket and then wait for the debt', async () => {
+    expect(await store.take('client', bucket, { cost: 5, now: 0 })).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await store.take('client', bucket, { now: 0 })).toMatchObject({ allowed: false, retryAfterMs: 3000 });
+    expect(await store.take('client', bucket, { now: 3000 })).toMatchObject({ allowed: true });
+  });
+
+  it('should keep a separate bucket per key', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.take('first', bucket, { now: 0 });
+    }
+
+    expect(await store.take('first', bucket, { now: 0 })).toMatchObject({ allowed: false });
+    expect(await store.take('second', bucket, { now: 0 })).toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
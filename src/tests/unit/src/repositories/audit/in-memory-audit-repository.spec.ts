@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { createInMemoryAuditRepository } from '../../../../../repositories/audit';
+
+describe('createInMemoryAuditRepository', () => {
+  const entry: Omit<AuditEntry, 'id'> = {
+    userId: '123e4567-e89b-12d3-a456-426614174000',
+    actor: 'admin',
+    action: 'update',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    changes: { firstName: { before: 'John', after: 'Johnny' } },
+  };
+
+  it('should assign increasing ids in append order', () => {
+    const store: AuditEntry[] = [];
+    const repository = createInMemoryAuditRepository(store);
+
+    expect(repository.append(entry).id).toBe(1);
+    expect(repository.append(entry).id).toBe(2);
+    expect(store.map(({ id }) => id)).toEqual([1, 2]);
+  });
+
+  it('should list entries as a copy of the backing store', () => {
+    const repository = createInMemoryAuditRepository([]);
+    repository.append(entry);
+
+    const listed = repository.list();
+    listed.pop();
+
+    expect(repository.list()).toHaveLength(1);
+  });
+
+  it('should not allow appended entries to be modified', () => {
+    const appended = createInMemoryAuditRepository([]).append(entry);
+
+    expect(() => {
+      appended.actor = 'someone-else';
+    }).toThrowError(TypeError);
+  });
+});
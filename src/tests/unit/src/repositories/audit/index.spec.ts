@@ -0,0 +1,24 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createAuditRepository } from '../../../../../repositories/audit';
+
+describe('createAuditRepository', () => {
+  it('should create a sqlite store in the users database file', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+
+    try {
+      const repository = createAuditRepository('sqlite', path.join(tempDir, 'users.sqlite'));
+
+      expect(repository.list()).toEqual([]);
+      expect(fs.existsSync(path.join(tempDir, 'users.sqlite'))).toBe(true);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should throw for an unknown store', () => {
+    expect(() => createAuditRepository('postgres')).toThrowError('Unknown audit store "postgres"');
+  });
+});
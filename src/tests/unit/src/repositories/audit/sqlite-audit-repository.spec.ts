@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { Database } from 'node-sqlite3-wasm';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuditEntry } from '../../../../../models/audit-model';
+import { createSqliteAuditRepository } from '../../../../../repositories/audit/sqlite-audit-repository';
+
+describe('createSqliteAuditRepository', () => {
+  let tempDir: string;
+  let filename: string;
+
+  const entry: Omit<AuditEntry, 'id'> = {
+    userId: '123e4567-e89b-12d3-a456-426614174000',
+    actor: 'admin',
+    action: 'update',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    changes: { firstName: { before: 'John', after: 'Johnny' } },
+    requestId: 'req-1',
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    filename = path.join(tempDir, 'users.sqlite');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append entries and read them back in order', () => {
+    const repository = createSqliteAuditRepository(filename);
+    const { requestId, ...withoutRequestId } = entry;
+
+    const first = repository.append(entry);
+    const second = repository.append({ ...withoutRequestId, action: 'delete' });
+
+    expect(first).toEqual({ ...entry, id: 1 });
+    expect(second).toEqual({ ...withoutRequestId, action: 'delete', id: 2 });
+    expect(repository.list()).toEqual([first, second]);
+  });
+
+  it('should persist entries across instances using the same file', () => {
+    createSqliteAuditRepository(filename).append(entry);
+
+    expect(createSqliteAuditRepository(filename).list()).toEqual([{ ...entry, id: 1 }]);
+  });
+
+  it('should refuse to update or delete entries', () => {
+    createSqliteAuditRepository(filename).append(entry);
+    const db = new Database(filename);
+
+    try {
+      expect(() => db.run(`UPDATE audit_entries SET actor = 'someone-else'`)).toThrowError(/immutable/);
+      expect(() => db.run('DELETE FROM audit_entries')).toThrowError(/immutable/);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { User } from '../../../../../models/users-model';
+import { createInMemoryUserRepository } from '../../../../../repositories/user/in-memory-user-repository';
+import { UserRepository } from '../../../../../repositories/user/user-repository';
+
+describe('createInMemoryUserRepository', () => {
+  let store: User[];
+  let repository: UserRepository;
+
+  const john: User = {
+    id: '1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const jane: User = {
+    id: '2',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    email: 'jane.smith@example.com',
+    phone: '+1-555-987-6543',
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    store = [john, jane];
+    repository = createInMemoryUserRepository(store);
+  });
+
+  it('should find a user by id', () => {
+    expect(repository.find('2')).toEqual(jane);
+  });
+
+  it('should return undefined when a user is not found', () => {
+    expect(repository.find('missing')).toBeUndefined();
+  });
+
+  it('should list users as a copy of the backing store', () => {
+    const result = repository.list();
+
+    expect(result).toEqual([john, jane]);
+    expect(result).not.toBe(store);
+  });
+
+  it('should append created users to the backing store', () => {
+    const bob = { ...john, id: '3', firstName: 'Bob' };
+
+    expect(repository.create(bob)).toEqual(bob);
+    expect(store).toHaveLength(3);
+    expect(store[2]).toBe(bob);
+  });
+
+  it('should replace a user in place on update', () => {
+    const updated = { ...jane, lastName: 'Updated' };
+
+    expect(repository.update('2', updated)).toEqual(updated);
+    expect(store[1]).toBe(updated);
+  });
+
+  it('should return undefined when updating a missing user', () => {
+    expect(repository.update('missing', john)).toBeUndefined();
+    expect(store).toEqual([john, jane]);
+  });
+
+  it('should remove and return a deleted user', () => {
+    expect(repository.delete('1')).toEqual(john);
+    expect(store).toEqual([jane]);
+  });
+
+  it('should return undefined when deleting a missing user', () => {
+    expect(repository.delete('missing')).toBeUndefined();
+    expect(store).toHaveLength(2);
+  });
+});
@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { users } from '../../../../../models/users-model';
+import { createUserRepository } from '../../../../../repositories/user';
+
+describe('createUserRepository', () => {
+  it('should default to the in-memory store backed by the users model', () => {
+    const repository = createUserRepository('memory');
+
+    expect(repository.list()).toEqual(users);
+  });
+
+  it('should create a seeded sqlite store', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'users-'));
+
+    try {
+      const repository = createUserRepository('sqlite', path.join(tempDir, 'users.sqlite'));
+
+      expect(repository.list()).toHaveLength(users.length);
+      expect(fs.existsSync(path.join(tempDir, 'users.sqlite'))).toBe(true);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should throw for an unknown store', () => {
+    expect(() => createUserRepository('postgres')).toThrowError('Unknown user store "postgres"');
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import { Database } from 'node-sqlite3-wasm';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { User } from '../../../../../models/users-model';
+import { createSqliteUserRepository } from '../../../../../repositories/user/sqlite-user-repository';
+
+describe('createSqliteUserRepository', () => {
+  let tempDir: string;
+  let filename: string;
+
+  const john: User = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const jane: User = {
+    id: '223e4567-e89b-12d3-a456-426614174001',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    email: 'jane.smith@example.com',
+    phone: '+1-555-987-6543',
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'users-'));
+    filename = path.join(tempDir, 'users.sqlite');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should seed a freshly created database', () => {
+    const repository = createSqliteUserRepository(filename, [john, jane]);
+
+    expect(repository.list()).toEqual([john, jane]);
+  });
+
+  it('should not reseed an existing database that has been emptied', () => {
+    const repository = createSqliteUserRepository(filename, [john]);
+    repository.delete(john.id);
+
+    const reopened = createSqliteUserRepository(filename, [john]);
+
+    expect(reopened.list()).toEqual([]);
+  });
+
+  it('should persist users across instances using the same file', () => {
+    createSqliteUserRepository(filename).create(john);
+
+    const reopened = createSqliteUserRepository(filename);
+
+    expect(reopened.find(john.id)).toEqual(john);
+  });
+
+  it('should return undefined when a user is not found', () => {
+    const repository = createSqliteUserRepository(filename);
+
+    expect(repository.find(john.id)).toBeUndefined();
+  });
+
+  it('should omit optional fields that were not provided', () => {
+    const repository = createSqliteUserRepository(filename);
+    const { email, phone, ...withoutContact } = john;
+
+    repository.create(withoutContact as User);
+
+    expect(repository.find(john.id)).toEqual(withoutContact);
+  });
+
+  it('should update an existing user', () => {
+    const repository = createSqliteUserRepository(filename, [john, jane]);
+    const updated = { ...jane, lastName: 'Updated', updatedAt: '2024-02-01T00:00:00.000Z' };
+
+    expect(repository.update(jane.id, updated)).toEqual(updated);
+    expect(repository.find(jane.id)).toEqual(updated);
+    expect(repository.find(john.id)).toEqual(john);
+  });
+
+  it('should return undefined when updating a missing user', () => {
+    const repository = createSqliteUserRepository(filename);
+
+    expect(repository.update(john.id, john)).toBeUndefined();
+  });
+
+  it('should store and clear the deletedAt mark', () => {
+    const repository = createSqliteUserRepository(filename, [john]);
+    const deletedJohn = { ...john, deletedAt: '2024-02-01T00:00:00.000Z' };
+
+    repository.update(john.id, deletedJohn);
+    expect(repository.find(john.id)).toEqual(deletedJohn);
+
+    repository.update(john.id, john);
+    expect(repository.find(john.id)).toEqual(john);
+  });
+
+  it('should add the deleted_at column to databases created without it', () => {
+    const db = new Database(filename);
+    db.exec(`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY, first_name TEXT NOT NULL, last_name TEXT NOT NULL, email TEXT, phone TEXT,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      )
+    `);
+    db.close();
+
+    const repository = createSqliteUserRepository(filename);
+    repository.create({ ...john, deletedAt: '2024-02-01T00:00:00.000Z' });
+
+    expect(repository.find(john.id)).toHaveProperty('deletedAt', '2024-02-01T00:00:00.000Z');
+  });
+
+  it('should delete and return an existing user', () => {
+    const repository = createSqliteUserRepository(filename, [john, jane]);
+
+    expect(repository.delete(john.id)).toEqual(john);
+    expect(repository.list()).toEqual([jane]);
+  });
+
+  it('should return undefined when deleting a missing user', () => {
+    const repository = createSqliteUserRepository(filename);
+
+    expect(repository.delete(john.id)).toBeUndefined();
+  });
+});
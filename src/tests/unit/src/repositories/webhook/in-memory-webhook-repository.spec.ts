@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Webhook, WebhookDelivery } from '../../../../../models/webhook-model';
+import { createInMemoryWebhookRepository, WebhookRepository } from '../../../../../repositories/webhook';
+
+describe('createInMemoryWebhookRepository', () => {
+  const webhook: Webhook = {
+    id: 'webhook-1',
+    url: 'https://example.com/hooks',
+    events: ['user.created'],
+    active: true,
+    secret: 'whsec_test-secret-value',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const delivery: WebhookDelivery = {
+    id: 'delivery-1',
+    webhookId: 'webhook-1',
+    eventId: 'event-1',
+    event: 'user.created',
+    payload: '{}',
+    status: 'pending',
+    attempts: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  let store: Webhook[];
+  let deliveryStore: WebhookDelivery[];
+  let repository: WebhookRepository;
+
+  beforeEach(() => {
+    store = [];
+    deliveryStore = [];
+    repository = createInMemoryWebhookRepository(store, deliveryStore);
+    repository.create({ ...webhook });
+  });
+
+  it('should find, list and update webhooks', () => {
+    expect(repository.find('webhook-1')).toEqual(webhook);
+    expect(repository.list()).toEqual([webhook]);
+
+    repository.update('webhook-1', { ...webhook, active: false });
+
+    expect(store[0].active).toBe(false);
+    expect(repository.update('missing', webhook)).toBeUndefined();
+  });
+
+  it('should insert a delivery once and replace it on later saves', () => {
+    repository.saveDelivery(delivery);
+    repository.saveDelivery({ ...delivery, status: 'delivered' });
+
+    expect(deliveryStore).toEqual([{ ...delivery, status: 'delivered' }]);
+    expect(repository.findDelivery('delivery-1')?.status).toBe('delivered');
+    expect(repository.listDeliveries()).not.toBe(deliveryStore);
+  });
+
+  it('should delete a webhook together with its deliveries', () => {
+    repository.create({ ...webhook, id: 'webhook-2' });
+    repository.saveDelivery(delivery);
+    repository.saveDelivery({ ...delivery, id: 'delivery-2', webhookId: 'webhook-2' });
+
+    expect(repository.delete('webhook-1')).toEqual(webhook);
+    expect(store.map(({ id }) => id)).toEqual(['webhook-2']);
+    expect(deliveryStore.map(({ id }) => id)).toEqual(['delivery-2']);
+    expect(repository.delete('webhook-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { StatusCodes } from 'http-status-codes';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { auditEntries } from '../../../../models/audit-model';
+import { users } from '../../../../models/users-model';
+import { authorizedRequest } from '../../../helpers/auth';
+
+describe('Audit Routes', () => {
+  const newUser = { firstName: 'Alice', lastName: 'Johnson' };
+
+  beforeEach(() => {
+    users.length = 0;
+    auditEntries.length = 0;
+  });
+
+  afterEach(() => {
+    users.length = 0;
+    auditEntries.length = 0;
+  });
+
+  describe('GET /audit', () => {
+    it('should list changes made through the API, newest first', async () => {
+      const admin = authorizedRequest(app);
+      const { body: created } = await admin.post('/user').send(newUser);
+      await authorizedRequest(app, { subject: 'other-admin' }).delete(`/user/${created.id}`);
+
+      const response = await admin.get('/audit');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map(({ action, actor }: { action: string; actor: string }) => [action, actor])).toEqual(
+        [
+          ['delete', 'other-admin'],
+          ['create', 'test-admin'],
+        ],
+      );
+      expect(response.body.meta.total).toBe(2);
+    });
+
+    it('should filter by actor and action', async () => {
+      const admin = authorizedRequest(app);
+      const { body: created } = await admin.post('/user').send(newUser);
+      await admin.patch(`/user/${created.id}`).send({ firstName: 'Alicia' });
+
+      const byAction = await admin.get('/audit?action=update');
+      const byActor = await admin.get('/audit?actor=someone-else');
+
+      expect(byAction.body.data).toHaveLength(1);
+      expect(byAction.body.data[0].changes).toEqual({ firstName: { before: 'Alice', after: 'Alicia' } });
+      expect(byActor.body.data).toEqual([]);
+    });
+
+    it('should return 400 for an unknown action', async () => {
+      const response = await authorizedRequest(app).get('/audit?action=explode');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should only be available to admins', async () => {
+      const response = await authorizedRequest(app, { roles: ['manager'] }).get('/audit');
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+});
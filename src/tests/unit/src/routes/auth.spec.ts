@@ -0,0 +1,83 @@
+import { StatusCodes } from 'http-status-codes';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { authClients } from '../../../../auth';
+
+describe('Auth Routes', () => {
+  const client = { clientId: 'test-client', clientSecret: 's3cret', subject: 'test-client', roles: ['admin'] };
+
+  // the app reads AUTH_CLIENTS once at startup
+  authClients.push(client);
+
+  describe('POST /auth/token', () => {
+    it('should issue a token for valid client credentials', async () => {
+      const response = await request(app).post('/auth/token').send({
+        grant_type: 'client_credentials',
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+      });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.body).toEqual({ access_token: expect.any(String), token_type: 'Bearer', expires_in: 900 });
+      expect(jwt.decode(response.body.access_token)).toMatchObject({ sub: 'test-client', roles: ['admin'] });
+    });
+
+    it('should accept form encoded requests', async () => {
+      const response = await request(app)
+        .post('/auth/token')
+        .type('form')
+        .send(`grant_type=client_credentials&client_id=${client.clientId}&client_secret=${client.clientSecret}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+    });
+
+    it('should issue tokens accepted by protected routes', async () => {
+      const {
+        body: { access_token },
+      } = await request(app).post('/auth/token').send({
+        grant_type: 'client_credentials',
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+      });
+
+      const response = await request(app).get('/users').set('Authorization', `Bearer ${access_token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+    });
+
+    it('should return 401 for invalid client credentials', async () => {
+      const response = await request(app).post('/auth/token').send({
+        grant_type: 'client_credentials',
+        client_id: client.clientId,
+        client_secret: 'wrong',
+      });
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(response.body).toMatchObject({ title: 'Unauthorized', detail: 'Invalid client credentials' });
+    });
+
+    it('should return 400 for unsupported grant types', async () => {
+      const response = await request(app).post('/auth/token').send({
+        grant_type: 'password',
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+      });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([{ path: 'grant_type', message: 'Unsupported grant type' }]);
+    });
+  });
+
+  describe('protected routes', () => {
+    it('should return 401 with a challenge for an invalid token', async () => {
+      const response = await request(app).get('/users').set('Authorization', 'Bearer invalid');
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(response.headers['www-authenticate']).toBe('Bearer error="invalid_token"');
+      expect(response.body).toHaveProperty('type', 'urn:problem-type:unauthorized');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import express from 'express';
+import { StatusCodes } from 'http-status-codes';
+import path from 'path';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { createDocsRouter } from '../../../../routes/docs';
+
+function createApp() {
+  const apiRouter = express.Router();
+  apiRouter.get('/ping', (req, res) => res.send('pong'));
+  apiRouter.use(createDocsRouter(apiRouter));
+
+  const app = express();
+  app.set('views', path.join(process.cwd(), 'views'));
+  app.set('view engine', 'jade');
+
+  return app.use(apiRouter);
+}
+
+describe('Docs Routes', () => {
+  describe('GET /openapi.json', () => {
+    it('should serve the OpenAPI document without the docs routes', async () => {
+      const response = await request(createApp()).get('/openapi.json');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(Object.keys(response.body.paths)).toEqual(['/ping']);
+    });
+  });
+
+  describe('GET /docs', () => {
+    it('should render the operations as HTML', async () => {
+      const response = await request(createApp()).get('/docs');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(/text\/html/);
+      expect(response.text).toContain('getPing');
+      expect(response.text).toContain('/ping');
+    });
+  });
+});
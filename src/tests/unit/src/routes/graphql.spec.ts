@@ -0,0 +1,186 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { User, users } from '../../../../models/users-model';
+import { userSearchIndex } from '../../../../search';
+import { authorizedRequest } from '../../../helpers/auth';
+
+describe('GraphQL Routes', () => {
+  const id = '123e4567-e89b-12d3-a456-426614174000';
+  const user: User = {
+    id,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const execute = (query: string, variables?: Record<string, unknown>, principal = {}) =>
+    authorizedRequest(app, principal).post('/graphql').send({ query, variables });
+
+  beforeEach(() => {
+    users.length = 0;
+    users.push({ ...user });
+    userSearchIndex.rebuild(users);
+  });
+
+  afterEach(() => {
+    users.length = 0;
+    userSearchIndex.rebuild(users);
+  });
+
+  describe('queries', () => {
+    it('should fetch only the requested fields of one user', async () => {
+      const response = await execute('query ($id: ID!) { user(id: $id) { firstName email deletedAt } }', { id });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({ data: { user: { firstName: 'John', email: user.email, deletedAt: null } } });
+    });
+
+    it('should return null for a missing user', async () => {
+      const response = await execute(`{ user(id: "999e4567-e89b-12d3-a456-426614174999") { id } }`);
+
+      expect(response.body).toEqual({ data: { user: null } });
+    });
+
+    it('should page through users with the REST filters and sorting', async () => {
+      users.push({ ...user, id: '223e4567-e89b-12d3-a456-426614174000', firstName: 'Jane', lastName: 'Smith' });
+
+      const response = await execute(
+        '{ users(limit: 1, sort: "firstName", emailDomain: "example.com") { total limit items { firstName } nextCursor } }',
+      );
+
+      expect(response.body.data.users).toEqual({
+        total: 2,
+        limit: 1,
+        items: [{ firstName: 'Jane' }],
+        nextCursor: expect.any(String),
+      });
+    });
+
+    it('should batch several reads in one request', async () => {
+      const response = await execute(`{
+        john: user(id: "${id}") { lastName }
+        page: users { total }
+      }`);
+
+      expect(response.body.data).toEqual({ john: { lastName: 'Doe' }, page: { total: 1 } });
+    });
+  });
+
+  describe('mutations', () => {
+    it('should create, update and delete users', async () => {
+      const created = await execute(
+        'mutation ($input: CreateUserInput!) { createUser(input: $input) { id firstName } }',
+        { input: { firstName: 'Jane', lastName: 'Smith', email: 'jane@example.com' } },
+      );
+      const newId = created.body.data.createUser.id;
+
+      const updated = await execute(
+        `mutation { updateUser(id: "${newId}", input: { lastName: "Jones" }) { lastName } }`,
+      );
+      const deleted = await execute(`mutation { deleteUser(id: "${newId}") { deletedAt } }`);
+      const rest = await authorizedRequest(app).get(`/user/${newId}`);
+
+      expect(created.body.data.createUser).toMatchObject({ firstName: 'Jane' });
+      expect(updated.body.data.updateUser).toEqual({ lastName: 'Jones' });
+      expect(deleted.body.data.deleteUser.deletedAt).toEqual(expect.any(String));
+      expect(rest.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should spend one create-user token per createUser field', async () => {
+      const principal = { subject: 'graphql-rate-limited-client' };
+
+      const read = await execute(`{ user(id: "${id}") { id } }`, undefined, principal);
+      const created = await execute(
+        `mutation {
+          first: createUser(input: { firstName: "Jane", lastName: "Smith" }) { id }
+          second: createUser(input: { firstName: "Joan", lastName: "Smith" }) { id }
+        }`,
+        undefined,
+        principal,
+      );
+
+      expect(read.headers).not.toHaveProperty('ratelimit-remaining');
+      expect(created.headers).toMatchObject({ 'ratelimit-limit': '30', 'ratelimit-remaining': '28' });
+    });
+
+    it('should expose the REST ETag and refuse a stale ifMatch', async () => {
+      const { body } = await execute(`{ user(id: "${id}") { etag } }`);
+      const rest = await authorizedRequest(app).get(`/user/${id}`);
+
+      const { etag } = body.data.user;
+
+      const updated = await execute(
+        `mutation { updateUser(id: "${id}", input: { lastName: "Jones" }, ifMatch: ${JSON.stringify(etag)}) { etag } }`,
+      );
+      const stale = await execute(`mutation { deleteUser(id: "${id}", ifMatch: ${JSON.stringify(etag)}) { id } }`);
+
+      expect(etag).toBe(rest.headers.etag);
+      expect(updated.body.data.updateUser.etag).not.toBe(etag);
+      expect(stale.body.errors[0].extensions).toMatchObject({ code: 'PRECONDITION_FAILED', status: 412 });
+      expect(users[0]).not.toHaveProperty('deletedAt');
+    });
+
+    it('should report Joi validation failures as errors with the REST details', async () => {
+      const response = await execute(`mutation { updateUser(id: "${id}", input: { email: "not-an-email" }) { id } }`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toBeNull();
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({
+          message: 'Input failed validation',
+          path: ['updateUser'],
+          extensions: { code: 'VALIDATION_FAILED', status: 400, details: [expect.objectContaining({ path: 'email' })] },
+        }),
+      ]);
+      expect(users[0].email).toBe(user.email);
+    });
+  });
+
+  describe('request errors', () => {
+    it('should return 400 for a document that does not parse', async () => {
+      const response = await execute('{ user(id: ');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body).not.toHaveProperty('data');
+      expect(response.body.errors[0].message).toMatch(/Syntax Error/);
+    });
+
+    it('should return 400 for a field the schema does not have', async () => {
+      const response = await execute(`{ user(id: "${id}") { password } }`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should return a problem document without a query', async () => {
+      const response = await authorizedRequest(app).post('/graphql').send({});
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.headers['content-type']).toMatch(/application\/problem\+json/);
+    });
+  });
+
+  describe('Access Control', () => {
+    it('should require a bearer token', async () => {
+      const response = await request(app).post('/graphql').send({ query: '{ users { total } }' });
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it('should apply the REST permissions to each field', async () => {
+      const response = await execute(`mutation { deleteUser(id: "${id}") { id } }`, undefined, { roles: ['manager'] });
+
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({
+          message: 'Missing permission user:delete',
+          extensions: expect.objectContaining({ code: 'FORBIDDEN', status: 403 }),
+        }),
+      ]);
+      expect(users[0]).not.toHaveProperty('deletedAt');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import express from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { createReadiness } from '../../../../health';
+import { createHealthRouter } from '../../../../routes/health';
+
+describe('Health Routes', () => {
+  describe('GET /healthz', () => {
+    it('should answer without authentication', async () => {
+      const response = await request(app).get('/healthz');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({ status: 'ok' });
+      expect(response.headers['cache-control']).toBe('no-store');
+    });
+  });
+
+  describe('GET /readyz', () => {
+    it('should be ready when the user store answers', async () => {
+      const response = await request(app).get('/readyz');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({ status: 'ready', checks: { userStore: { status: 'ok' } } });
+    });
+
+    it('should return 503 when a check fails', async () => {
+      const readiness = createReadiness();
+      readiness.register('database', () => {
+        throw new Error('database is locked');
+      });
+
+      const response = await request(express().use(createHealthRouter(readiness))).get('/readyz');
+
+      expect(response.status).toBe(StatusCodes.SERVICE_UNAVAILABLE);
+      expect(response.body.checks.database).toEqual({ status: 'failing', error: 'database is locked' });
+    });
+
+    it('should return 503 while shutting down', async () => {
+      const readiness = createReadiness();
+      readiness.shutDown();
+
+      const response = await request(express().use(createHealthRouter(readiness))).get('/readyz');
+
+      expect(response.status).toBe(StatusCodes.SERVICE_UNAVAILABLE);
+      expect(response.body.status).toBe('shutting-down');
+    });
+  });
+});
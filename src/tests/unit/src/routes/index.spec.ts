@@ -2,6 +2,7 @@ import { StatusCodes } from 'http-status-codes';
 import request from 'supertest';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import app from '../../../../../app';
+import { authorizedRequest } from '../../../helpers/auth';
 
 describe('Index Routes', () => {
   afterEach(() => {
@@ -34,18 +35,18 @@ describe('Index Routes', () => {
   describe('Route Mounting', () => {
     it('should mount user routes at /user', async () => {
       // Test that user routes are accessible
-      const response = await request(app).get('/user/123e4567-e89b-12d3-a456-426614174000');
+      const response = await authorizedRequest(app).get('/user/invalid-uuid');
 
-      // Should not return 404 for mounted routes (even if validation fails)
-      expect(response.status).not.toBe(StatusCodes.NOT_FOUND);
+      // Should reach the user router's validation rather than the catch-all 404
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
     });
 
     it('should mount users routes at /users', async () => {
       // Test that users routes are accessible
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(Array.isArray(response.body.data)).toBe(true);
     });
 
     it('should handle non-existent routes with 404', async () => {
@@ -53,6 +54,145 @@ describe('Index Routes', () => {
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
+
+    it('should mount auth routes at /auth', async () => {
+      const response = await request(app).post('/auth/token').send({});
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should serve the JWKS document', async () => {
+      const response = await request(app).get('/.well-known/jwks.json');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toHaveProperty('keys');
+    });
+
+    it('should describe the mounted routes in the OpenAPI document', async () => {
+      const response = await request(app).get('/openapi.json');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.paths['/user/{id}'].get).toMatchObject({
+        security: [{ bearerAuth: [] }],
+        'x-permission': 'user:read',
+      });
+      expect(response.body.paths['/users'].get.parameters).toContainEqual(
+        expect.objectContaining({ name: 'limit', in: 'query' }),
+      );
+      expect(response.body.paths).not.toHaveProperty('/openapi.json');
+    });
+
+    it.each(['/user/123e4567-e89b-12d3-a456-426614174000', '/users', '/audit'])(
+      'should require a bearer token for %s',
+      async (path) => {
+        const response = await request(app).get(path);
+
+        expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+        expect(response.headers['www-authenticate']).toBe('Bearer');
+      },
+    );
+  });
+
+  describe('API Versions', () => {
+    const userId = '4b1335f4-788b-4e8d-9ed5-04b99ce430a4';
+
+    it('should serve v1 users without a prefix', async () => {
+      const response = await authorizedRequest(app).get(`/user/${userId}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['api-version']).toBe('1');
+      expect(response.body).toMatchObject({ firstName: 'Emma', lastName: 'Johnson' });
+    });
+
+    it('should serve the same users under /v1', async () => {
+      const [unversioned, v1] = await Promise.all([
+        authorizedRequest(app).get(`/user/${userId}`),
+        authorizedRequest(app).get(`/v1/user/${userId}`),
+      ]);
+
+      expect(v1.status).toBe(StatusCodes.OK);
+      expect(v1.body).toEqual(unversioned.body);
+    });
+
+    it('should serve v2 users under /v2 and when asked for in the headers', async () => {
+      const responses = await Promise.all([
+        authorizedRequest(app).get(`/v2/user/${userId}`),
+        authorizedRequest(app).get(`/user/${userId}`).set('Accept-Version', '2'),
+        authorizedRequest(app).get(`/user/${userId}`).set('Accept', 'application/json; version=2'),
+      ]);
+
+      responses.forEach((response) => {
+        expect(response.status).toBe(StatusCodes.OK);
+        expect(response.headers['api-version']).toBe('2');
+        expect(response.body).toMatchObject({ id: userId, name: { first: 'Emma', last: 'Johnson' } });
+        expect(response.body).not.toHaveProperty('firstName');
+      });
+    });
+
+    it('should serialize listed users and keep the version in page links', async () => {
+      const response = await authorizedRequest(app).get('/v2/users?limit=1');
+
+      expect(response.body.data[0]).toHaveProperty('name.first');
+      expect(response.body.meta.links.next).toMatch(/^\/v2\/users\?/);
+    });
+
+    it('should return 406 for an unknown version', async () => {
+      const response = await authorizedRequest(app).get('/users').set('Accept-Version', '9');
+
+      expect(response.status).toBe(StatusCodes.NOT_ACCEPTABLE);
+    });
+
+    it('should return 404 rather than 406 for a path that does not exist', async () => {
+      const response = await authorizedRequest(app).get('/nonexistent').set('Accept-Version', '9');
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should read v2 request bodies with the name grouped', async () => {
+      const client = authorizedRequest(app);
+
+      const created = await client.post('/v2/user').send({ name: { first: 'Ada', last: 'Lovelace' } });
+      const patched = await client
+        .patch(`/v2/user/${created.body.id}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send([{ op: 'replace', path: '/name/first', value: 'Augusta' }]);
+      const merged = await client
+        .patch(`/user/${created.body.id}`)
+        .set('Accept-Version', '2')
+        .set('Content-Type', 'application/merge-patch+json')
+        .send({ name: { last: 'King' } });
+      const v1 = await client.get(`/user/${created.body.id}`);
+
+      expect(created.status).toBe(StatusCodes.CREATED);
+      expect(created.body.name).toEqual({ first: 'Ada', last: 'Lovelace' });
+      expect(patched.body.name).toEqual({ first: 'Augusta', last: 'Lovelace' });
+      expect(merged.body.name).toEqual({ first: 'Augusta', last: 'King' });
+      expect(v1.body).toMatchObject({ firstName: 'Augusta', lastName: 'King' });
+    });
+
+    it('should read v2 bulk item data', async () => {
+      const response = await authorizedRequest(app)
+        .post('/v2/users/bulk')
+        .send([{ op: 'create', data: { name: { first: 'Grace', last: 'Hopper' } } }]);
+
+      expect(response.body.results[0]).toMatchObject({
+        status: StatusCodes.CREATED,
+        data: { name: { first: 'Grace' } },
+      });
+    });
+
+    it('should return 404 for a version prefix that does not exist', async () => {
+      const response = await authorizedRequest(app).get('/v9/users');
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should document the unversioned paths only', async () => {
+      const response = await request(app).get('/openapi.json');
+
+      expect(response.body.paths).toHaveProperty('/users');
+      expect(Object.keys(response.body.paths).filter((path) => /^\/v\d/.test(path))).toEqual([]);
+    });
   });
 
   describe('HTTP Methods', () => {
@@ -0,0 +1,28 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { authorizedRequest } from '../../../helpers/auth';
+
+describe('Metrics Routes', () => {
+  it('should serve metrics in the Prometheus text format without authentication', async () => {
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain('# TYPE http_requests_total counter');
+    expect(response.text).toMatch(/^users\{state="active"\} \d+$/m);
+  });
+
+  it('should count requests by route template and validation failures by part', async () => {
+    await authorizedRequest(app).get('/user/4b1335f4-788b-4e8d-9ed5-04b99ce430a4');
+    await authorizedRequest(app).get('/user/not-a-uuid');
+
+    const { text } = await request(app).get('/metrics');
+
+    expect(text).toMatch(/^http_requests_total\{method="GET",route="\/user\/:id",status="200"\} 1$/m);
+    expect(text).toMatch(/^http_requests_total\{method="GET",route="\/user\/:id",status="400"\} 1$/m);
+    expect(text).toMatch(/^validation_failures_total\{method="GET",route="\/user\/:id",property="params"\} 1$/m);
+    expect(text).not.toContain('not-a-uuid');
+  });
+});
@@ -1,8 +1,17 @@
+import { decode, encode } from '@msgpack/msgpack';
+import express from 'express';
+import fs from 'fs';
 import { StatusCodes } from 'http-status-codes';
-import request from 'supertest';
+import os from 'os';
+import path from 'path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import app from '../../../../../app';
+import { authenticate } from '../../../../middleware/auth-middleware';
+import { errorHandler } from '../../../../middleware/error-handler';
 import { User, users } from '../../../../models/users-model';
+import { createInMemoryUserRepository, createSqliteUserRepository } from '../../../../repositories/user';
+import { createUserRouter } from '../../../../routes/user';
+import { authorizedRequest } from '../../../helpers/auth';
 
 describe('User Routes', () => {
   let testUsers: User[];
@@ -49,7 +58,7 @@ describe('User Routes', () => {
         phone: '+1-555-111-2222',
       };
 
-      const response = await request(app).post('/user').send(newUser).set('Content-Type', 'application/json');
+      const response = await authorizedRequest(app).post('/user').send(newUser).set('Content-Type', 'application/json');
 
       expect(response.status).toBe(StatusCodes.CREATED);
       expect(response.body).toHaveProperty('id');
@@ -69,11 +78,14 @@ describe('User Routes', () => {
         phone: '+1-555-111-2222',
       };
 
-      const response = await request(app).post('/user').send(incompleteUser).set('Content-Type', 'application/json');
+      const response = await authorizedRequest(app)
+        .post('/user')
+        .send(incompleteUser)
+        .set('Content-Type', 'application/json');
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
-      expect(response.body).toHaveProperty('status', 'error');
-      expect(response.body).toHaveProperty('message', 'Validation error');
+      expect(response.body).toHaveProperty('status', StatusCodes.BAD_REQUEST);
+      expect(response.body).toHaveProperty('title', 'Validation error');
       expect(response.body).toHaveProperty('details');
       expect(Array.isArray(response.body.details)).toBe(true);
     });
@@ -86,7 +98,7 @@ describe('User Routes', () => {
         phone: '+1-555-111-2222',
       };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .post('/user')
         .send(userWithInvalidEmail)
         .set('Content-Type', 'application/json');
@@ -110,7 +122,7 @@ describe('User Routes', () => {
         phone: 'invalid-phone',
       };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .post('/user')
         .send(userWithInvalidPhone)
         .set('Content-Type', 'application/json');
@@ -136,7 +148,7 @@ describe('User Routes', () => {
         anotherId: 123,
       };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .post('/user')
         .send(userWithExtraProps)
         .set('Content-Type', 'application/json');
@@ -145,41 +157,122 @@ describe('User Routes', () => {
       expect(response.body).not.toHaveProperty('unknownProp');
       expect(response.body).not.toHaveProperty('anotherId');
     });
+
+    it('should create only one user for a retried Idempotency-Key', async () => {
+      const newUser = { firstName: 'Alice', lastName: 'Johnson' };
+      const create = () => authorizedRequest(app).post('/user').set('Idempotency-Key', 'retry-1').send(newUser);
+
+      const first = await create();
+      const retry = await create();
+      const changed = await authorizedRequest(app)
+        .post('/user')
+        .set('Idempotency-Key', 'retry-1')
+        .send({ ...newUser, lastName: 'Smith' });
+
+      expect(retry.status).toBe(StatusCodes.CREATED);
+      expect(retry.body).toEqual(first.body);
+      expect(retry.headers.etag).toBe(first.headers.etag);
+      expect(users.filter(({ firstName }) => firstName === 'Alice')).toHaveLength(1);
+      expect(changed.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should rate limit each principal', async () => {
+      // a principal of its own, so the other tests keep their full bucket
+      const client = authorizedRequest(app, { subject: 'rate-limited-client' });
+      const create = () => client.post('/user').send({ firstName: 'Alice', lastName: 'Johnson' });
+
+      const first = await create();
+      expect(first.headers).toMatchObject({ 'ratelimit-limit': '30', 'ratelimit-remaining': '29' });
+
+      for (let i = 1; i < 30; i++) {
+        await create();
+      }
+      const limited = await create();
+
+      expect(limited.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+      // one token comes back every 2 seconds
+      expect(['1', '2']).toContain(limited.headers['retry-after']);
+      expect(limited.body).toHaveProperty('type', 'urn:problem-type:too-many-requests');
+
+      const other = await authorizedRequest(app).post('/user').send({ firstName: 'Bob', lastName: 'Smith' });
+      expect(other.status).toBe(StatusCodes.CREATED);
+    });
   });
 
   describe('GET /user/:id', () => {
     it('should get user by valid ID', async () => {
       const userId = testUsers[0].id;
 
-      const response = await request(app).get(`/user/${userId}`);
+      const response = await authorizedRequest(app).get(`/user/${userId}`);
 
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.body).toEqual(testUsers[0]);
     });
 
     it('should return 400 for invalid UUID format', async () => {
-      const response = await request(app).get('/user/invalid-uuid');
+      const response = await authorizedRequest(app).get('/user/invalid-uuid');
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
-      expect(response.body).toHaveProperty('status', 'error');
-      expect(response.body).toHaveProperty('message', 'Validation error');
+      expect(response.body).toHaveProperty('status', StatusCodes.BAD_REQUEST);
+      expect(response.body).toHaveProperty('title', 'Validation error');
     });
 
-    it('should return 500 for non-existent user with valid UUID', async () => {
+    it('should return 404 for non-existent user with valid UUID', async () => {
       const nonExistentId = '999e4567-e89b-12d3-a456-426614174999';
 
-      const response = await request(app).get(`/user/${nonExistentId}`);
-
-      expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+      const response = await authorizedRequest(app).get(`/user/${nonExistentId}`);
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.headers['content-type']).toMatch(/application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: 'urn:problem-type:not-found',
+        title: 'Not Found',
+        status: StatusCodes.NOT_FOUND,
+        detail: 'User not found',
+        instance: expect.stringContaining(nonExistentId),
+      });
     });
 
     it('should handle URL encoded parameters', async () => {
       const userId = testUsers[0].id;
 
-      const response = await request(app).get(`/user/${encodeURIComponent(userId)}`);
+      const response = await authorizedRequest(app).get(`/user/${encodeURIComponent(userId)}`);
 
       expect(response.status).toBe(StatusCodes.OK);
     });
+
+    it('should only return the requested fields, always with the id', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}?fields=firstName,lastName`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({ id: testUsers[0].id, firstName: 'John', lastName: 'Doe' });
+    });
+
+    it('should leave out excluded fields', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}?exclude=email,phone,id`);
+
+      const { email, phone, ...rest } = testUsers[0];
+      expect(response.body).toEqual(rest);
+    });
+
+    it('should project before serializing for the API version', async () => {
+      const response = await authorizedRequest(app).get(`/v2/user/${testUsers[0].id}?fields=firstName`);
+
+      expect(response.body).toEqual({ id: testUsers[0].id, name: { first: 'John' } });
+    });
+
+    it('should return 400 for unknown fields', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}?fields=firstName,password`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([
+        {
+          path: 'fields',
+          message:
+            'fields must be a comma-separated list of id, firstName, lastName, email, phone, createdAt, updatedAt, deletedAt',
+        },
+      ]);
+    });
   });
 
   describe('PATCH /user/:id', () => {
@@ -190,7 +283,7 @@ describe('User Routes', () => {
         email: 'johnny.doe@example.com',
       };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch(`/user/${userId}`)
         .send(updateData)
         .set('Content-Type', 'application/json');
@@ -205,13 +298,13 @@ describe('User Routes', () => {
     it('should return 400 for invalid UUID in params', async () => {
       const updateData = { firstName: 'Johnny' };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch('/user/invalid-uuid')
         .send(updateData)
         .set('Content-Type', 'application/json');
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
-      expect(response.body).toHaveProperty('message', 'Validation error');
+      expect(response.body).toHaveProperty('title', 'Validation error');
     });
 
     it('should return 400 for invalid email in body', async () => {
@@ -220,7 +313,7 @@ describe('User Routes', () => {
         email: 'invalid-email-format',
       };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch(`/user/${userId}`)
         .send(updateData)
         .set('Content-Type', 'application/json');
@@ -240,7 +333,7 @@ describe('User Routes', () => {
       const userId = testUsers[0].id;
       const updateData = { phone: '+1-555-999-8888' };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch(`/user/${userId}`)
         .send(updateData)
         .set('Content-Type', 'application/json');
@@ -250,70 +343,659 @@ describe('User Routes', () => {
       expect(response.body).toHaveProperty('firstName', testUsers[0].firstName); // preserved
     });
 
-    it('should return 500 for non-existent user with valid UUID', async () => {
+    it('should return 404 for non-existent user with valid UUID', async () => {
       const nonExistentId = '999e4567-e89b-12d3-a456-426614174999';
       const updateData = { firstName: 'Johnny' };
 
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch(`/user/${nonExistentId}`)
         .send(updateData)
         .set('Content-Type', 'application/json');
 
-      expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.headers['content-type']).toMatch(/application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: 'urn:problem-type:not-found',
+        title: 'Not Found',
+        status: StatusCodes.NOT_FOUND,
+        detail: 'User not found',
+        instance: expect.stringContaining(nonExistentId),
+      });
     });
 
     it('should handle empty update data', async () => {
       const userId = testUsers[0].id;
 
-      const response = await request(app).patch(`/user/${userId}`).send({}).set('Content-Type', 'application/json');
+      const response = await authorizedRequest(app)
+        .patch(`/user/${userId}`)
+        .send({})
+        .set('Content-Type', 'application/json');
 
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.body).toHaveProperty('updatedAt');
     });
   });
 
+  describe('PATCH /user/:id with JSON Patch and Merge Patch', () => {
+    const patchUser = (contentType: string, body: unknown) =>
+      authorizedRequest(app)
+        .patch(`/user/${testUsers[0].id}`)
+        .set('Content-Type', contentType)
+        .send(JSON.stringify(body));
+
+    it('should clear a field set to null in a Merge Patch', async () => {
+      const response = await patchUser('application/merge-patch+json', { lastName: 'Dane', phone: null });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toMatchObject({ firstName: 'John', lastName: 'Dane' });
+      expect(response.body).not.toHaveProperty('phone');
+      expect((await authorizedRequest(app).get(`/user/${testUsers[0].id}`)).body).not.toHaveProperty('phone');
+    });
+
+    it('should apply JSON Patch operations guarded by a test', async () => {
+      const response = await patchUser('application/json-patch+json', [
+        { op: 'test', path: '/email', value: 'john.doe@example.com' },
+        { op: 'replace', path: '/email', value: 'johnny@example.com' },
+        { op: 'remove', path: '/phone' },
+      ]);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toMatchObject({ email: 'johnny@example.com' });
+      expect(response.body).not.toHaveProperty('phone');
+    });
+
+    it('should return 409 and change nothing when a test fails', async () => {
+      const response = await patchUser('application/json-patch+json', [
+        { op: 'replace', path: '/firstName', value: 'Johnny' },
+        { op: 'test', path: '/email', value: 'someone@example.com' },
+      ]);
+
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+      expect(response.body).toHaveProperty('detail', 'Test failed, /email does not have the expected value');
+      expect(users[0]).toEqual(testUsers[0]);
+    });
+
+    it('should return 422 for a path that does not exist', async () => {
+      await patchUser('application/json-patch+json', [{ op: 'remove', path: '/phone' }]);
+      const response = await patchUser('application/json-patch+json', [{ op: 'remove', path: '/phone' }]);
+
+      expect(response.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should return 400 for operations on fields that cannot change', async () => {
+      const response = await patchUser('application/json-patch+json', [
+        { op: 'replace', path: '/id', value: 'other' },
+        { op: 'move', from: '/email', path: '/phone' },
+      ]);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([
+        { path: '0.path', message: 'Only /firstName, /lastName, /email, /phone can be changed' },
+        { path: '1.op', message: 'Operation must be add, remove, replace or test' },
+        { path: '1.value', message: 'Value is required unless removing' },
+      ]);
+    });
+
+    it('should return 400 when the patched user is invalid', async () => {
+      const response = await patchUser('application/json-patch+json', [
+        { op: 'remove', path: '/firstName' },
+        { op: 'replace', path: '/email', value: 'not-an-email' },
+      ]);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body).toMatchObject({
+        detail: 'Patched user failed validation',
+        details: [
+          { path: 'firstName', message: 'firstName is required' },
+          { path: 'email', message: 'Invalid email address' },
+        ],
+      });
+    });
+
+    it('should return 400 for a Merge Patch that removes a required field', async () => {
+      const response = await patchUser('application/merge-patch+json', { lastName: null });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([{ path: 'lastName', message: 'lastName is required' }]);
+    });
+
+    it('should return 400 for a patch document that is not JSON', async () => {
+      const response = await authorizedRequest(app)
+        .patch(`/user/${testUsers[0].id}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send('[{"op": ');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body).toHaveProperty('detail', 'Request body is not valid json-patch');
+    });
+
+    it('should not replay a different patch sent under the same Idempotency-Key', async () => {
+      const send = (contentType: string, body: unknown) =>
+        patchUser(contentType, body).set('Idempotency-Key', 'patch-1');
+
+      const first = await send('application/json-patch+json', [{ op: 'replace', path: '/firstName', value: 'Johnny' }]);
+      const different = await send('application/json-patch+json', [{ op: 'remove', path: '/phone' }]);
+      const merge = await send('application/merge-patch+json', { phone: null });
+
+      expect(first.status).toBe(StatusCodes.OK);
+      expect(different.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+      expect(merge.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+      expect(users[0]).toHaveProperty('phone', testUsers[0].phone);
+    });
+
+    it('should record removed fields in the audit trail', async () => {
+      await patchUser('application/merge-patch+json', { phone: null });
+
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}/history`);
+
+      expect(response.body.data[0].changes).toEqual({ phone: { before: testUsers[0].phone, after: null } });
+    });
+  });
+
   describe('DELETE /user/:id', () => {
     it('should delete user with valid ID', async () => {
       const userId = testUsers[0].id;
       const initialUserCount = users.length;
 
-      const response = await request(app).delete(`/user/${userId}`);
+      const response = await authorizedRequest(app).delete(`/user/${userId}`);
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(testUsers[0]);
-      expect(users).toHaveLength(initialUserCount - 1);
-      expect(users.find((user) => user.id === userId)).toBeUndefined();
+      expect(response.body).toEqual({ ...testUsers[0], deletedAt: expect.any(String) });
+      expect(users).toHaveLength(initialUserCount);
+      expect((await authorizedRequest(app).get(`/user/${userId}`)).status).toBe(StatusCodes.NOT_FOUND);
     });
 
     it('should return 400 for invalid UUID format', async () => {
-      const response = await request(app).delete('/user/invalid-uuid');
+      const response = await authorizedRequest(app).delete('/user/invalid-uuid');
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
-      expect(response.body).toHaveProperty('message', 'Validation error');
+      expect(response.body).toHaveProperty('title', 'Validation error');
     });
 
-    it('should return 500 for non-existent user with valid UUID', async () => {
+    it('should return 404 for non-existent user with valid UUID', async () => {
       const nonExistentId = '999e4567-e89b-12d3-a456-426614174999';
 
-      const response = await request(app).delete(`/user/${nonExistentId}`);
-
-      expect(response.status).toBe(StatusCodes.INTERNAL_SERVER_ERROR);
+      const response = await authorizedRequest(app).delete(`/user/${nonExistentId}`);
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+      expect(response.headers['content-type']).toMatch(/application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: 'urn:problem-type:not-found',
+        title: 'Not Found',
+        status: StatusCodes.NOT_FOUND,
+        detail: 'User not found',
+        instance: expect.stringContaining(nonExistentId),
+      });
     });
 
     it('should not affect other users when deleting', async () => {
       const userToDelete = testUsers[0];
       const otherUser = testUsers[1];
 
-      const response = await request(app).delete(`/user/${userToDelete.id}`);
+      const response = await authorizedRequest(app).delete(`/user/${userToDelete.id}`);
 
       expect(response.status).toBe(StatusCodes.OK);
       expect(users.find((user) => user.id === otherUser.id)).toEqual(otherUser);
     });
   });
 
+  describe('Sparse fieldsets on writes', () => {
+    it('should project the user returned by POST, PATCH, DELETE and restore', async () => {
+      const client = authorizedRequest(app);
+      const id = testUsers[0].id;
+
+      const created = await client.post('/user?fields=firstName').send({ firstName: 'Alice', lastName: 'Johnson' });
+      const patched = await client
+        .patch(`/user/${id}?exclude=email,phone,createdAt,updatedAt`)
+        .send({ firstName: 'Johnny' });
+      const deleted = await client.delete(`/user/${id}?fields=deletedAt`);
+      const restored = await client.post(`/user/${id}/restore?fields=lastName`);
+
+      expect(created.status).toBe(StatusCodes.CREATED);
+      expect(created.body).toEqual({ id: expect.any(String), firstName: 'Alice' });
+      expect(patched.body).toEqual({ id, firstName: 'Johnny', lastName: 'Doe' });
+      expect(deleted.body).toEqual({ id, deletedAt: expect.any(String) });
+      expect(restored.body).toEqual({ id, lastName: 'Doe' });
+    });
+
+    it('should reject unknown fields before writing anything', async () => {
+      const response = await authorizedRequest(app)
+        .post('/user?fields=password')
+        .send({ firstName: 'Alice', lastName: 'Johnson' });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(users).toHaveLength(testUsers.length);
+    });
+  });
+
+  describe('Soft Delete', () => {
+    const deleteFirstUser = () => authorizedRequest(app).delete(`/user/${testUsers[0].id}`);
+
+    it('should treat a soft-deleted user as not found', async () => {
+      await deleteFirstUser();
+      const client = authorizedRequest(app);
+
+      expect((await client.get(`/user/${testUsers[0].id}`)).status).toBe(StatusCodes.NOT_FOUND);
+      expect((await client.patch(`/user/${testUsers[0].id}`).send({ firstName: 'X' })).status).toBe(
+        StatusCodes.NOT_FOUND,
+      );
+      expect((await deleteFirstUser()).status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should restore a soft-deleted user', async () => {
+      await deleteFirstUser();
+
+      const response = await authorizedRequest(app).post(`/user/${testUsers[0].id}/restore`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).not.toHaveProperty('deletedAt');
+      expect(response.headers.etag).toBeDefined();
+      expect((await authorizedRequest(app).get(`/user/${testUsers[0].id}`)).status).toBe(StatusCodes.OK);
+    });
+
+    it('should return 409 when restoring a user that is not deleted', async () => {
+      const response = await authorizedRequest(app).post(`/user/${testUsers[0].id}/restore`);
+
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+      expect(response.body).toHaveProperty('detail', 'User is not deleted');
+    });
+
+    it('should permanently remove a user with hard=true', async () => {
+      const response = await authorizedRequest(app).delete(`/user/${testUsers[0].id}?hard=true`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(users).toEqual([testUsers[1]]);
+    });
+
+    it('should purge a user that is already in the trash', async () => {
+      await deleteFirstUser();
+
+      const response = await authorizedRequest(app).delete(`/user/${testUsers[0].id}?hard=true`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(users).toHaveLength(1);
+    });
+
+    it('should return 400 for an invalid hard flag', async () => {
+      const response = await authorizedRequest(app).delete(`/user/${testUsers[0].id}?hard=maybe`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should not let managers restore users', async () => {
+      await deleteFirstUser();
+
+      const response = await authorizedRequest(app, { roles: ['manager'] }).post(`/user/${testUsers[0].id}/restore`);
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('GET /user/:id/history', () => {
+    it('should record who changed which field, with the request id', async () => {
+      await authorizedRequest(app)
+        .patch(`/user/${testUsers[0].id}`)
+        .set('X-Request-Id', 'req-123')
+        .send({ email: 'johnny@example.com' });
+
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}/history`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data[0]).toEqual({
+        id: expect.any(Number),
+        userId: testUsers[0].id,
+        actor: 'test-admin',
+        action: 'update',
+        timestamp: expect.any(String),
+        changes: { email: { before: 'john.doe@example.com', after: 'johnny@example.com' } },
+        requestId: 'req-123',
+      });
+    });
+
+    it('should paginate the history newest first', async () => {
+      const client = authorizedRequest(app);
+      await client.patch(`/user/${testUsers[1].id}`).send({ firstName: 'One' });
+      await client.patch(`/user/${testUsers[1].id}`).send({ firstName: 'Two' });
+      await client.delete(`/user/${testUsers[1].id}`);
+
+      const response = await client.get(`/user/${testUsers[1].id}/history?limit=2`);
+
+      expect(response.body.data.map(({ action }: { action: string }) => action)).toEqual(['delete', 'update']);
+      expect(response.body.data[1].changes.firstName).toEqual({ before: 'One', after: 'Two' });
+      expect(response.body.meta.links.next).toMatch(new RegExp(`^/user/${testUsers[1].id}/history\\?`));
+    });
+
+    it('should let users read their own history only', async () => {
+      const self = authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] });
+
+      expect((await self.get(`/user/${testUsers[0].id}/history`)).status).toBe(StatusCodes.OK);
+      expect((await self.get(`/user/${testUsers[1].id}/history`)).status).toBe(StatusCodes.FORBIDDEN);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await authorizedRequest(app).get('/user/999e4567-e89b-12d3-a456-426614174999/history');
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+  });
+
+  describe('Optimistic Concurrency', () => {
+    const strictApp = () =>
+      express()
+        .use(express.json())
+        .use(
+          '/user',
+          authenticate(),
+          createUserRouter({ repository: createInMemoryUserRepository(users) }, { requireIfMatch: true }),
+        )
+        .use(errorHandler);
+
+    it('should return an ETag that changes when the user is updated', async () => {
+      const client = authorizedRequest(app);
+      const { headers } = await client.get(`/user/${testUsers[0].id}`);
+
+      expect(headers.etag).toMatch(/^"[\w-]+"$/);
+
+      const response = await client.patch(`/user/${testUsers[0].id}`).send({ firstName: 'Johnny' });
+
+      expect(response.headers.etag).toMatch(/^"[\w-]+"$/);
+      expect(response.headers.etag).not.toBe(headers.etag);
+      expect((await client.get(`/user/${testUsers[0].id}`)).headers.etag).toBe(response.headers.etag);
+    });
+
+    it('should return the same ETag from a write as from the next GET when stored in SQLite', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'users-'));
+
+      try {
+        const sqliteApp = express()
+          .use(express.json())
+          .use(
+            '/user',
+            authenticate(),
+            createUserRouter({ repository: createSqliteUserRepository(path.join(tempDir, 'users.sqlite')) }),
+          )
+          .use(errorHandler);
+        const client = authorizedRequest(sqliteApp);
+
+        const created = await client.post('/user').send({
+          firstName: 'Alice',
+          lastName: 'Johnson',
+          email: 'alice.johnson@example.com',
+          phone: '+1-555-111-2222',
+        });
+
+        expect(created.status).toBe(StatusCodes.CREATED);
+        expect((await client.get(`/user/${created.body.id}`)).headers.etag).toBe(created.headers.etag);
+
+        const patched = await client.patch(`/user/${created.body.id}`).send({ firstName: 'Alicia' });
+
+        expect((await client.get(`/user/${created.body.id}`)).headers.etag).toBe(patched.headers.etag);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should answer 304 when If-None-Match matches the current ETag', async () => {
+      const client = authorizedRequest(app);
+      const { headers } = await client.get(`/user/${testUsers[0].id}`);
+
+      const response = await client.get(`/user/${testUsers[0].id}`).set('If-None-Match', headers.etag);
+
+      expect(response.status).toBe(StatusCodes.NOT_MODIFIED);
+    });
+
+    it('should apply a PATCH whose If-Match matches', async () => {
+      const client = authorizedRequest(app);
+      const { headers } = await client.get(`/user/${testUsers[0].id}`);
+
+      const response = await client
+        .patch(`/user/${testUsers[0].id}`)
+        .set('If-Match', headers.etag)
+        .send({ firstName: 'Johnny' });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(users[0].firstName).toBe('Johnny');
+    });
+
+    it('should reject a PATCH made against a stale ETag with 412', async () => {
+      const client = authorizedRequest(app);
+      const { headers } = await client.get(`/user/${testUsers[0].id}`);
+      await client.patch(`/user/${testUsers[0].id}`).send({ firstName: 'First' });
+
+      const response = await client
+        .patch(`/user/${testUsers[0].id}`)
+        .set('If-Match', headers.etag)
+        .send({ firstName: 'Second' });
+
+      expect(response.status).toBe(StatusCodes.PRECONDITION_FAILED);
+      expect(response.body).toMatchObject({
+        type: 'urn:problem-type:precondition-failed',
+        title: 'Precondition Failed',
+      });
+      expect(users[0].firstName).toBe('First');
+    });
+
+    it('should reject a DELETE made against a stale ETag with 412', async () => {
+      const response = await authorizedRequest(app).delete(`/user/${testUsers[0].id}`).set('If-Match', '"stale"');
+
+      expect(response.status).toBe(StatusCodes.PRECONDITION_FAILED);
+      expect(users).toHaveLength(2);
+    });
+
+    it('should still answer 404 for a missing user sent with If-Match', async () => {
+      const response = await authorizedRequest(app)
+        .delete('/user/999e4567-e89b-12d3-a456-426614174999')
+        .set('If-Match', '"stale"');
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should require If-Match in strict mode', async () => {
+      const client = authorizedRequest(strictApp());
+
+      const response = await client.patch(`/user/${testUsers[0].id}`).send({ firstName: 'Johnny' });
+
+      expect(response.status).toBe(StatusCodes.PRECONDITION_REQUIRED);
+      expect(response.body).toHaveProperty('type', 'urn:problem-type:precondition-required');
+      expect((await client.delete(`/user/${testUsers[0].id}`)).status).toBe(StatusCodes.PRECONDITION_REQUIRED);
+      expect(users[0].firstName).toBe('John');
+    });
+
+    it('should accept conditional writes in strict mode', async () => {
+      const client = authorizedRequest(strictApp());
+      const { headers } = await client.get(`/user/${testUsers[0].id}`);
+
+      const response = await client.delete(`/user/${testUsers[0].id}`).set('If-Match', headers.etag);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(users[0].deletedAt).toBeDefined();
+    });
+  });
+
+  describe('Access Control', () => {
+    const newUser = { firstName: 'Alice', lastName: 'Johnson' };
+
+    it('should return 403 problem details when a manager deletes a user', async () => {
+      const response = await authorizedRequest(app, { roles: ['manager'] }).delete(`/user/${testUsers[0].id}`);
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body).toMatchObject({
+        type: 'urn:problem-type:forbidden',
+        title: 'Forbidden',
+        detail: 'Missing permission user:delete',
+      });
+      expect(users).toHaveLength(2);
+    });
+
+    it('should allow a manager to create and update users', async () => {
+      const manager = authorizedRequest(app, { roles: ['manager'] });
+
+      expect((await manager.post('/user').send(newUser)).status).toBe(StatusCodes.CREATED);
+      expect((await manager.patch(`/user/${testUsers[1].id}`).send({ firstName: 'J' })).status).toBe(StatusCodes.OK);
+    });
+
+    it('should allow a user to read and update their own record', async () => {
+      const self = authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] });
+
+      expect((await self.get(`/user/${testUsers[0].id}`)).status).toBe(StatusCodes.OK);
+
+      const response = await self.patch(`/user/${testUsers[0].id}`).send({ firstName: 'Johnny' });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toHaveProperty('firstName', 'Johnny');
+    });
+
+    it("should not allow a user to read or update someone else's record", async () => {
+      const self = authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] });
+
+      expect((await self.get(`/user/${testUsers[1].id}`)).status).toBe(StatusCodes.FORBIDDEN);
+
+      const response = await self.patch(`/user/${testUsers[1].id}`).send({ firstName: 'Hacked' });
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(users[1].firstName).toBe('Jane');
+    });
+
+    it('should not allow a user to create or delete users', async () => {
+      const self = authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] });
+
+      expect((await self.post('/user').send(newUser)).status).toBe(StatusCodes.FORBIDDEN);
+      expect((await self.delete(`/user/${testUsers[0].id}`)).status).toBe(StatusCodes.FORBIDDEN);
+    });
+
+    it('should deny principals without a role', async () => {
+      const response = await authorizedRequest(app, { roles: [] }).get(`/user/${testUsers[0].id}`);
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('Content Negotiation', () => {
+    const newUser = {
+      firstName: 'Alice',
+      lastName: 'Johnson',
+      email: 'alice.johnson@example.com',
+      phone: '+1-555-111-2222',
+    };
+
+    it('should return a user as XML', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}`).set('Accept', 'application/xml');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(/^application\/xml/);
+      expect(response.text).toContain(`<id>${testUsers[0].id}</id>`);
+      expect(response.text).toContain('<email>john.doe@example.com</email>');
+    });
+
+    it('should return a user as CSV', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}`).set('Accept', 'text/csv');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.text.split('\r\n')[0]).toBe('id,firstName,lastName,email,phone,createdAt,updatedAt');
+    });
+
+    it('should return a user as MessagePack', async () => {
+      const response = await authorizedRequest(app)
+        .get(`/user/${testUsers[0].id}`)
+        .set('Accept', 'application/msgpack')
+        .responseType('blob');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(decode(response.body)).toEqual(testUsers[0]);
+    });
+
+    it('should serialize the v2 representation', async () => {
+      const response = await authorizedRequest(app).get(`/v2/user/${testUsers[0].id}`).set('Accept', 'application/xml');
+
+      expect(response.text).toContain('<name><first>John</first><last>Doe</last></name>');
+    });
+
+    it.each([
+      [
+        'application/xml',
+        '<user><firstName>Alice</firstName><lastName>Johnson</lastName><email>alice.johnson@example.com</email><phone>+1-555-111-2222</phone></user>',
+      ],
+      ['text/csv', 'firstName,lastName,email,phone\nAlice,Johnson,alice.johnson@example.com,+1-555-111-2222\n'],
+      ['application/msgpack', Buffer.from(encode(newUser))],
+    ])('should create a user from a %s body', async (contentType, body) => {
+      const response = await authorizedRequest(app).post('/user').set('Content-Type', contentType).send(body);
+
+      expect(response.status).toBe(StatusCodes.CREATED);
+      expect(response.body).toMatchObject(newUser);
+    });
+
+    it('should validate bodies sent as XML', async () => {
+      const response = await authorizedRequest(app)
+        .post('/user')
+        .set('Content-Type', 'application/xml')
+        .send('<user><firstName>Alice</firstName><email>not-an-email</email></user>');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details.map(({ path }: { path: string }) => path)).toEqual(
+        expect.arrayContaining(['lastName', 'email']),
+      );
+    });
+
+    it('should update a user from an XML body', async () => {
+      const response = await authorizedRequest(app)
+        .patch(`/user/${testUsers[0].id}`)
+        .set('Content-Type', 'application/xml')
+        .send('<user><firstName>Johnny</firstName></user>');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toHaveProperty('firstName', 'Johnny');
+    });
+
+    it('should tell different XML bodies sent under one Idempotency-Key apart', async () => {
+      const post = (firstName: string) =>
+        authorizedRequest(app)
+          .post('/user')
+          .set('Idempotency-Key', 'xml-signup')
+          .set('Content-Type', 'application/xml')
+          .send(`<user><firstName>${firstName}</firstName><lastName>Johnson</lastName></user>`);
+
+      const created = await post('Alice');
+      const replayed = await post('Alice');
+      const different = await post('Bob');
+
+      expect(created.status).toBe(StatusCodes.CREATED);
+      expect(created.body).toHaveProperty('firstName', 'Alice');
+      expect(replayed.headers).toHaveProperty('idempotent-replayed', 'true');
+      expect(different.status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+      expect(users.filter(({ lastName }) => lastName === 'Johnson')).toHaveLength(1);
+    });
+
+    it('should tell different MessagePack bodies sent under one Idempotency-Key apart', async () => {
+      const post = (user: object) =>
+        authorizedRequest(app)
+          .post('/user')
+          .set('Idempotency-Key', 'msgpack-signup')
+          .set('Content-Type', 'application/msgpack')
+          .send(Buffer.from(encode(user)));
+
+      expect((await post(newUser)).status).toBe(StatusCodes.CREATED);
+      expect((await post({ ...newUser, firstName: 'Bob' })).status).toBe(StatusCodes.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should return 406 when no supported format is acceptable', async () => {
+      const response = await authorizedRequest(app).get(`/user/${testUsers[0].id}`).set('Accept', 'application/pdf');
+
+      expect(response.status).toBe(StatusCodes.NOT_ACCEPTABLE);
+      expect(response.body).toHaveProperty('type', 'urn:problem-type:not-acceptable');
+    });
+
+    it('should return 415 for an unsupported body', async () => {
+      const response = await authorizedRequest(app).post('/user').set('Content-Type', 'text/plain').send('Alice');
+
+      expect(response.status).toBe(StatusCodes.UNSUPPORTED_MEDIA_TYPE);
+      expect(response.body).toHaveProperty('type', 'urn:problem-type:unsupported-media-type');
+    });
+  });
+
   describe('Route Validation Integration', () => {
     it('should validate both params and body on PATCH', async () => {
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .patch('/user/invalid-uuid')
         .send({ email: 'invalid-email' })
         .set('Content-Type', 'application/json');
@@ -331,7 +1013,7 @@ describe('User Routes', () => {
         phone: '+1-555-111-2222',
       };
 
-      const response = await request(app).post('/user').send(newUser);
+      const response = await authorizedRequest(app).post('/user').send(newUser);
 
       expect(response.status).toBe(StatusCodes.CREATED);
     });
@@ -339,7 +1021,7 @@ describe('User Routes', () => {
 
   describe('Error Handling', () => {
     it('should handle malformed JSON in request body', async () => {
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .post('/user')
         .send('{"invalid": json}')
         .set('Content-Type', 'application/json');
@@ -348,7 +1030,7 @@ describe('User Routes', () => {
     });
 
     it('should handle empty request body', async () => {
-      const response = await request(app).post('/user').send('').set('Content-Type', 'application/json');
+      const response = await authorizedRequest(app).post('/user').send('').set('Content-Type', 'application/json');
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
     });
@@ -1,8 +1,13 @@
+import { once } from 'events';
+import http, { IncomingMessage } from 'http';
 import { StatusCodes } from 'http-status-codes';
-import request from 'supertest';
+import { AddressInfo } from 'net';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import app from '../../../../../app';
+import { userEventStream } from '../../../../events';
 import { User, users } from '../../../../models/users-model';
+import { userSearchIndex } from '../../../../search';
+import { authorizedRequest, bearerToken } from '../../../helpers/auth';
 
 describe('Users Routes', () => {
   let testUsers: User[];
@@ -51,37 +56,52 @@ describe('Users Routes', () => {
 
   describe('GET /users', () => {
     it('should return all users', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(testUsers);
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body).toHaveLength(testUsers.length);
+      expect(response.body.data).toEqual(testUsers);
+      expect(Array.isArray(response.body.data)).toBe(true);
+      expect(response.body.data).toHaveLength(testUsers.length);
+      expect(response.body.meta).toHaveProperty('total', testUsers.length);
     });
 
     it('should return empty array when no users exist', async () => {
       users.length = 0;
 
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual([]);
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body).toHaveLength(0);
+      expect(response.body.data).toEqual([]);
+      expect(Array.isArray(response.body.data)).toBe(true);
+      expect(response.body.data).toHaveLength(0);
+      expect(response.body.meta).toHaveProperty('total', 0);
     });
 
     it('should return JSON content type', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.headers['content-type']).toMatch(/application\/json/);
     });
 
+    it('should return one CSV row per user', async () => {
+      const response = await authorizedRequest(app).get('/users?fields=firstName,email').set('Accept', 'text/csv');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.text.trim().split('\r\n')).toEqual([
+        'id,firstName,email',
+        `${testUsers[0].id},John,john.doe@example.com`,
+        `${testUsers[1].id},Jane,jane.smith@example.com`,
+        `${testUsers[2].id},Bob,bob.wilson@example.com`,
+      ]);
+    });
+
     it('should return users with all required properties', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      response.body.forEach((user: User) => {
+      response.body.data.forEach((user: User) => {
         expect(user).toHaveProperty('id');
         expect(user).toHaveProperty('firstName');
         expect(user).toHaveProperty('lastName');
@@ -101,50 +121,49 @@ describe('Users Routes', () => {
     });
 
     it('should handle query parameters gracefully', async () => {
-      const response = await request(app).get('/users?page=1&limit=10');
+      const response = await authorizedRequest(app).get('/users?page=1&limit=10');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(testUsers);
-      // Note: Current implementation doesn't use query params, but should still work
+      expect(response.body.data).toEqual(testUsers);
+      // Note: unknown query params like page are stripped by validation
     });
 
     it('should handle requests with various headers', async () => {
-      const response = await request(app)
+      const response = await authorizedRequest(app)
         .get('/users')
         .set('Accept', 'application/json')
-        .set('User-Agent', 'Test Agent')
-        .set('Authorization', 'Bearer test-token');
+        .set('User-Agent', 'Test Agent');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(testUsers);
+      expect(response.body.data).toEqual(testUsers);
     });
 
     it('should return users in correct order', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body[0]).toEqual(testUsers[0]);
-      expect(response.body[1]).toEqual(testUsers[1]);
-      expect(response.body[2]).toEqual(testUsers[2]);
+      expect(response.body.data[0]).toEqual(testUsers[0]);
+      expect(response.body.data[1]).toEqual(testUsers[1]);
+      expect(response.body.data[2]).toEqual(testUsers[2]);
     });
 
     it('should handle concurrent requests correctly', async () => {
       const requests = Array(5)
         .fill(null)
-        .map(() => request(app).get('/users'));
+        .map(() => authorizedRequest(app).get('/users'));
 
       const responses = await Promise.all(requests);
 
       responses.forEach((response) => {
         expect(response.status).toBe(StatusCodes.OK);
-        expect(response.body).toEqual(testUsers);
+        expect(response.body.data).toEqual(testUsers);
       });
     });
 
     it('should reflect changes when users array is modified', async () => {
       // First request
-      let response = await request(app).get('/users');
-      expect(response.body).toHaveLength(3);
+      let response = await authorizedRequest(app).get('/users');
+      expect(response.body.data).toHaveLength(3);
 
       // Modify users array
       users.push({
@@ -158,9 +177,9 @@ describe('Users Routes', () => {
       });
 
       // Second request should reflect the change
-      response = await request(app).get('/users');
-      expect(response.body).toHaveLength(4);
-      expect(response.body[3]).toHaveProperty('firstName', 'Alice');
+      response = await authorizedRequest(app).get('/users');
+      expect(response.body.data).toHaveLength(4);
+      expect(response.body.data[3]).toHaveProperty('firstName', 'Alice');
     });
 
     it('should handle large number of users', async () => {
@@ -180,35 +199,597 @@ describe('Users Routes', () => {
       users.length = 0;
       users.push(...manyUsers);
 
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users?limit=100');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toHaveLength(100);
+      expect(response.body.meta).toHaveProperty('total', 100);
+      expect(Array.isArray(response.body.data)).toBe(true);
+    });
+  });
+
+  describe('GET /users fieldsets', () => {
+    it('should project every listed user and keep the fieldset in page links', async () => {
+      const response = await authorizedRequest(app).get('/users?limit=2&fields=firstName,firstName,email');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual([
+        { id: testUsers[0].id, firstName: 'John', email: 'john.doe@example.com' },
+        { id: testUsers[1].id, firstName: 'Jane', email: 'jane.smith@example.com' },
+      ]);
+      expect(response.body.meta.links.next).toBe('/users?limit=2&fields=firstName%2Cemail&offset=2');
+    });
+
+    it('should project the users in bulk results', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/bulk?fields=lastName')
+        .send([{ op: 'update', id: testUsers[0].id, data: { lastName: 'Dough' } }]);
+
+      expect(response.body.results[0].data).toEqual({ id: testUsers[0].id, lastName: 'Dough' });
+    });
+
+    it('should return 400 for unknown fields', async () => {
+      const response = await authorizedRequest(app).get('/users?exclude=secret');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('GET /users pagination', () => {
+    it('should default to 20 users per page', async () => {
+      const manyUsers = Array.from({ length: 25 }, (_, index) => ({
+        ...testUsers[0],
+        id: `${index.toString().padStart(3, '0')}e4567-e89b-12d3-a456-426614174000`,
+      }));
+      users.length = 0;
+      users.push(...manyUsers);
+
+      const response = await authorizedRequest(app).get('/users');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toHaveLength(20);
+      expect(response.body.meta).toMatchObject({ total: 25, count: 20, limit: 20, offset: 0 });
+      expect(response.body.meta.links).toEqual({
+        self: '/users?limit=20&offset=0',
+        next: '/users?limit=20&offset=20',
+        prev: null,
+      });
+    });
+
+    it('should page by offset with next and prev links', async () => {
+      const response = await authorizedRequest(app).get('/users?limit=1&offset=1');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual([testUsers[1]]);
+      expect(response.body.meta.links).toEqual({
+        self: '/users?limit=1&offset=1',
+        next: '/users?limit=1&offset=2',
+        prev: '/users?limit=1&offset=0',
+      });
+    });
+
+    it('should page by cursor following the next links', async () => {
+      const first = await authorizedRequest(app).get('/users?limit=2');
+      const second = await authorizedRequest(app).get(`/users?limit=2&cursor=${first.body.meta.nextCursor}`);
+
+      expect(second.status).toBe(StatusCodes.OK);
+      expect(second.body.data).toEqual([testUsers[2]]);
+      expect(second.body.meta.links.next).toBeNull();
+      expect(second.body.meta.links.prev).toBe(`/users?limit=2&cursor=${second.body.meta.prevCursor}`);
+
+      const back = await authorizedRequest(app).get(second.body.meta.links.prev);
+
+      expect(back.body.data).toEqual([testUsers[0], testUsers[1]]);
+    });
+
+    it('should sort on multiple fields', async () => {
+      const response = await authorizedRequest(app).get('/users?sort=-createdAt,lastName');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map((user: User) => user.id)).toEqual([
+        testUsers[2].id,
+        testUsers[1].id,
+        testUsers[0].id,
+      ]);
+    });
+
+    it('should filter by prefix, email domain and created range', async () => {
+      users.push({ ...testUsers[0], id: '423e4567-e89b-12d3-a456-426614174003', email: 'j.doe@other.org' });
+
+      const response = await authorizedRequest(app).get(
+        '/users?lastName=do*&emailDomain=example.com&createdAfter=2023-12-31T00:00:00.000Z',
+      );
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual([testUsers[0]]);
+      expect(response.body.meta.total).toBe(1);
+    });
+
+    it('should return 400 for an unknown sort field', async () => {
+      const response = await authorizedRequest(app).get('/users?sort=password');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([expect.objectContaining({ path: 'sort' })]);
+    });
+
+    it('should return 400 for an out of range limit', async () => {
+      const response = await authorizedRequest(app).get('/users?limit=1000');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([{ path: 'limit', message: 'Limit must be at most 100' }]);
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+      const response = await authorizedRequest(app).get('/users?cursor=garbage');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([{ path: 'cursor', message: 'Invalid cursor' }]);
+    });
+
+    it('should return 400 when both cursor and offset are given', async () => {
+      const first = await authorizedRequest(app).get('/users?limit=1');
+
+      const response = await authorizedRequest(app).get(`/users?offset=1&cursor=${first.body.meta.nextCursor}`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details[0]).toHaveProperty('message', 'Use either cursor or offset, not both');
+    });
+
+    it('should return 400 for an invalid date filter', async () => {
+      const response = await authorizedRequest(app).get('/users?createdAfter=yesterday');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.details).toEqual([{ path: 'createdAfter', message: 'Invalid date' }]);
+    });
+  });
+
+  describe('Soft-deleted users', () => {
+    beforeEach(() => {
+      users[1] = { ...testUsers[1], deletedAt: '2024-02-01T00:00:00.000Z' };
+    });
+
+    it('should leave deleted users out of the listing', async () => {
+      const response = await authorizedRequest(app).get('/users');
+
+      expect(response.body.data.map(({ id }: User) => id)).toEqual([testUsers[0].id, testUsers[2].id]);
+    });
+
+    it('should include deleted users for admins with includeDeleted=true', async () => {
+      const response = await authorizedRequest(app).get('/users?includeDeleted=true');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toHaveLength(100);
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(response.body.data).toHaveLength(3);
+    });
+
+    it('should list the trash at /users/deleted', async () => {
+      const response = await authorizedRequest(app).get('/users/deleted');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual([users[1]]);
+      expect(response.body.meta.links.self).toMatch(/^\/users\/deleted/);
+    });
+
+    it('should not let managers see deleted users', async () => {
+      const manager = authorizedRequest(app, { roles: ['manager'] });
+
+      expect((await manager.get('/users?includeDeleted=true')).status).toBe(StatusCodes.FORBIDDEN);
+      expect((await manager.get('/users/deleted')).status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('POST /users/bulk', () => {
+    const missingId = '999e4567-e89b-12d3-a456-426614174999';
+
+    it('should spend one create-user token per created user', async () => {
+      // a principal of its own, so the other tests keep their full bucket
+      const client = authorizedRequest(app, { subject: 'bulk-rate-limited-client' });
+      const creates = (count: number) =>
+        Array.from({ length: count }, (_, i) => ({ op: 'create', data: { firstName: `User${i}`, lastName: 'Bulk' } }));
+
+      const first = await client.post('/users/bulk').send([...creates(3), { op: 'delete', id: testUsers[1].id }]);
+      const single = await client.post('/user').send({ firstName: 'Alice', lastName: 'Johnson' });
+      await client.post('/users/bulk').send(creates(26));
+      const limited = await client.post('/users/bulk').send(creates(1));
+
+      expect(first.headers).toMatchObject({ 'ratelimit-limit': '30', 'ratelimit-remaining': '27' });
+      expect(single.headers['ratelimit-remaining']).toBe('26');
+      expect(limited.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+    });
+
+    it('should return a multi-status body with a result per operation', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/bulk')
+        .send([
+          { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson', role: 'ignored' } },
+          { op: 'update', id: testUsers[0].id, data: { email: 'not-an-email' } },
+          { op: 'delete', id: testUsers[1].id },
+        ]);
+
+      expect(response.status).toBe(StatusCodes.MULTI_STATUS);
+      expect(response.body.atomic).toBe(false);
+      expect(response.body.summary).toEqual({ total: 3, succeeded: 2, failed: 1 });
+      expect(response.body.results[0]).toEqual({
+        index: 0,
+        op: 'create',
+        status: StatusCodes.CREATED,
+        id: expect.any(String),
+        data: expect.not.objectContaining({ role: 'ignored' }),
+      });
+      expect(response.body.results[1]).toEqual({
+        index: 1,
+        op: 'update',
+        status: StatusCodes.BAD_REQUEST,
+        id: testUsers[0].id,
+        error: {
+          type: 'urn:problem-type:validation-failed',
+          title: 'Validation error',
+          status: StatusCodes.BAD_REQUEST,
+          detail: 'Operation 1 data failed validation',
+          details: [{ path: 'email', message: expect.any(String) }],
+        },
+      });
+      expect(response.body.results[2]).toMatchObject({
+        status: StatusCodes.OK,
+        data: { deletedAt: expect.any(String) },
+      });
+      expect(users).toHaveLength(4);
+    });
+
+    it('should roll back the whole batch with atomic=true', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/bulk?atomic=true')
+        .send([
+          { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+          { op: 'delete', id: missingId },
+        ]);
+
+      expect(response.status).toBe(StatusCodes.MULTI_STATUS);
+      expect(response.body.summary).toEqual({ total: 2, succeeded: 0, failed: 2 });
+      expect(response.body.results.map(({ status }: { status: number }) => status)).toEqual([
+        StatusCodes.FAILED_DEPENDENCY,
+        StatusCodes.NOT_FOUND,
+      ]);
+      expect(users).toEqual(testUsers);
+    });
+
+    it('should report forbidden operations per item', async () => {
+      const response = await authorizedRequest(app, { roles: ['manager'] })
+        .post('/users/bulk')
+        .send([
+          { op: 'create', data: { firstName: 'Alice', lastName: 'Johnson' } },
+          { op: 'delete', id: testUsers[0].id },
+        ]);
+
+      expect(response.body.results.map(({ status }: { status: number }) => status)).toEqual([
+        StatusCodes.CREATED,
+        StatusCodes.FORBIDDEN,
+      ]);
+    });
+
+    it.each([
+      ['a non-array body', { op: 'create' }],
+      ['an empty batch', []],
+      ['an unknown operation', [{ op: 'upsert', data: {} }]],
+      ['an update without an id', [{ op: 'update', data: {} }]],
+    ])('should return 400 for %s', async (_, body) => {
+      const response = await authorizedRequest(app).post('/users/bulk').send(body);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('GET /users/search', () => {
+    beforeEach(() => {
+      // the fixtures are swapped in behind the controllers' back, so index them explicitly
+      userSearchIndex.rebuild(users);
+    });
+
+    it('should return ranked matches with their scores and matched fields', async () => {
+      const response = await authorizedRequest(app).get('/users/search?q=jane smyth');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({
+        data: [{ score: expect.any(Number), matches: ['firstName', 'lastName', 'email'], user: testUsers[1] }],
+        total: 1,
+      });
+    });
+
+    it('should drop excluded fields from search results', async () => {
+      const response = await authorizedRequest(app).get('/users/search?q=jane&exclude=createdAt,updatedAt,phone');
+
+      expect(response.body.data[0].user).toEqual({
+        id: testUsers[1].id,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        email: 'jane.smith@example.com',
+      });
+    });
+
+    it('should find users by phone digits', async () => {
+      const response = await authorizedRequest(app).get('/users/search').query({ q: '111-2222' });
+
+      expect(response.body.data.map(({ user }: { user: User }) => user.id)).toEqual([testUsers[2].id]);
+    });
+
+    it('should find users created through the API', async () => {
+      await authorizedRequest(app)
+        .post('/user')
+        .send({ firstName: 'Alice', lastName: 'Johnson', email: 'alice@example.com' });
+
+      const response = await authorizedRequest(app).get('/users/search?q=alice');
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.data[0].user).toMatchObject({ firstName: 'Alice' });
+    });
+
+    it('should honour limit and fuzzy', async () => {
+      const limited = await authorizedRequest(app).get('/users/search?q=example&limit=2');
+      const exact = await authorizedRequest(app).get('/users/search?q=smyth&fuzzy=false');
+
+      expect(limited.body.total).toBe(3);
+      expect(limited.body.data).toHaveLength(2);
+      expect(exact.body).toEqual({ data: [], total: 0 });
+    });
+
+    it('should return 400 without a query', async () => {
+      const response = await authorizedRequest(app).get('/users/search');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should require user:list', async () => {
+      const response = await authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] }).get(
+        '/users/search?q=john',
+      );
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('GET /users/events', () => {
+    // supertest waits for the response to end, so the never-ending stream is read over a real connection
+    const openEventStream = async (headers: Record<string, string> = {}) => {
+      const server = app.listen(0, '127.0.0.1');
+      await once(server, 'listening');
+
+      const request = http.get({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        path: '/users/events',
+        headers: { Authorization: bearerToken(), ...headers },
+      });
+      const [response] = (await once(request, 'response')) as [IncomingMessage];
+
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk) => (text += chunk));
+
+      return {
+        response,
+        events: () =>
+          [...text.matchAll(/id: (\d+)\nevent: (.+)\ndata: (.+)\n\n/g)].map(([, id, type, data]) => ({
+            id,
+            type,
+            data: JSON.parse(data),
+          })),
+        close: async () => {
+          request.destroy();
+          server.closeAllConnections();
+          await new Promise((resolve) => server.close(resolve));
+        },
+      };
+    };
+
+    it('should push user changes as they happen', async () => {
+      const stream = await openEventStream();
+
+      const { body: user } = await authorizedRequest(app)
+        .post('/user')
+        .send({ firstName: 'Alice', lastName: 'Johnson' });
+      await authorizedRequest(app).delete(`/user/${user.id}`);
+      await vi.waitFor(() => expect(stream.events()).toHaveLength(2));
+      await stream.close();
+
+      expect(stream.response.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+      expect(stream.events()).toEqual([
+        { id: expect.any(String), type: 'user.created', data: expect.objectContaining({ data: { user } }) },
+        { id: expect.any(String), type: 'user.deleted', data: expect.objectContaining({ actor: 'test-admin' }) },
+      ]);
+    });
+
+    it('should replay the events after Last-Event-ID', async () => {
+      const first = await openEventStream();
+      const { body: user } = await authorizedRequest(app)
+        .post('/user')
+        .send({ firstName: 'Alice', lastName: 'Johnson' });
+      await vi.waitFor(() => expect(first.events()).toHaveLength(1));
+      await first.close();
+
+      // missed while disconnected
+      await authorizedRequest(app).patch(`/user/${user.id}`).send({ firstName: 'Alicia' });
+      const resumed = await openEventStream({ 'Last-Event-ID': first.events()[0].id });
+      await vi.waitFor(() => expect(resumed.events()).toHaveLength(1));
+      await resumed.close();
+
+      expect(resumed.events()[0]).toMatchObject({
+        id: String(Number(first.events()[0].id) + 1),
+        type: 'user.updated',
+        data: { data: { user: { firstName: 'Alicia' }, previous: { firstName: 'Alice' } } },
+      });
+    });
+
+    it('should drop the subscriber when the client disconnects', async () => {
+      // earlier tests' connections may still be winding down
+      await vi.waitFor(() => expect(userEventStream.subscriberCount()).toBe(0));
+      const stream = await openEventStream();
+
+      expect(userEventStream.subscriberCount()).toBe(1);
+      await stream.close();
+
+      await vi.waitFor(() => expect(userEventStream.subscriberCount()).toBe(0));
+    });
+
+    it('should require user:list', async () => {
+      const response = await authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] }).get('/users/events');
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('GET /users/export', () => {
+    it('should export active users as a CSV attachment by default', async () => {
+      users[2] = { ...testUsers[2], deletedAt: '2024-02-01T00:00:00.000Z' };
+
+      const response = await authorizedRequest(app).get('/users/export');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="users.csv"');
+      expect(response.text.split('\r\n')).toEqual([
+        'id,firstName,lastName,email,phone,createdAt,updatedAt',
+        expect.stringContaining('John,Doe'),
+        expect.stringContaining('Jane,Smith'),
+        '',
+      ]);
+    });
+
+    it('should export NDJSON', async () => {
+      const response = await authorizedRequest(app)
+        .get('/users/export?format=ndjson')
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk) => (text += chunk));
+          res.on('end', () => callback(null, text));
+        });
+
+      expect(response.headers['content-type']).toMatch(/^application\/x-ndjson/);
+      expect(
+        response.body
+          .trim()
+          .split('\n')
+          .map((line: string) => JSON.parse(line)),
+      ).toEqual(testUsers);
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      const response = await authorizedRequest(app).get('/users/export?format=xlsx');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('POST /users/import', () => {
+    it('should import CSV rows and return a summary', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/import?mapping[Given Name]=firstName&mapping[Family Name]=lastName')
+        .set('Content-Type', 'text/csv')
+        .send('Given Name,Family Name,email\nAlice,Johnson,alice@example.com\nBob,,bob@example.com\n');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.summary).toEqual({ total: 2, created: 1, valid: 0, skipped: 0, failed: 1 });
+      expect(response.body.rows[1]).toEqual({
+        row: 2,
+        status: 'failed',
+        errors: [{ path: 'lastName', message: expect.any(String) }],
+      });
+      expect(users).toHaveLength(4);
+    });
+
+    it('should import NDJSON', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/import')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('{"firstName":"Alice","lastName":"Johnson"}\n{"firstName":"Bob","lastName":"Wilson"}\n');
+
+      expect(response.body.summary.created).toBe(2);
+    });
+
+    it('should spend one create-user token per imported row, and none on a dry run', async () => {
+      const client = authorizedRequest(app, { subject: 'import-rate-limited-client' });
+      const csv = 'firstName,lastName\nAlice,Johnson\nBob,Wilson\n';
+
+      const dryRun = await client.post('/users/import?dryRun=true').set('Content-Type', 'text/csv').send(csv);
+      const imported = await client.post('/users/import').set('Content-Type', 'text/csv').send(csv);
+
+      expect(dryRun.headers).not.toHaveProperty('ratelimit-remaining');
+      expect(imported.headers['ratelimit-remaining']).toBe('28');
+    });
+
+    it('should only report on a dry run', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/import?dryRun=true')
+        .set('Content-Type', 'text/csv')
+        .send('firstName,lastName\nAlice,Johnson\n');
+
+      expect(response.body).toMatchObject({ dryRun: true, summary: { valid: 1, created: 0 } });
+      expect(users).toHaveLength(3);
+    });
+
+    it('should return 415 for other content types', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/import')
+        .send([{ firstName: 'Alice' }]);
+
+      expect(response.status).toBe(StatusCodes.UNSUPPORTED_MEDIA_TYPE);
+      expect(response.body).toHaveProperty('type', 'urn:problem-type:unsupported-media-type');
+    });
+
+    it('should return 400 for a mapping to an unknown field', async () => {
+      const response = await authorizedRequest(app)
+        .post('/users/import?mapping[Role]=role')
+        .set('Content-Type', 'text/csv')
+        .send('Role\nadmin\n');
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it('should require the create permission', async () => {
+      const response = await authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] })
+        .post('/users/import')
+        .set('Content-Type', 'text/csv')
+        .send('firstName,lastName\nAlice,Johnson\n');
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe('Access Control', () => {
+    it('should allow managers to list users', async () => {
+      const response = await authorizedRequest(app, { roles: ['manager'] }).get('/users');
+
+      expect(response.status).toBe(StatusCodes.OK);
+    });
+
+    it('should return 403 when a user without list permission lists users', async () => {
+      const response = await authorizedRequest(app, { subject: testUsers[0].id, roles: ['self'] }).get('/users');
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body).toHaveProperty('detail', 'Missing permission user:list');
     });
   });
 
   describe('HTTP Methods', () => {
     it('should return 404 for POST requests to /users', async () => {
-      const response = await request(app).post('/users').send({ test: 'data' });
+      const response = await authorizedRequest(app).post('/users').send({ test: 'data' });
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
 
     it('should return 404 for PUT requests to /users', async () => {
-      const response = await request(app).put('/users').send({ test: 'data' });
+      const response = await authorizedRequest(app).put('/users').send({ test: 'data' });
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
 
     it('should return 404 for DELETE requests to /users', async () => {
-      const response = await request(app).delete('/users');
+      const response = await authorizedRequest(app).delete('/users');
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
 
     it('should return 404 for PATCH requests to /users', async () => {
-      const response = await request(app).patch('/users').send({ test: 'data' });
+      const response = await authorizedRequest(app).patch('/users').send({ test: 'data' });
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
@@ -216,13 +797,13 @@ describe('Users Routes', () => {
 
   describe('Route Parameters', () => {
     it('should return 404 for requests to /users with parameters', async () => {
-      const response = await request(app).get('/users/123');
+      const response = await authorizedRequest(app).get('/users/123');
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
 
     it('should return 404 for nested paths under /users', async () => {
-      const response = await request(app).get('/users/some/nested/path');
+      const response = await authorizedRequest(app).get('/users/some/nested/path');
 
       expect(response.status).toBe(StatusCodes.NOT_FOUND);
     });
@@ -237,37 +818,37 @@ describe('Users Routes', () => {
       users.length = 0;
       users.push(...originalUsers);
 
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(originalUsers);
+      expect(response.body.data).toEqual(originalUsers);
     });
 
     it('should handle malformed Accept headers', async () => {
-      const response = await request(app).get('/users').set('Accept', 'invalid-mime-type');
+      const response = await authorizedRequest(app).get('/users').set('Accept', 'invalid-mime-type');
 
       expect(response.status).toBe(StatusCodes.OK);
-      expect(response.body).toEqual(testUsers);
+      expect(response.body.data).toEqual(testUsers);
     });
   });
 
   describe('Response Format', () => {
     it('should return users with consistent structure', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
 
       // Verify each user has the same structure
-      const firstUser = response.body[0];
+      const firstUser = response.body.data[0];
       const userKeys = Object.keys(firstUser).sort();
 
-      response.body.forEach((user: User) => {
+      response.body.data.forEach((user: User) => {
         expect(Object.keys(user).sort()).toEqual(userKeys);
       });
     });
 
     it('should return valid JSON that can be parsed', async () => {
-      const response = await request(app).get('/users');
+      const response = await authorizedRequest(app).get('/users');
 
       expect(response.status).toBe(StatusCodes.OK);
       expect(() => JSON.parse(JSON.stringify(response.body))).not.toThrow();
@@ -0,0 +1,197 @@
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import app from '../../../../../app';
+import { users } from '../../../../models/users-model';
+import { webhookDeliveries, WebhookDelivery, webhooks } from '../../../../models/webhook-model';
+import { verifySignature, webhookDispatcher } from '../../../../webhooks';
+import { authorizedRequest } from '../../../helpers/auth';
+import { startWebhookReceiver, WebhookReceiver } from '../../../helpers/webhook-receiver';
+
+describe('Webhooks Routes', () => {
+  const missingId = '999e4567-e89b-12d3-a456-426614174999';
+  let receiver: WebhookReceiver;
+
+  const subscribe = (body: Record<string, unknown> = {}) =>
+    authorizedRequest(app)
+      .post('/webhooks')
+      .send({ url: receiver.url, events: ['user.created'], ...body });
+
+  beforeEach(async () => {
+    receiver = await startWebhookReceiver();
+    webhooks.length = 0;
+    webhookDeliveries.length = 0;
+    users.length = 0;
+  });
+
+  afterEach(async () => {
+    await webhookDispatcher.idle();
+    await receiver.close();
+    webhooks.length = 0;
+    webhookDeliveries.length = 0;
+    users.length = 0;
+  });
+
+  describe('POST /webhooks', () => {
+    it('should create a webhook and reveal its secret once', async () => {
+      const created = await subscribe({ description: 'CRM sync' });
+
+      expect(created.status).toBe(StatusCodes.CREATED);
+      expect(created.body).toMatchObject({
+        url: receiver.url,
+        events: ['user.created'],
+        description: 'CRM sync',
+        active: true,
+        secret: expect.stringMatching(/^whsec_/),
+      });
+
+      const fetched = await authorizedRequest(app).get(`/webhooks/${created.body.id}`);
+      expect(fetched.body).not.toHaveProperty('secret');
+    });
+
+    it.each([
+      ['a missing url', { url: undefined }],
+      ['a non-http url', { url: 'ftp://example.com/hooks' }],
+      ['an unknown event', { events: ['user.renamed'] }],
+      ['no events', { events: [] }],
+      ['a short secret', { secret: 'short' }],
+    ])('should return 400 for %s', async (_, body) => {
+      const response = await subscribe(body);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should deliver signed user events to subscribed webhooks', async () => {
+      const { body: webhook } = await subscribe();
+
+      const { body: user } = await authorizedRequest(app)
+        .post('/user')
+        .send({ firstName: 'Alice', lastName: 'Johnson' });
+      await webhookDispatcher.idle();
+
+      expect(receiver.requests).toHaveLength(1);
+      const [{ headers, body }] = receiver.requests;
+      expect(JSON.parse(body)).toMatchObject({ type: 'user.created', actor: 'test-admin', data: { user } });
+      expect(verifySignature(webhook.secret, body, headers['x-webhook-signature'] as string)).toBe(true);
+
+      const log = await authorizedRequest(app).get(`/webhooks/${webhook.id}/deliveries`);
+      expect(log.status).toBe(StatusCodes.OK);
+      expect(log.body.data).toEqual([
+        expect.objectContaining({ event: 'user.created', status: 'delivered', attempts: [expect.any(Object)] }),
+      ]);
+    });
+
+    it('should only deliver the events a webhook subscribed to', async () => {
+      await subscribe({ events: ['user.deleted'] });
+
+      await authorizedRequest(app).post('/user').send({ firstName: 'Alice', lastName: 'Johnson' });
+      await webhookDispatcher.idle();
+
+      expect(receiver.requests).toEqual([]);
+    });
+
+    it('should stop delivering to a deactivated webhook', async () => {
+      const { body: webhook } = await subscribe();
+
+      const updated = await authorizedRequest(app).patch(`/webhooks/${webhook.id}`).send({ active: false });
+      await authorizedRequest(app).post('/user').send({ firstName: 'Alice', lastName: 'Johnson' });
+      await webhookDispatcher.idle();
+
+      expect(updated.body).toMatchObject({ active: false });
+      expect(receiver.requests).toEqual([]);
+    });
+  });
+
+  describe('dead letters', () => {
+    const deadDelivery = (webhookId: string): WebhookDelivery => ({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      webhookId,
+      eventId: 'event-1',
+      event: 'user.created',
+      payload: '{"type":"user.created"}',
+      status: 'dead',
+      attempts: [{ attemptedAt: '2024-01-01T00:00:00.000Z', url: receiver.url, durationMs: 3, responseStatus: 500 }],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      completedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    it('should list dead deliveries and redeliver them', async () => {
+      const { body: webhook } = await subscribe();
+      webhookDeliveries.push(deadDelivery(webhook.id));
+
+      const listed = await authorizedRequest(app).get('/webhooks/dead-letters');
+      expect(listed.body.data.map(({ id }: WebhookDelivery) => id)).toEqual([webhookDeliveries[0].id]);
+
+      const redelivered = await authorizedRequest(app).post(
+        `/webhooks/deliveries/${webhookDeliveries[0].id}/redeliver`,
+      );
+      expect(redelivered.status).toBe(StatusCodes.ACCEPTED);
+      expect(redelivered.body.status).toBe('pending');
+
+      await webhookDispatcher.idle();
+      expect(receiver.requests.map(({ body }) => body)).toEqual(['{"type":"user.created"}']);
+      expect((await authorizedRequest(app).get('/webhooks/dead-letters')).body.data).toEqual([]);
+    });
+
+    it('should return 409 when redelivering a delivery that is not dead', async () => {
+      const { body: webhook } = await subscribe();
+      webhookDeliveries.push({ ...deadDelivery(webhook.id), status: 'delivered' });
+
+      const response = await authorizedRequest(app).post(`/webhooks/deliveries/${webhookDeliveries[0].id}/redeliver`);
+
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+    });
+  });
+
+  describe('management', () => {
+    it('should list and delete webhooks', async () => {
+      const { body: webhook } = await subscribe();
+
+      const listed = await authorizedRequest(app).get('/webhooks');
+      const deleted = await authorizedRequest(app).delete(`/webhooks/${webhook.id}`);
+      const fetched = await authorizedRequest(app).get(`/webhooks/${webhook.id}`);
+
+      expect(listed.body.data).toEqual([expect.objectContaining({ id: webhook.id })]);
+      expect(listed.body.data[0]).not.toHaveProperty('secret');
+      expect(deleted.status).toBe(StatusCodes.OK);
+      expect(fetched.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it.each([
+      ['get', `/webhooks/${missingId}`],
+      ['patch', `/webhooks/${missingId}`],
+      ['delete', `/webhooks/${missingId}`],
+      ['get', `/webhooks/${missingId}/deliveries`],
+      ['post', `/webhooks/deliveries/${missingId}/redeliver`],
+    ] as const)('should return 404 for %s %s', async (method, path) => {
+      const response = await authorizedRequest(app)[method](path).send({ active: false });
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it('should return 400 for an empty update', async () => {
+      const { body: webhook } = await subscribe();
+
+      const response = await authorizedRequest(app).patch(`/webhooks/${webhook.id}`).send({});
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('Access Control', () => {
+    it('should require a bearer token', async () => {
+      const response = await request(app).get('/webhooks');
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it('should be limited to admins', async () => {
+      const response = await authorizedRequest(app, { roles: ['manager'] }).get('/webhooks');
+
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body).toHaveProperty('detail', 'Missing permission webhook:manage');
+    });
+  });
+});
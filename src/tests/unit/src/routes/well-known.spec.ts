@@ -0,0 +1,35 @@
+import { generateKeyPairSync } from 'crypto';
+import express from 'express';
+import { StatusCodes } from 'http-status-codes';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { createKeyStore } from '../../../../auth/keys';
+import { createWellKnownRouter } from '../../../../routes/well-known';
+
+describe('Well-Known Routes', () => {
+  describe('GET /.well-known/jwks.json', () => {
+    it('should publish the RS256 verification keys', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+      });
+      const app = express().use(
+        '/.well-known',
+        createWellKnownRouter(
+          createKeyStore([
+            { kid: 'rsa-2024', alg: 'RS256', privateKey },
+            { kid: 'hmac', alg: 'HS256', secret: 'shh' },
+          ]),
+        ),
+      );
+
+      const response = await request(app).get('/.well-known/jwks.json');
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body).toEqual({
+        keys: [{ kty: 'RSA', n: expect.any(String), e: 'AQAB', kid: 'rsa-2024', alg: 'RS256', use: 'sig' }],
+      });
+    });
+  });
+});
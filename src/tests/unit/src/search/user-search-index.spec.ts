@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { User } from '../../../../models/users-model';
+import { createUserSearchIndex, UserSearchIndex } from '../../../../search';
+
+describe('createUserSearchIndex', () => {
+  const user = (id: string, firstName: string, lastName: string, email: string, phone: string): User => ({
+    id,
+    firstName,
+    lastName,
+    email,
+    phone,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  const emma = user('1', 'Emma', 'Johnson', 'emma.johnson@email.com', '+1-555-555-0123');
+  const john = user('2', 'John', 'Smith', 'jsmith@example.com', '(555) 987-6543');
+  const zoe = user('3', 'Zoë', 'Brown', 'zoe@example.com', '+44 20 7946 0958');
+
+  let index: UserSearchIndex;
+  const ids = (query: string, fuzzy?: boolean) => index.search(query, { fuzzy }).map(({ id }) => id);
+
+  beforeEach(() => {
+    index = createUserSearchIndex([emma, john, zoe]);
+  });
+
+  it('should match whole words in names and emails, case-insensitively', () => {
+    expect(ids('EMMA')).toEqual(['1']);
+    expect(ids('example')).toEqual(['2', '3']);
+  });
+
+  it('should match prefixes', () => {
+    expect(ids('smi')).toEqual(['2']);
+    expect(index.search('jo', { fuzzy: false })).toEqual([
+      { id: '2', score: 2.1, fields: ['firstName'] },
+      { id: '1', score: 1.843, fields: ['lastName', 'email'] },
+    ]);
+  });
+
+  it('should tolerate typos unless fuzzy matching is turned off', () => {
+    expect(ids('jonson')).toEqual(['1']);
+    expect(ids('smyth')).toEqual(['2']);
+    expect(ids('jonson', false)).toEqual([]);
+  });
+
+  it('should not apply fuzziness to very short tokens', () => {
+    expect(ids('zz')).toEqual([]);
+  });
+
+  it('should fold accents', () => {
+    expect(ids('zoe')).toEqual(['3']);
+    expect(ids('Zoë')).toEqual(['3']);
+  });
+
+  it('should match phone numbers by their digits regardless of formatting', () => {
+    expect(ids('555-0123')).toEqual(['1']);
+    expect(ids('5559876543')).toEqual(['2']);
+    expect(ids('(555) 987')).toEqual(['2']);
+    expect(ids('7946 0958')).toEqual(['3']);
+  });
+
+  it('should require every token to match', () => {
+    expect(ids('emma smith')).toEqual([]);
+    expect(ids('john smith')).toEqual(['2']);
+  });
+
+  it('should rank exact matches above prefix and fuzzy matches', () => {
+    index.sync(user('4', 'Johnny', 'Walker', 'johnny@example.com', ''));
+    index.sync(user('5', 'Jon', 'Snow', 'jon@example.com', ''));
+
+    expect(ids('john')).toEqual(['2', '4', '1', '5']);
+  });
+
+  it('should return nothing for a query without searchable tokens', () => {
+    expect(index.search('  -- ')).toEqual([]);
+  });
+
+  it('should replace a user on sync and drop soft-deleted users', () => {
+    index.sync({ ...john, lastName: 'Doe' });
+    expect(ids('smith', false)).toEqual([]);
+    expect(ids('doe', false)).toEqual(['2']);
+
+    index.sync({ ...john, deletedAt: '2024-02-01T00:00:00.000Z' });
+    expect(ids('john')).toEqual(['1']);
+  });
+
+  it('should remove users and rebuild from scratch', () => {
+    index.remove('1');
+    expect(ids('emma')).toEqual([]);
+
+    index.rebuild([emma]);
+    expect(ids('emma')).toEqual(['1']);
+    expect(ids('john')).toEqual(['1']);
+  });
+});
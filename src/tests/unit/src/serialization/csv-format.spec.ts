@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { csvFormat } from '../../../../serialization';
+
+describe('csvFormat', () => {
+  it('should write one row per item of a list response', () => {
+    const body = {
+      data: [
+        { id: '1', firstName: 'John' },
+        { id: '2', email: 'jane@example.com' },
+      ],
+      meta: { total: 2 },
+    };
+
+    expect(csvFormat.serialize(body)).toBe('id,firstName,email\r\n1,John,\r\n2,,jane@example.com\r\n');
+  });
+
+  it('should write a single object as one row with dotted columns for nested objects', () => {
+    const body = { score: 2.5, matches: ['firstName', 'email'], user: { id: '1', name: { first: 'John, Jr.' } } };
+
+    expect(csvFormat.serialize(body)).toBe(
+      'score,matches,user.id,user.name.first\r\n2.5,"[""firstName"",""email""]",1,"John, Jr."\r\n',
+    );
+  });
+
+  it('should parse a header and one record, leaving out empty cells', () => {
+    expect(csvFormat.parse!(Buffer.from('firstName,lastName,email\r\nAlice,Johnson,\r\n'))).toEqual({
+      firstName: 'Alice',
+      lastName: 'Johnson',
+    });
+  });
+
+  it('should throw unless there is exactly one record', () => {
+    expect(() => csvFormat.parse!(Buffer.from('firstName\r\nAlice\r\nBob\r\n'))).toThrowError(
+      'Expected a header and one record, found 2 records',
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import { decode } from '@msgpack/msgpack';
+import { describe, expect, it } from 'vitest';
+import { msgpackFormat } from '../../../../serialization';
+
+describe('msgpackFormat', () => {
+  it('should round-trip a body', () => {
+    const body = { id: '1', roles: ['admin'], meta: { prev: null } };
+    const encoded = msgpackFormat.serialize(body);
+
+    expect(Buffer.isBuffer(encoded)).toBe(true);
+    expect(decode(encoded as Buffer)).toEqual(body);
+    expect(msgpackFormat.parse!(encoded as Buffer)).toEqual(body);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { xmlFormat } from '../../../../serialization';
+
+describe('xmlFormat', () => {
+  it('should wrap objects in a response element and repeat array elements', () => {
+    expect(xmlFormat.serialize({ data: [{ id: '1', name: 'A & B' }, { id: '2' }], meta: { prev: null } })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+        '<response><data><id>1</id><name>A &amp; B</name></data><data><id>2</id></data><meta><prev/></meta></response>',
+    );
+  });
+
+  it('should use item elements for a top-level array', () => {
+    expect(xmlFormat.serialize([{ id: '1' }])).toContain('<response><item><id>1</id></item></response>');
+  });
+
+  it('should parse the root element into an object of strings', () => {
+    const xml = '<?xml version="1.0"?><user><firstName>Alice</firstName><phone>5551234567</phone></user>';
+
+    expect(xmlFormat.parse!(Buffer.from(xml))).toEqual({ firstName: 'Alice', phone: '5551234567' });
+  });
+
+  it('should parse an empty root element into an empty object', () => {
+    expect(xmlFormat.parse!(Buffer.from('<user/>'))).toEqual({});
+  });
+
+  it('should throw for malformed XML', () => {
+    expect(() => xmlFormat.parse!(Buffer.from('<user><firstName>Alice</user>'))).toThrow();
+  });
+});
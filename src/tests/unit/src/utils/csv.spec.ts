@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvRow, formatCsvValue, parseCsv, parseCsvRecords } from '../../../../utils/csv';
+
+describe('csv', () => {
+  describe('formatCsvValue', () => {
+    it('should leave plain values unquoted', () => {
+      expect(formatCsvValue('John')).toBe('John');
+      expect(formatCsvValue('+1-555-123-4567')).toBe('+1-555-123-4567');
+      expect(formatCsvValue(42)).toBe('42');
+    });
+
+    it('should quote values with commas, quotes or line breaks', () => {
+      expect(formatCsvValue('Doe, John')).toBe('"Doe, John"');
+      expect(formatCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(formatCsvValue('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('should write missing values as empty cells', () => {
+      expect(formatCsvRow(['a', undefined, null, 'b'])).toBe('a,,,b\r\n');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should split rows on LF and CRLF', () => {
+      expect(parseCsv('a,b\r\n1,2\n3,4')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', '4'],
+      ]);
+    });
+
+    it('should read quoted cells with commas, doubled quotes and line breaks', () => {
+      expect(parseCsv('"Doe, John","say ""hi""","two\nlines"\n')).toEqual([['Doe, John', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('should ignore a byte order mark and a trailing line break', () => {
+      expect(parseCsv('\uFEFFa,b\n')).toEqual([['a', 'b']]);
+    });
+
+    it('should round-trip formatted rows', () => {
+      const values = ['Doe, John', 'say "hi"', '', 'two\r\nlines'];
+
+      expect(parseCsv(formatCsvRow(values))).toEqual([values]);
+    });
+  });
+
+  describe('parseCsvRecords', () => {
+    it('should key each row by the header', () => {
+      expect(parseCsvRecords(' firstName ,lastName\nJohn,Doe\nJane')).toEqual([
+        { firstName: 'John', lastName: 'Doe' },
+        { firstName: 'Jane', lastName: '' },
+      ]);
+    });
+
+    it('should return no records for an empty document', () => {
+      expect(parseCsvRecords('')).toEqual([]);
+    });
+  });
+});
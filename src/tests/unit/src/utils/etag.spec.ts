@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { etagFor, ifMatchSatisfied } from '../../../../utils/etag';
+
+describe('etag', () => {
+  const record = { id: '1', firstName: 'John', updatedAt: '2024-01-01T00:00:00.000Z' };
+
+  describe('etagFor', () => {
+    it('should return the same quoted tag for the same record', () => {
+      expect(etagFor(record)).toMatch(/^"[\w-]+"$/);
+      expect(etagFor({ ...record })).toBe(etagFor(record));
+    });
+
+    it('should not depend on the order of the keys', () => {
+      const { updatedAt, firstName, id } = record;
+
+      expect(etagFor({ updatedAt, firstName, id })).toBe(etagFor(record));
+      expect(etagFor({ nested: { b: 1, a: 2 } })).toBe(etagFor({ nested: { a: 2, b: 1 } }));
+    });
+
+    it('should return a new tag when the record changes', () => {
+      expect(etagFor({ ...record, updatedAt: '2024-01-02T00:00:00.000Z' })).not.toBe(etagFor(record));
+      expect(etagFor({ ...record, firstName: 'Johnny' })).not.toBe(etagFor(record));
+    });
+  });
+
+  describe('ifMatchSatisfied', () => {
+    const etag = etagFor(record);
+
+    it('should match the current tag, alone or in a list', () => {
+      expect(ifMatchSatisfied(etag, etag)).toBe(true);
+      expect(ifMatchSatisfied(`"other", ${etag}`, etag)).toBe(true);
+    });
+
+    it('should match any tag with *', () => {
+      expect(ifMatchSatisfied('*', etag)).toBe(true);
+    });
+
+    it('should not match other or weak tags', () => {
+      expect(ifMatchSatisfied('"other"', etag)).toBe(false);
+      expect(ifMatchSatisfied(`W/${etag}`, etag)).toBe(false);
+    });
+  });
+});
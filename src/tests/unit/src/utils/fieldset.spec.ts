@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { projectFields } from '../../../../utils/fieldset';
+
+describe('projectFields', () => {
+  const item = { id: '1', firstName: 'John', lastName: 'Doe', email: 'john@example.com' };
+
+  it('should return the item untouched without a fieldset', () => {
+    expect(projectFields(item, {})).toBe(item);
+  });
+
+  it('should keep only the requested fields', () => {
+    expect(projectFields(item, { fields: ['firstName', 'email'] })).toEqual({
+      firstName: 'John',
+      email: 'john@example.com',
+    });
+  });
+
+  it('should drop excluded fields, also from the requested ones', () => {
+    expect(projectFields(item, { exclude: ['email'] })).toEqual({ id: '1', firstName: 'John', lastName: 'Doe' });
+    expect(projectFields(item, { fields: ['firstName', 'email'], exclude: ['email'] })).toEqual({ firstName: 'John' });
+  });
+
+  it('should always keep the given fields', () => {
+    expect(projectFields(item, { fields: ['lastName'], exclude: ['id'] }, ['id'])).toEqual({
+      id: '1',
+      lastName: 'Doe',
+    });
+  });
+});
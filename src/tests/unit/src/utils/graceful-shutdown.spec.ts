@@ -0,0 +1,109 @@
+import { once } from 'events';
+import express from 'express';
+import http, { IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createReadiness, Readiness } from '../../../../health';
+import { createLogger } from '../../../../logging';
+import { createGracefulShutdown } from '../../../../utils/graceful-shutdown';
+import { openSseConnection } from '../../../../utils/sse';
+
+describe('createGracefulShutdown', () => {
+  const logger = createLogger({ level: 'silent' });
+
+  let server: Server;
+  let readiness: Readiness;
+  let exit: ReturnType<typeof vi.fn>;
+  let pending: ServerResponse[];
+  let agent: http.Agent;
+
+  beforeEach(async () => {
+    pending = [];
+    exit = vi.fn();
+    readiness = createReadiness();
+    agent = new http.Agent({ keepAlive: true });
+    // /slow requests are answered by the test, /events streams until it is closed, everything else at once
+    server = http.createServer(
+      express()
+        .get('/slow', (req, res) => pending.push(res))
+        .get('/events', (req, res) => openSseConnection(req, res))
+        .use((req, res) => res.end('ok')),
+    );
+    server.listen(0);
+    await once(server, 'listening');
+  });
+
+  afterEach(() => {
+    agent.destroy();
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const get = (path: string) =>
+    new Promise<IncomingMessage>((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      http.get({ port, path, agent }, (res) => res.resume().on('end', () => resolve(res))).on('error', reject);
+    });
+
+  it('should fail readiness, finish in-flight requests and exit with 0', async () => {
+    const shutDown = createGracefulShutdown(server, { readiness, logger, exit, drainDelayMs: 0 });
+    await get('/');
+    const slow = get('/slow');
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    shutDown('SIGTERM');
+    expect((await readiness.check()).status).toBe('shutting-down');
+    expect(exit).not.toHaveBeenCalled();
+
+    pending[0].end('done');
+    const response = await slow;
+
+    expect(response.headers.connection).toBe('close');
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledExactlyOnceWith(0));
+  });
+
+  it('should cut connections and exit with 1 when draining takes too long', async () => {
+    const shutDown = createGracefulShutdown(server, { readiness, logger, exit, timeoutMs: 20, drainDelayMs: 0 });
+    const slow = get('/slow').catch((error) => error);
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    shutDown('SIGINT');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledExactlyOnceWith(1));
+    expect(await slow).toBeInstanceOf(Error);
+  });
+
+  it('should keep serving while readiness fails during the drain delay', async () => {
+    const shutDown = createGracefulShutdown(server, { readiness, logger, exit, drainDelayMs: 50 });
+
+    shutDown('SIGTERM');
+    const response = await get('/');
+
+    expect((await readiness.check()).status).toBe('shutting-down');
+    expect(response.statusCode).toBe(200);
+    expect(response.headers.connection).toBe('close');
+    expect(exit).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledExactlyOnceWith(0));
+  });
+
+  it('should end open event streams instead of waiting for them', async () => {
+    const shutDown = createGracefulShutdown(server, { readiness, logger, exit, drainDelayMs: 0 });
+    const { port } = server.address() as AddressInfo;
+    const [stream] = (await once(http.get({ port, path: '/events', agent }), 'response')) as [IncomingMessage];
+
+    shutDown('SIGTERM');
+    await once(stream.resume(), 'end');
+
+    expect(stream.headers['content-type']).toMatch(/^text\/event-stream/);
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledExactlyOnceWith(0));
+  });
+
+  it('should ignore repeated signals', async () => {
+    const shutDown = createGracefulShutdown(server, { readiness, logger, exit, drainDelayMs: 0 });
+
+    shutDown('SIGTERM');
+    shutDown('SIGTERM');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledTimes(1));
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictError, UnprocessableEntityError } from '../../../../errors';
+import { applyJsonPatch } from '../../../../utils/json-patch';
+
+describe('applyJsonPatch', () => {
+  const document = { name: 'John', tags: ['a', 'b'], address: { city: 'Oslo' }, 'a/b~c': 1 };
+
+  it('should add, replace and remove object members', () => {
+    expect(
+      applyJsonPatch(document, [
+        { op: 'add', path: '/email', value: 'john@example.com' },
+        { op: 'replace', path: '/address/city', value: 'Bergen' },
+        { op: 'remove', path: '/name' },
+      ]),
+    ).toEqual({ email: 'john@example.com', tags: ['a', 'b'], address: { city: 'Bergen' }, 'a/b~c': 1 });
+  });
+
+  it('should insert into, append to and remove from arrays', () => {
+    expect(
+      applyJsonPatch(document, [
+        { op: 'add', path: '/tags/1', value: 'x' },
+        { op: 'add', path: '/tags/-', value: 'z' },
+        { op: 'remove', path: '/tags/0' },
+      ]).tags,
+    ).toEqual(['x', 'b', 'z']);
+  });
+
+  it('should unescape ~1 and ~0 in pointers', () => {
+    expect(applyJsonPatch(document, [{ op: 'replace', path: '/a~1b~0c', value: 2 }])['a/b~c']).toBe(2);
+  });
+
+  it('should replace the whole document at the root pointer', () => {
+    expect(applyJsonPatch(document, [{ op: 'replace', path: '', value: { name: 'Jane' } }])).toEqual({ name: 'Jane' });
+  });
+
+  it('should compare values deeply in tests', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/address', value: { city: 'Oslo' } }])).not.toThrow();
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/tags', value: ['b', 'a'] }])).toThrowError(
+      new ConflictError('Test failed, /tags does not have the expected value'),
+    );
+  });
+
+  it('should reject paths that do not exist', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/phone', value: '1' }])).toThrowError(
+      new UnprocessableEntityError('Path /phone does not exist'),
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/tags/2' }])).toThrowError(UnprocessableEntityError);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/missing/child', value: 1 }])).toThrowError(
+      UnprocessableEntityError,
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: 'name', value: 'John' }])).toThrowError(
+      'Path name is not a JSON pointer',
+    );
+  });
+
+  it('should leave the document untouched', () => {
+    const original = structuredClone(document);
+
+    applyJsonPatch(document, [{ op: 'remove', path: '/tags/0' }]);
+    expect(() =>
+      applyJsonPatch(document, [
+        { op: 'replace', path: '/name', value: 'Jane' },
+        { op: 'test', path: '/name', value: 'John' },
+      ]),
+    ).toThrowError(ConflictError);
+    expect(document).toEqual(original);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { applyMergePatch } from '../../../../utils/merge-patch';
+
+describe('applyMergePatch', () => {
+  const target = { name: 'John', phone: '555', address: { city: 'Oslo', zip: '0150' }, tags: ['a', 'b'] };
+
+  it('should merge members and remove the ones set to null', () => {
+    expect(applyMergePatch(target, { name: 'Jane', phone: null, email: 'jane@example.com' })).toEqual({
+      name: 'Jane',
+      email: 'jane@example.com',
+      address: { city: 'Oslo', zip: '0150' },
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('should merge nested objects and replace arrays', () => {
+    expect(applyMergePatch(target, { address: { zip: null, country: 'NO' }, tags: ['c'] })).toMatchObject({
+      address: { city: 'Oslo', country: 'NO' },
+      tags: ['c'],
+    });
+  });
+
+  it('should replace the target with a patch that is not an object', () => {
+    expect(applyMergePatch(target, ['x'])).toEqual(['x']);
+    expect(applyMergePatch('text', { a: { b: null, c: 1 } })).toEqual({ a: { c: 1 } });
+  });
+
+  it('should leave the target untouched', () => {
+    applyMergePatch(target, { name: null, address: { city: null } });
+
+    expect(target).toMatchObject({ name: 'John', address: { city: 'Oslo' } });
+  });
+});
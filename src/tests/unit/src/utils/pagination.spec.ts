@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPageLinks,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+  parseSort,
+  sortBy,
+  SortField,
+  toPageResponse,
+} from '../../../../utils/pagination';
+
+type Item = { id: string; name?: string; rank: number };
+
+describe('pagination', () => {
+  const items: Item[] = [
+    { id: 'a', name: 'Charlie', rank: 2 },
+    { id: 'b', name: 'Alpha', rank: 1 },
+    { id: 'c', rank: 2 },
+    { id: 'd', name: 'Bravo', rank: 3 },
+    { id: 'e', name: 'Delta', rank: 1 },
+  ];
+
+  const byRankThenId: SortField<Item>[] = [
+    { field: 'rank', direction: 'asc' },
+    { field: 'id', direction: 'asc' },
+  ];
+
+  describe('parseSort', () => {
+    it('should parse ascending and descending fields', () => {
+      expect(parseSort<Item>('-rank,name')).toEqual([
+        { field: 'rank', direction: 'desc' },
+        { field: 'name', direction: 'asc' },
+      ]);
+    });
+
+    it('should ignore empty segments', () => {
+      expect(parseSort<Item>('rank,,')).toEqual([{ field: 'rank', direction: 'asc' }]);
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip a cursor', () => {
+      const cursor = { keys: [2, 'c'], direction: 'next' as const };
+
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow();
+      expect(() => decodeCursor(Buffer.from('{"keys":1}').toString('base64url'))).toThrowError('Invalid cursor');
+    });
+  });
+
+  describe('sortBy', () => {
+    it('should sort by multiple fields without mutating the input', () => {
+      const result = sortBy(items, [{ field: 'rank', direction: 'desc' }, ...byRankThenId.slice(1)]);
+
+      expect(result.map((item) => item.id)).toEqual(['d', 'a', 'c', 'b', 'e']);
+      expect(items[0].id).toBe('a');
+    });
+
+    it('should place missing values last in either direction', () => {
+      expect(sortBy(items, [{ field: 'name', direction: 'asc' }]).map((item) => item.id)).toEqual([
+        'b',
+        'd',
+        'a',
+        'e',
+        'c',
+      ]);
+      expect(sortBy(items, [{ field: 'name', direction: 'desc' }]).pop()?.id).toBe('c');
+    });
+  });
+
+  describe('paginate', () => {
+    const sorted = sortBy(items, byRankThenId);
+
+    it('should slice by offset and limit', () => {
+      const page = paginate(sorted, byRankThenId, { limit: 2, offset: 2 });
+
+      expect(page.items.map((item) => item.id)).toEqual(['a', 'c']);
+      expect(page.total).toBe(5);
+      expect(page.offset).toBe(2);
+      expect(page.nextCursor).not.toBeNull();
+      expect(page.prevCursor).not.toBeNull();
+    });
+
+    it('should walk forwards and backwards with cursors', () => {
+      const first = paginate(sorted, byRankThenId, { limit: 2 });
+      const second = paginate(sorted, byRankThenId, { limit: 2, cursor: decodeCursor(first.nextCursor!) });
+      const back = paginate(sorted, byRankThenId, { limit: 2, cursor: decodeCursor(second.prevCursor!) });
+
+      expect(first.prevCursor).toBeNull();
+      expect(second.items.map((item) => item.id)).toEqual(['a', 'c']);
+      expect(second.offset).toBe(2);
+      expect(back.items).toEqual(first.items);
+    });
+
+    it('should stay stable when an earlier item is removed between requests', () => {
+      const first = paginate(sorted, byRankThenId, { limit: 2 });
+      const remaining = sorted.filter((item) => item.id !== 'b');
+
+      const second = paginate(remaining, byRankThenId, { limit: 2, cursor: decodeCursor(first.nextCursor!) });
+
+      expect(second.items.map((item) => item.id)).toEqual(['a', 'c']);
+    });
+
+    it('should return an empty last page', () => {
+      const page = paginate(sorted, byRankThenId, { limit: 2, offset: 10 });
+
+      expect(page.items).toEqual([]);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('buildPageLinks', () => {
+    const sorted = sortBy(items, byRankThenId);
+
+    it('should build offset links preserving other query parameters', () => {
+      const page = paginate(sorted, byRankThenId, { limit: 2, offset: 2 });
+
+      expect(buildPageLinks('/things', { limit: 2, offset: 2, sort: 'rank' }, page)).toEqual({
+        self: '/things?limit=2&sort=rank&offset=2',
+        next: '/things?limit=2&sort=rank&offset=4',
+        prev: '/things?limit=2&sort=rank&offset=0',
+      });
+    });
+
+    it('should build cursor links when the request used a cursor', () => {
+      const first = paginate(sorted, byRankThenId, { limit: 2 });
+      const cursor = decodeCursor(first.nextCursor!);
+      const page = paginate(sorted, byRankThenId, { limit: 2, cursor });
+
+      const links = buildPageLinks('/things', { limit: 2, cursor }, page);
+
+      expect(links.self).toBe(`/things?limit=2&cursor=${first.nextCursor}`);
+      expect(links.next).toBe(`/things?limit=2&cursor=${page.nextCursor}`);
+      expect(links.prev).toBe(`/things?limit=2&cursor=${page.prevCursor}`);
+    });
+
+    it('should serialize dates as ISO strings', () => {
+      const page = paginate(sorted, byRankThenId, { limit: 10 });
+
+      expect(buildPageLinks('/things', { after: new Date('2024-01-01T00:00:00.000Z') }, page).self).toBe(
+        '/things?after=2024-01-01T00%3A00%3A00.000Z&offset=0',
+      );
+    });
+  });
+
+  describe('toPageResponse', () => {
+    it('should wrap the page items with a meta block', () => {
+      const page = paginate(sortBy(items, byRankThenId), byRankThenId, { limit: 10 });
+
+      expect(toPageResponse(page, '/things', {})).toEqual({
+        data: page.items,
+        meta: {
+          total: 5,
+          count: 5,
+          limit: 10,
+          offset: 0,
+          nextCursor: null,
+          prevCursor: null,
+          links: { self: '/things?offset=0', next: null, prev: null },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatSseMessage, openSseConnection } from '../../../../utils/sse';
+
+describe('sse', () => {
+  describe('formatSseMessage', () => {
+    it('should write id, event and JSON data fields followed by a blank line', () => {
+      expect(formatSseMessage({ id: 7, event: 'user.created', data: { id: 'u1' } })).toBe(
+        'id: 7\nevent: user.created\ndata: {"id":"u1"}\n\n',
+      );
+    });
+
+    it('should split multi-line text over several data lines', () => {
+      expect(formatSseMessage({ data: 'first\nsecond' })).toBe('data: first\ndata: second\n\n');
+    });
+  });
+
+  describe('openSseConnection', () => {
+    let req: EventEmitter;
+    let res: { writeHead: ReturnType<typeof vi.fn>; write: ReturnType<typeof vi.fn> };
+
+    const open = () =>
+      openSseConnection(req as unknown as Request, res as unknown as Response, { heartbeatMs: 1000, retryMs: 500 });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      req = new EventEmitter();
+      res = { writeHead: vi.fn(), write: vi.fn() };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send event-stream headers and the retry interval', () => {
+      open();
+
+      expect(res.writeHead).toHaveBeenCalledWith(
+        200,
+        expect.objectContaining({ 'Content-Type': 'text/event-stream; charset=utf-8' }),
+      );
+      expect(res.write).toHaveBeenCalledWith('retry: 500\n\n');
+    });
+
+    it('should send heartbeats until the client disconnects', () => {
+      open();
+
+      vi.advanceTimersByTime(2000);
+      expect(res.write).toHaveBeenCalledTimes(3);
+      expect(res.write).toHaveBeenLastCalledWith(': heartbeat\n\n');
+
+      req.emit('close');
+      vi.advanceTimersByTime(5000);
+      expect(res.write).toHaveBeenCalledTimes(3);
+    });
+
+    it('should send messages and run cleanups on disconnect', () => {
+      const cleanup = vi.fn();
+      const connection = open();
+
+      connection.send({ id: 1, event: 'user.deleted', data: {} });
+      connection.onClose(cleanup);
+      req.emit('close');
+
+      expect(res.write).toHaveBeenLastCalledWith('id: 1\nevent: user.deleted\ndata: {}\n\n');
+      expect(cleanup).toHaveBeenCalledOnce();
+    });
+  });
+});
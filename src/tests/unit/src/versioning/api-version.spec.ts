@@ -0,0 +1,64 @@
+import { Request } from 'express';
+import { describe, expect, it } from 'vitest';
+import { User } from '../../../../models/users-model';
+import { forApiVersion, requestedApiVersion, serializeUser } from '../../../../versioning';
+
+describe('versioning', () => {
+  const requestWith = (headers: Record<string, string>) =>
+    ({ get: (name: string) => headers[name.toLowerCase()] }) as unknown as Request;
+
+  describe('requestedApiVersion', () => {
+    it.each([
+      [{ 'accept-version': '2' }, '2'],
+      [{ 'accept-version': 'v2' }, '2'],
+      [{ accept: 'application/json; version=2' }, '2'],
+      [{ accept: 'text/html, application/json;q=0.9;version="v2"' }, '2'],
+      [{ 'accept-version': '1', accept: 'application/json; version=2' }, '1'],
+      [{ accept: 'application/json' }, undefined],
+      [{}, undefined],
+    ])('should read %j as %s', (headers, version) => {
+      expect(requestedApiVersion(requestWith(headers))).toBe(version);
+    });
+  });
+
+  describe('forApiVersion', () => {
+    it('should fall back to the closest earlier version', () => {
+      expect(forApiVersion({ '1': 'one' }, '2')).toBe('one');
+      expect(forApiVersion({ '1': 'one', '2': 'two' }, '2')).toBe('two');
+      expect(forApiVersion({ '1': 'one', '2': 'two' })).toBe('one');
+    });
+  });
+
+  describe('serializeUser', () => {
+    const user: User = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      phone: '+1-555-123-4567',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    it('should keep the stored shape in v1', () => {
+      expect(serializeUser(user, '1')).toBe(user);
+      expect(serializeUser(user)).toBe(user);
+    });
+
+    it('should group the name in v2', () => {
+      expect(serializeUser(user, '2')).toEqual({
+        id: user.id,
+        name: { first: 'John', last: 'Doe' },
+        email: 'john.doe@example.com',
+        phone: '+1-555-123-4567',
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      });
+    });
+
+    it('should only map the name parts a projected user has', () => {
+      expect(serializeUser({ id: user.id, lastName: 'Doe' }, '2')).toEqual({ id: user.id, name: { last: 'Doe' } });
+      expect(serializeUser({ id: user.id, email: user.email }, '2')).toEqual({ id: user.id, email: user.email });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { signPayload, verifySignature } from '../../../../webhooks';
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test-secret-value';
+  const payload = '{"type":"user.created"}';
+  const timestamp = 1_700_000_000;
+
+  it('should sign the timestamp and payload with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+
+    expect(signPayload(secret, payload, timestamp)).toBe(`t=${timestamp},v1=${expected}`);
+  });
+
+  it('should verify its own signatures', () => {
+    expect(verifySignature(secret, payload, signPayload(secret, payload, timestamp), timestamp + 10)).toBe(true);
+  });
+
+  it.each([
+    ['another secret', 'whsec_other-secret-value', payload, timestamp],
+    ['a changed payload', secret, '{"type":"user.deleted"}', timestamp],
+    ['an expired timestamp', secret, payload, timestamp - 301],
+  ])('should reject a signature made with %s', (_, signingSecret, signedPayload, signedAt) => {
+    const header = signPayload(signingSecret, signedPayload, signedAt);
+
+    expect(verifySignature(secret, payload, header, timestamp)).toBe(false);
+  });
+
+  it.each(['', 'v1=abc', `t=${timestamp}`, `t=${timestamp},v1=abc`])(
+    'should reject the malformed header %j',
+    (header) => {
+      expect(verifySignature(secret, payload, header, timestamp)).toBe(false);
+    },
+  );
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { userEvent } from '../../../../events';
+import { User } from '../../../../models/users-model';
+import { Webhook, WebhookDelivery } from '../../../../models/webhook-model';
+import { createInMemoryWebhookRepository, WebhookRepository } from '../../../../repositories/webhook';
+import { createWebhookDispatcher, verifySignature, WebhookDispatcher } from '../../../../webhooks';
+import { startWebhookReceiver, WebhookReceiver } from '../../../helpers/webhook-receiver';
+
+describe('createWebhookDispatcher', () => {
+  const user: User = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-123-4567',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const created = userEvent('user.created', user, { actor: 'admin' });
+
+  let receiver: WebhookReceiver;
+  let deliveries: WebhookDelivery[];
+  let repository: WebhookRepository;
+  let dispatcher: WebhookDispatcher;
+
+  const subscribe = (webhook: Partial<Webhook> = {}) =>
+    repository.create({
+      id: `webhook-${repository.list().length + 1}`,
+      url: receiver.url,
+      events: ['user.created'],
+      active: true,
+      secret: 'whsec_test-secret-value',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      ...webhook,
+    });
+
+  const start = async (respond?: (index: number) => number) => {
+    receiver = await startWebhookReceiver(respond);
+    deliveries = [];
+    repository = createInMemoryWebhookRepository([], deliveries);
+    dispatcher = createWebhookDispatcher(repository, { maxAttempts: 3, retryDelayMs: 5, timeoutMs: 1000 });
+  };
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  describe('with a healthy receiver', () => {
+    beforeEach(() => start());
+
+    it('should post a signed JSON payload to every matching subscription', async () => {
+      subscribe();
+      subscribe({ events: ['*'] });
+      subscribe({ events: ['user.deleted'] });
+      subscribe({ active: false });
+
+      const queued = dispatcher.dispatch(created);
+      await dispatcher.idle();
+
+      expect(queued.map(({ webhookId }) => webhookId)).toEqual(['webhook-1', 'webhook-2']);
+      expect(receiver.requests).toHaveLength(2);
+
+      const [{ headers, body }] = receiver.requests;
+      expect(JSON.parse(body)).toEqual({
+        id: created.id,
+        type: 'user.created',
+        occurredAt: created.occurredAt,
+        actor: 'admin',
+        data: { user },
+      });
+      expect(headers).toMatchObject({
+        'content-type': 'application/json',
+        'x-webhook-event': 'user.created',
+        'x-webhook-delivery': queued[0].id,
+      });
+      expect(verifySignature('whsec_test-secret-value', body, headers['x-webhook-signature'] as string)).toBe(true);
+    });
+
+    it('should log a delivered attempt', async () => {
+      subscribe();
+
+      dispatcher.dispatch(created);
+      await dispatcher.idle();
+
+      expect(deliveries).toEqual([
+        expect.objectContaining({
+          webhookId: 'webhook-1',
+          eventId: created.id,
+          status: 'delivered',
+          completedAt: expect.any(String),
+          attempts: [expect.objectContaining({ url: receiver.url, responseStatus: 204 })],
+        }),
+      ]);
+      expect(deliveries[0]).not.toHaveProperty('nextAttemptAt');
+    });
+
+    it('should not queue anything without a matching subscription', () => {
+      subscribe({ events: ['user.purged'] });
+
+      expect(dispatcher.dispatch(created)).toEqual([]);
+      expect(deliveries).toEqual([]);
+    });
+  });
+
+  it('should retry with backoff until the receiver recovers', async () => {
+    await start((index) => (index < 2 ? 500 : 200));
+    subscribe();
+
+    dispatcher.dispatch(created);
+    await dispatcher.idle();
+
+    expect(receiver.requests).toHaveLength(3);
+    expect(deliveries[0].status).toBe('delivered');
+    expect(deliveries[0].attempts.map(({ responseStatus, error }) => [responseStatus, error])).toEqual([
+      [500, 'Receiver responded with 500'],
+      [500, 'Receiver responded with 500'],
+      [200, undefined],
+    ]);
+
+    const [first, second, third] = deliveries[0].attempts.map(({ attemptedAt }) => Date.parse(attemptedAt));
+    expect(second - first).toBeGreaterThanOrEqual(5);
+    expect(third - second).toBeGreaterThanOrEqual(10);
+  });
+
+  it('should dead-letter a delivery that runs out of attempts and redeliver it on request', async () => {
+    await start((index) => (index < 3 ? 503 : 204));
+    subscribe();
+
+    dispatcher.dispatch(created);
+    await dispatcher.idle();
+
+    expect(deliveries[0]).toMatchObject({ status: 'dead', completedAt: expect.any(String) });
+    expect(deliveries[0].attempts).toHaveLength(3);
+
+    const requeued = dispatcher.redeliver(deliveries[0]);
+    expect(requeued.status).toBe('pending');
+    await dispatcher.idle();
+
+    expect(deliveries[0].status).toBe('delivered');
+    expect(deliveries[0].attempts).toHaveLength(4);
+  });
+
+  it('should record network errors as failed attempts', async () => {
+    await start();
+    subscribe({ url: 'http://127.0.0.1:1/unreachable' });
+
+    dispatcher.dispatch(created);
+    await dispatcher.idle();
+
+    expect(deliveries[0].status).toBe('dead');
+    expect(deliveries[0].attempts[0]).not.toHaveProperty('responseStatus');
+    expect(deliveries[0].attempts[0].error).toEqual(expect.any(String));
+  });
+
+  it('should stop retrying once the webhook is deleted', async () => {
+    await start(() => 500);
+    const webhook = subscribe();
+
+    dispatcher.dispatch(created);
+    repository.delete(webhook.id);
+    await dispatcher.idle();
+
+    expect(receiver.requests.length).toBeLessThan(3);
+    expect(deliveries).toEqual([]);
+  });
+});
@@ -0,0 +1,12 @@
+import { Request } from 'express';
+import { AuditContext } from '../models/audit-model';
+
+// the authenticated principal is the actor; the request id ties the entry to the request that caused it
+export function auditContext(req: Request): AuditContext {
+  const { requestId } = req;
+
+  return {
+    actor: req.principal?.subject ?? 'anonymous',
+    ...(requestId && { requestId }),
+  };
+}
@@ -0,0 +1,63 @@
+// Minimal RFC 4180 support: quoted fields may contain commas, doubled quotes and line breaks.
+
+const needsQuoting = /[",\r\n]/;
+
+export function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  const text = String(value);
+  return needsQuoting.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvValue).join(',')}\r\n`;
+}
+
+// splits CSV text into rows of raw cell values; a leading byte order mark is ignored
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length) {
+    rows.push([...row, cell]);
+  }
+
+  return rows;
+}
+
+// pairs every row with the header row, e.g. [['a', 'b'], ['1', '2']] => [{ a: '1', b: '2' }]
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text);
+
+  return rows.map((row) => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ''])));
+}
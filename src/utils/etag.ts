@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+
+// the same record built in another key order (a spread in a controller, a row read back from SQLite)
+// must get the same tag, so keys are sorted at every level
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value === null || typeof value !== 'object') return value;
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, canonical((value as Record<string, unknown>)[key])]),
+  );
+};
+
+/**
+ * Strong entity tag for a stored record. Records carry no version counter, so the tag is a digest of
+ * the record itself: any change, including the updatedAt stamp every update sets, produces a new tag.
+ */
+export function etagFor(record: object) {
+  const digest = createHash('sha1')
+    .update(JSON.stringify(canonical(record)))
+    .digest('base64url');
+
+  return `"${digest}"`;
+}
+
+/**
+ * Evaluates an If-Match header against the current tag. If-Match uses strong comparison, so weak
+ * (W/) tags never match; "*" matches any current representation (RFC 9110 section 13.1.1).
+ */
+export function ifMatchSatisfied(ifMatch: string, etag: string) {
+  const candidates = ifMatch.split(',').map((candidate) => candidate.trim());
+
+  return candidates.includes('*') || candidates.includes(etag);
+}
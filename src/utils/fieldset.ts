@@ -0,0 +1,25 @@
+export type Fieldset<T> = {
+  // only these fields are kept
+  fields?: (keyof T)[];
+  // these fields are dropped, after `fields` has been applied
+  exclude?: (keyof T)[];
+};
+
+/**
+ * Projects an item onto the requested fields. `always` lists fields that are kept either way, such as
+ * the id a client needs to follow up on an item.
+ */
+export function projectFields<T extends object>(
+  item: T,
+  { fields, exclude = [] }: Fieldset<T>,
+  always: (keyof T)[] = [],
+): Partial<T> {
+  if (!fields && exclude.length === 0) return item;
+
+  return Object.fromEntries(
+    Object.entries(item).filter(([key]) => {
+      const field = key as keyof T;
+      return always.includes(field) || ((!fields || fields.includes(field)) && !exclude.includes(field));
+    }),
+  ) as Partial<T>;
+}
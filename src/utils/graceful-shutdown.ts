@@ -0,0 +1,88 @@
+import { Server, ServerResponse } from 'http';
+import { Readiness } from '../health';
+import { Logger, logger as defaultLogger } from '../logging';
+import { closeSseConnections } from './sse';
+
+export type GracefulShutdownOptions = {
+  readiness: Readiness;
+  // how long in-flight requests get to finish before their connections are cut
+  timeoutMs?: number;
+  // how long readiness fails before the server stops accepting connections, so load balancers notice first
+  drainDelayMs?: number;
+  // ends the responses that never finish on their own, such as event streams
+  closeStreams?: () => void;
+  logger?: Logger;
+  exit?: (code: number) => void;
+};
+
+/**
+ * Returns the handler for SIGTERM and SIGINT. It fails readiness and, after `drainDelayMs`, ends event
+ * streams, stops accepting connections, closes idle keep-alive connections and lets in-flight requests
+ * finish, each on a connection that closes after its response. The process exits with 0 once everything
+ * is drained, or with 1 when `timeoutMs` runs out first.
+ */
+export function createGracefulShutdown(
+  server: Server,
+  {
+    readiness,
+    timeoutMs = 10_000,
+    drainDelayMs = 5000,
+    closeStreams = closeSseConnections,
+    logger = defaultLogger,
+    exit = process.exit,
+  }: GracefulShutdownOptions,
+) {
+  const inFlight = new Set<ServerResponse>();
+  let shuttingDown = false;
+
+  const closeAfterResponse = (res: ServerResponse) => {
+    if (!res.headersSent) res.setHeader('Connection', 'close');
+  };
+
+  // ahead of the app's own listener, which may answer before a later listener runs
+  server.prependListener('request', (req, res: ServerResponse) => {
+    inFlight.add(res);
+    res.on('close', () => inFlight.delete(res));
+
+    if (shuttingDown) closeAfterResponse(res);
+  });
+
+  const drain = () => {
+    closeStreams();
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.warn('connections not drained in time, closing them', { inFlight: inFlight.size, timeoutMs });
+      server.closeAllConnections();
+      exit(1);
+    }, timeoutMs);
+    timer.unref();
+
+    server.close((error) => {
+      clearTimeout(timer);
+      // cutting the connections on timeout lets close() finish too, but the exit code is already decided
+      if (timedOut) return;
+
+      if (error) {
+        logger.error('server failed to close', { err: error });
+        return exit(1);
+      }
+
+      logger.info('all connections drained');
+      return exit(0);
+    });
+    server.closeIdleConnections();
+  };
+
+  return (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    logger.info('shutting down', { signal, inFlight: inFlight.size, drainDelayMs });
+    readiness.shutDown();
+    inFlight.forEach(closeAfterResponse);
+
+    setTimeout(drain, drainDelayMs);
+  };
+}
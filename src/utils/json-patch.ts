@@ -0,0 +1,82 @@
+import { isDeepStrictEqual } from 'util';
+import { ConflictError, UnprocessableEntityError } from '../errors';
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function missing(path: string): never {
+  throw new UnprocessableEntityError(`Path ${path} does not exist`);
+}
+
+// "/a~1b/c~0d" points at member "c~d" of member "a/b" (RFC 6901)
+function parsePointer(path: string) {
+  if (path !== '' && !path.startsWith('/')) {
+    throw new UnprocessableEntityError(`Path ${path} is not a JSON pointer`);
+  }
+
+  return path
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// "-" points past the end of an array, where add appends
+function indexIn(array: unknown[], token: string, path: string, appendable = false) {
+  if (appendable && token === '-') return array.length;
+
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  return index <= array.length - (appendable ? 0 : 1) ? index : missing(path);
+}
+
+function valueAt(document: unknown, tokens: string[], path: string) {
+  return tokens.reduce((value: unknown, token) => {
+    if (Array.isArray(value)) return value[indexIn(value, token, path)];
+    if (isObject(value) && Object.prototype.hasOwnProperty.call(value, token)) return value[token];
+    return missing(path);
+  }, document);
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation) {
+  const tokens = parsePointer(operation.path);
+
+  if (operation.op === 'test') {
+    if (!isDeepStrictEqual(valueAt(document, tokens, operation.path), operation.value)) {
+      throw new ConflictError(`Test failed, ${operation.path} does not have the expected value`);
+    }
+    return document;
+  }
+
+  const key = tokens.pop();
+  if (key === undefined) {
+    return operation.op === 'remove' ? missing(operation.path) : operation.value;
+  }
+
+  const parent = valueAt(document, tokens, operation.path);
+
+  if (Array.isArray(parent)) {
+    const index = indexIn(parent, key, operation.path, operation.op === 'add');
+    if (operation.op === 'add') parent.splice(index, 0, operation.value);
+    else if (operation.op === 'replace') parent.splice(index, 1, operation.value);
+    else parent.splice(index, 1);
+  } else if (isObject(parent)) {
+    if (operation.op !== 'add' && !Object.prototype.hasOwnProperty.call(parent, key)) missing(operation.path);
+    if (operation.op === 'remove') delete parent[key];
+    else parent[key] = operation.value;
+  } else {
+    missing(operation.path);
+  }
+
+  return document;
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch with the add, remove, replace and test operations. They run in order
+ * on a copy, so nothing changes when one fails: a failed test is a 409, a path that does not exist a 422.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  return operations.reduce(applyOperation, structuredClone(document)) as T;
+}
@@ -0,0 +1,19 @@
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch: objects are merged member by member, `null` removes a member
+ * and any other value, arrays included, replaces it.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  });
+
+  return result;
+}
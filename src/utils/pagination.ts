@@ -0,0 +1,187 @@
+export type SortDirection = 'asc' | 'desc';
+
+export type SortField<T> = {
+  field: keyof T & string;
+  direction: SortDirection;
+};
+
+export type CursorKey = string | number | null;
+
+export type Cursor = {
+  keys: CursorKey[];
+  // 'next' pages start after the keyed item, 'prev' pages end before it
+  direction: 'next' | 'prev';
+};
+
+export type PageRequest = {
+  limit: number;
+  offset?: number;
+  cursor?: Cursor;
+};
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+export type PageLinks = {
+  self: string;
+  next: string | null;
+  prev: string | null;
+};
+
+// "-createdAt,lastName" => [{ field: 'createdAt', direction: 'desc' }, { field: 'lastName', direction: 'asc' }]
+export function parseSort<T>(sort: string): SortField<T>[] {
+  return sort
+    .split(',')
+    .filter(Boolean)
+    .map((field) =>
+      field.startsWith('-')
+        ? { field: field.slice(1) as keyof T & string, direction: 'desc' }
+        : { field: field as keyof T & string, direction: 'asc' },
+    );
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor {
+  const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+  if (!cursor || !Array.isArray(cursor.keys) || !['next', 'prev'].includes(cursor.direction)) {
+    throw new Error('Invalid cursor');
+  }
+
+  return cursor;
+}
+
+function toKey(value: unknown): CursorKey {
+  return value === undefined || value === null ? null : (value as string | number);
+}
+
+// missing values sort after present ones regardless of direction
+function compareKeys(a: CursorKey, b: CursorKey, direction: SortDirection): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+
+  const result = a < b ? -1 : 1;
+  return direction === 'desc' ? -result : result;
+}
+
+function keysOf<T>(item: T, fields: SortField<T>[]): CursorKey[] {
+  return fields.map(({ field }) => toKey(item[field]));
+}
+
+function compareToKeys<T>(item: T, keys: CursorKey[], fields: SortField<T>[]): number {
+  for (let i = 0; i < fields.length && i < keys.length; i++) {
+    const result = compareKeys(toKey(item[fields[i].field]), keys[i], fields[i].direction);
+
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  return 0;
+}
+
+export function sortBy<T>(items: T[], fields: SortField<T>[]): T[] {
+  return [...items].sort((a, b) => compareToKeys(a, keysOf(b, fields), fields));
+}
+
+/**
+ * Slices an already sorted list by offset or by keyset cursor. Cursors record the sort keys of the
+ * item at the page boundary, so pages stay stable when items are inserted or removed in between requests.
+ */
+export function paginate<T>(sorted: T[], fields: SortField<T>[], { limit, offset = 0, cursor }: PageRequest): Page<T> {
+  let start = offset;
+  let end = offset + limit;
+
+  if (cursor) {
+    const { keys, direction } = cursor;
+
+    if (direction === 'next') {
+      start = sorted.findIndex((item) => compareToKeys(item, keys, fields) > 0);
+      start = start === -1 ? sorted.length : start;
+      end = start + limit;
+    } else {
+      end = sorted.findIndex((item) => compareToKeys(item, keys, fields) >= 0);
+      end = end === -1 ? sorted.length : end;
+      start = Math.max(0, end - limit);
+    }
+  }
+
+  const items = sorted.slice(start, end);
+  const hasNext = start + items.length < sorted.length;
+  const hasPrev = start > 0 && sorted.length > 0;
+
+  return {
+    items,
+    total: sorted.length,
+    limit,
+    offset: start,
+    nextCursor:
+      hasNext && items.length
+        ? encodeCursor({ keys: keysOf(items[items.length - 1], fields), direction: 'next' })
+        : null,
+    prevCursor: hasPrev && items.length ? encodeCursor({ keys: keysOf(items[0], fields), direction: 'prev' }) : null,
+  };
+}
+
+/**
+ * Builds self/next/prev links for a page, keeping every other query parameter. Links use cursors when
+ * the request did, offsets otherwise.
+ */
+export function buildPageLinks<T>(path: string, query: Record<string, unknown>, page: Page<T>): PageLinks {
+  const useCursor = query.cursor !== undefined;
+
+  const link = (overrides: Record<string, string | number>) => {
+    const params = new URLSearchParams();
+
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'cursor' && key !== 'offset') {
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    });
+    Object.entries(overrides).forEach(([key, value]) => params.set(key, String(value)));
+
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  };
+
+  const self = useCursor ? link({ cursor: encodeCursor(query.cursor as Cursor) }) : link({ offset: page.offset });
+
+  if (useCursor) {
+    return {
+      self,
+      next: page.nextCursor ? link({ cursor: page.nextCursor }) : null,
+      prev: page.prevCursor ? link({ cursor: page.prevCursor }) : null,
+    };
+  }
+
+  return {
+    self,
+    next: page.nextCursor ? link({ offset: page.offset + page.items.length }) : null,
+    prev: page.offset > 0 ? link({ offset: Math.max(0, page.offset - page.limit) }) : null,
+  };
+}
+
+export function toPageResponse<T>(page: Page<T>, path: string, query: Record<string, unknown>) {
+  return {
+    data: page.items,
+    meta: {
+      total: page.total,
+      count: page.items.length,
+      limit: page.limit,
+      offset: page.offset,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+      links: buildPageLinks(path, query, page),
+    },
+  };
+}
@@ -0,0 +1,9 @@
+import { Request } from 'express';
+import { User } from '../models/users-model';
+import { serializeUser } from '../versioning';
+import { Fieldset, projectFields } from './fieldset';
+
+// a user as this request asked for it: the fields from its validated fieldset query, in its API version's shape
+export function presentUser(user: User, req: Request) {
+  return serializeUser(projectFields(user, req.query as Fieldset<User>, ['id']), req.apiVersion);
+}
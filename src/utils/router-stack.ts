@@ -0,0 +1,44 @@
+// the parts of Express' internal router stack that the OpenAPI generator and the metrics middleware read
+export type Layer = {
+  handle: ((...args: unknown[]) => unknown) & { stack?: Layer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: { path: string; methods: Record<string, boolean>; stack: (Layer & { method?: string })[] };
+};
+
+// recovers "/user" from the /^\/user\/?(?=\/|$)/i regexp Express compiles for router.use('/user')
+export function mountPath(layer: Layer) {
+  if (layer.regexp.fast_slash) return '';
+
+  return layer.regexp.source.replace('\\/?(?=\\/|$)', '').replace(/^\^/, '').replace(/\\(.)/g, '$1');
+}
+
+// "/user" + "/:id" => "/user/:id", "/users" + "/" => "/users"
+export const joinRoutePath = (prefix: string, path: string) => `${prefix}${path === '/' && prefix ? '' : path}`;
+
+const handlesMethod = ({ methods }: NonNullable<Layer['route']>, method: string) =>
+  Boolean(methods._all || methods[method.toLowerCase()] || (method === 'HEAD' && methods.get));
+
+/**
+ * The template of the first route in `stack` that `path` and `method` lead to, the way Express would
+ * dispatch them, or undefined when none does. Mount paths with parameters are not supported.
+ */
+export function findRouteTemplate(stack: Layer[], path: string, method: string, prefix = ''): string | undefined {
+  for (const layer of stack) {
+    const matched = layer.regexp.fast_slash ? '' : layer.regexp.exec(path)?.[0];
+    if (matched === undefined) continue;
+
+    if (layer.route) {
+      if (handlesMethod(layer.route, method)) return joinRoutePath(prefix, layer.route.path);
+    } else if (layer.handle.stack) {
+      const template = findRouteTemplate(
+        layer.handle.stack,
+        path.slice(matched.length) || '/',
+        method,
+        prefix + mountPath(layer),
+      );
+      if (template) return template;
+    }
+  }
+
+  return undefined;
+}
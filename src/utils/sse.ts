@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { config } from '../config';
+
+export type SseMessage = {
+  id?: string | number;
+  event?: string;
+  data: unknown;
+};
+
+export type SseOptions = {
+  // a comment line is sent this often so proxies do not close an idle connection
+  heartbeatMs?: number;
+  // how long EventSource clients wait before reconnecting
+  retryMs?: number;
+};
+
+export type SseConnection = {
+  send(message: SseMessage): void;
+  onClose(cleanup: () => void): void;
+};
+
+// ends each stream that is still open
+const openConnections = new Set<() => void>();
+
+/**
+ * Ends every open stream. Clients never hang up on their own, so a server that waits for its responses
+ * to finish calls this first; EventSource clients then reconnect, to another instance if there is one.
+ */
+export function closeSseConnections() {
+  openConnections.forEach((close) => close());
+}
+
+// one "field: value" line per field; multi-line data is split across several data lines
+export function formatSseMessage({ id, event, data }: SseMessage): string {
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+
+  return [
+    ...(id !== undefined ? [`id: ${id}`] : []),
+    ...(event ? [`event: ${event}`] : []),
+    ...text.split(/\r?\n/).map((line) => `data: ${line}`),
+    '',
+    '',
+  ].join('\n');
+}
+
+export function openSseConnection(
+  req: Request,
+  res: Response,
+  { heartbeatMs = config.sse.heartbeatMs, retryMs = config.sse.retryMs }: SseOptions = {},
+): SseConnection {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // stops nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${retryMs}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatMs);
+  const stop = () => {
+    clearInterval(heartbeat);
+    openConnections.delete(end);
+  };
+  const end = () => {
+    stop();
+    res.end();
+  };
+  openConnections.add(end);
+  req.on('close', stop);
+
+  return {
+    send: (message) => res.write(formatSseMessage(message)),
+    onClose: (cleanup) => req.on('close', cleanup),
+  };
+}
@@ -0,0 +1,23 @@
+import Joi from 'joi';
+import { auditActions } from '../../models/audit-model';
+import { cursorSchema, idSchema, limitSchema, offsetSchema } from './shared.schema';
+
+export const userHistoryQuerySchema = Joi.object({
+  limit: limitSchema,
+  offset: offsetSchema,
+  cursor: cursorSchema,
+})
+  .oxor('cursor', 'offset')
+  .messages({
+    'object.oxor': 'Use either cursor or offset, not both',
+  });
+
+export const auditListQuerySchema = userHistoryQuerySchema.keys({
+  userId: idSchema.optional(),
+  actor: Joi.string().trim().min(1),
+  action: Joi.string()
+    .valid(...auditActions)
+    .messages({
+      'any.only': `Action must be one of ${auditActions.join(', ')}`,
+    }),
+});
@@ -0,0 +1,10 @@
+import Joi from 'joi';
+
+// OAuth 2.0 client credentials grant, sent as JSON or form encoded
+export const tokenRequestSchema = Joi.object({
+  grant_type: Joi.string().valid('client_credentials').required().messages({
+    'any.only': 'Unsupported grant type',
+  }),
+  client_id: Joi.string().required(),
+  client_secret: Joi.string().required(),
+});
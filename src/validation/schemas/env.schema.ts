@@ -0,0 +1,107 @@
+import Joi from 'joi';
+
+export const nodeEnvs = ['development', 'test', 'production'] as const;
+
+// environment variables are strings, so lists of keys and clients arrive as JSON
+const JsonJoi: Joi.Root = Joi.extend({
+  type: 'array',
+  base: Joi.array(),
+  messages: {
+    'array.json': '{{#label}} must be a JSON array',
+  },
+  coerce: {
+    from: 'string',
+    method(value, helpers) {
+      try {
+        return { value: JSON.parse(value) };
+      } catch {
+        return { errors: [helpers.error('array.json')] };
+      }
+    },
+  },
+});
+
+const keyDefinitionSchema = Joi.object({
+  kid: Joi.string().required(),
+  alg: Joi.string().valid('HS256', 'RS256').required(),
+  secret: Joi.when('alg', { is: 'HS256', then: Joi.string().required(), otherwise: Joi.forbidden() }),
+  privateKey: Joi.string(),
+  privateKeyPath: Joi.string(),
+  publicKey: Joi.string(),
+  publicKeyPath: Joi.string(),
+});
+
+const authClientSchema = Joi.object({
+  clientId: Joi.string().required(),
+  clientSecret: Joi.string().required(),
+  subject: Joi.string().required(),
+  roles: Joi.array().items(Joi.string()).default([]),
+});
+
+const positiveInteger = Joi.number().integer().min(1);
+
+// a TCP port, or where to listen instead: a Unix socket such as /run/api.sock or a Windows pipe such as \\.\pipe\api
+const listenSchema = Joi.alternatives()
+  .try(Joi.number().port(), Joi.string().pattern(/^(\/|\\\\)/))
+  .messages({
+    'alternatives.match': '{{#label}} must be a port number or the path of a socket or named pipe',
+    'string.pattern.base': '{{#label}} must be a port number or the path of a socket or named pipe',
+  });
+
+// a randomly generated signing key would log everyone out on every deploy, so production needs one configured
+const signingKeyRequiredInProduction = (schema: Joi.Schema) =>
+  schema.when('NODE_ENV', {
+    is: 'production',
+    then: Joi.when('JWT_KEYS', { not: Joi.exist(), then: Joi.required() }),
+  });
+
+/**
+ * Every environment variable the service reads. Defaults that differ per environment are applied by
+ * the config loader before validation; the rest are declared here.
+ */
+export const envSchema = Joi.object({
+  NODE_ENV: Joi.string()
+    .valid(...nodeEnvs)
+    .default('development'),
+  PORT: listenSchema,
+  // older name for PORT, still read by the docker setup
+  API_PORT: listenSchema,
+
+  // Express's 'trust proxy': true, a number of hops, or addresses and subnets such as 'loopback, 10.0.0.0/8'.
+  // Behind a proxy, req.ip (and so the per-IP rate limit) is the proxy's address until this is set.
+  TRUST_PROXY: Joi.alternatives().try(Joi.boolean(), Joi.number().integer().min(0), Joi.string()).default(false),
+
+  LOG_LEVEL: Joi.string().valid('debug', 'info', 'warn', 'error', 'silent').default('info'),
+  LOG_REDACT: Joi.string().allow('').default('email,phone,q,authorization,client_secret,secret'),
+
+  USER_STORE: Joi.string().valid('memory', 'sqlite').default('memory'),
+  SQLITE_FILENAME: Joi.string().default('users.sqlite'),
+
+  JWT_SECRET: signingKeyRequiredInProduction(Joi.string()).messages({
+    'any.required': 'JWT_SECRET or JWT_KEYS is required in production',
+  }),
+  JWT_KEYS: JsonJoi.array().items(keyDefinitionSchema).min(1),
+  JWT_ISSUER: Joi.string().default('api-demo-node'),
+  JWT_AUDIENCE: Joi.string().default('api-demo-node'),
+  JWT_EXPIRES_IN: positiveInteger.default(900),
+  AUTH_CLIENTS: JsonJoi.array().items(authClientSchema).default([]),
+
+  REQUIRE_IF_MATCH: Joi.boolean().default(false),
+
+  WEBHOOK_MAX_ATTEMPTS: positiveInteger.default(5),
+  WEBHOOK_RETRY_DELAY_MS: positiveInteger.default(1000),
+  WEBHOOK_TIMEOUT_MS: positiveInteger.default(5000),
+
+  SSE_HEARTBEAT_MS: positiveInteger.default(15000),
+  SSE_RETRY_MS: positiveInteger.default(3000),
+  SSE_REPLAY_BUFFER: positiveInteger.default(1000),
+
+  RATE_LIMIT_WINDOW_MS: positiveInteger.default(60_000),
+  RATE_LIMIT_CREATE_USER: positiveInteger.default(30),
+  RATE_LIMIT_ISSUE_TOKEN: positiveInteger.default(10),
+
+  IDEMPOTENCY_TTL_MS: positiveInteger.default(24 * 60 * 60 * 1000),
+
+  SHUTDOWN_TIMEOUT_MS: positiveInteger.default(10_000),
+  SHUTDOWN_DRAIN_DELAY_MS: Joi.number().integer().min(0).default(5000),
+}).unknown(true);
@@ -0,0 +1,11 @@
+import Joi from 'joi';
+
+// the POST body of the GraphQL-over-HTTP spec
+export const graphqlRequestSchema = Joi.object({
+  query: Joi.string().trim().min(1).required().messages({
+    'any.required': 'A GraphQL query is required',
+    'string.empty': 'A GraphQL query is required',
+  }),
+  variables: Joi.object().allow(null),
+  operationName: Joi.string().allow(null),
+});
@@ -1,7 +1,9 @@
 import Joi from 'joi';
+import { decodeCursor } from '../../utils/pagination';
 
 export const dateSchema = Joi.date().iso().messages({
   'date.iso': 'Invalid date',
+  'date.format': 'Invalid date',
 });
 
 export const emailSchema = Joi.string().email().messages({
@@ -21,3 +23,46 @@ export const phoneSchema = Joi.string()
   .messages({
     'string.pattern.base': 'Invalid phone number',
   });
+
+export const limitSchema = Joi.number().integer().min(1).max(100).default(20).messages({
+  'number.base': 'Limit must be a number',
+  'number.integer': 'Limit must be an integer',
+  'number.min': 'Limit must be at least 1',
+  'number.max': 'Limit must be at most 100',
+});
+
+export const offsetSchema = Joi.number().integer().min(0).messages({
+  'number.base': 'Offset must be a number',
+  'number.integer': 'Offset must be an integer',
+  'number.min': 'Offset must not be negative',
+});
+
+// decodes the opaque cursor so handlers receive the sort keys it points at
+export const cursorSchema = Joi.string()
+  .custom((value, helpers) => {
+    try {
+      return decodeCursor(value);
+    } catch {
+      return helpers.error('any.invalid');
+    }
+  })
+  .messages({
+    'any.invalid': 'Invalid cursor',
+  });
+
+// comma-separated fields, each optionally prefixed with - for descending order
+export const sortSchema = (fields: string[]) =>
+  Joi.string()
+    .pattern(new RegExp(`^-?(${fields.join('|')})(,-?(${fields.join('|')}))*$`))
+    .messages({
+      'string.pattern.base': `Sort must be a comma-separated list of ${fields.join(', ')}`,
+    });
+
+// comma-separated field names, handed to handlers as a list without duplicates
+export const fieldsetSchema = (fields: string[]) =>
+  Joi.string()
+    .pattern(new RegExp(`^(${fields.join('|')})(,(${fields.join('|')}))*$`))
+    .custom((value: string) => [...new Set(value.split(','))])
+    .messages({
+      'string.pattern.base': `{#label} must be a comma-separated list of ${fields.join(', ')}`,
+    });
@@ -1,5 +1,24 @@
 import Joi from 'joi';
-import { emailSchema, idSchema, phoneSchema } from './shared.schema';
+import { editableUserFields, userFields } from '../../models/users-model';
+import {
+  cursorSchema,
+  dateSchema,
+  emailSchema,
+  fieldsetSchema,
+  idSchema,
+  limitSchema,
+  offsetSchema,
+  phoneSchema,
+  sortSchema,
+} from './shared.schema';
+
+// fields=firstName,lastName keeps only those fields of each user, exclude=phone drops fields
+const userFieldsetKeys = {
+  fields: fieldsetSchema(userFields),
+  exclude: fieldsetSchema(userFields),
+};
+
+export const userFieldsetQuerySchema = Joi.object(userFieldsetKeys);
 
 const userBaseSchema = Joi.object({
   firstName: Joi.string(),
@@ -15,3 +34,118 @@ export const userIdSchema = Joi.object({
 });
 
 export const userUpdateSchema = userBaseSchema;
+
+const editableUserPaths = editableUserFields.map((field) => `/${field}`);
+
+// RFC 6902 operations; only editable fields can change, but any field can be tested, e.g. /updatedAt
+export const userJsonPatchSchema = Joi.array()
+  .items(
+    Joi.object({
+      op: Joi.string()
+        .valid('add', 'remove', 'replace', 'test')
+        .required()
+        .messages({ 'any.only': 'Operation must be add, remove, replace or test' }),
+      path: Joi.when('op', {
+        is: 'test',
+        then: Joi.string()
+          .pattern(/^(\/[^/]*)*$/)
+          .required()
+          .messages({ 'string.pattern.base': 'Path must be a JSON pointer' }),
+        otherwise: Joi.string()
+          .valid(...editableUserPaths)
+          .required()
+          .messages({ 'any.only': `Only ${editableUserPaths.join(', ')} can be changed` }),
+      }),
+      value: Joi.when('op', {
+        is: 'remove',
+        then: Joi.forbidden(),
+        otherwise: Joi.any().required().messages({ 'any.required': 'Value is required unless removing' }),
+      }),
+    }),
+  )
+  .messages({
+    'array.base': 'Body must be an array of JSON Patch operations',
+  });
+
+// RFC 7396 documents, where null removes a field; the patched user is validated again before it is stored
+export const userMergePatchSchema = userBaseSchema.fork([...editableUserFields], (schema) => schema.allow(null));
+
+// item data is only checked for shape here; each item is validated on its own so it can fail alone
+export const userBulkSchema = Joi.array()
+  .items(
+    Joi.object({
+      op: Joi.string().valid('create', 'update', 'delete').required(),
+      id: Joi.when('op', { is: 'create', then: Joi.forbidden(), otherwise: idSchema }),
+      data: Joi.when('op', { is: 'delete', then: Joi.forbidden(), otherwise: Joi.object().required() }),
+    }),
+  )
+  .min(1)
+  .max(1000)
+  .messages({
+    'array.base': 'Body must be an array of operations',
+    'array.min': 'At least one operation is required',
+    'array.max': 'At most {#limit} operations are allowed per request',
+  });
+
+export const userBulkQuerySchema = Joi.object({
+  atomic: Joi.boolean().default(false),
+  ...userFieldsetKeys,
+});
+
+export const userExportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'ndjson').default('csv').messages({
+    'any.only': 'Format must be csv or ndjson',
+  }),
+});
+
+// mapping[First Name]=firstName renames a source column to the user field it holds
+export const userImportQuerySchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+  mapping: Joi.object()
+    .pattern(Joi.string(), Joi.string().valid('firstName', 'lastName', 'email', 'phone'))
+    .messages({
+      'any.only': 'Columns can only be mapped to firstName, lastName, email or phone',
+    }),
+});
+
+export const userDeleteQuerySchema = Joi.object({
+  hard: Joi.boolean().default(false),
+  ...userFieldsetKeys,
+});
+
+// a trailing * turns an exact match into a prefix match, e.g. lastName=Sm*
+const userFilterSchema = Joi.string().trim().min(1);
+
+export const userListQuerySchema = Joi.object({
+  limit: limitSchema,
+  offset: offsetSchema,
+  cursor: cursorSchema,
+  sort: sortSchema(userFields),
+  firstName: userFilterSchema,
+  lastName: userFilterSchema,
+  email: userFilterSchema,
+  phone: userFilterSchema,
+  emailDomain: Joi.string().domain().messages({
+    'string.domain': 'Invalid email domain',
+  }),
+  createdAfter: dateSchema,
+  createdBefore: dateSchema,
+  updatedAfter: dateSchema,
+  updatedBefore: dateSchema,
+  includeDeleted: Joi.boolean(),
+  ...userFieldsetKeys,
+})
+  .oxor('cursor', 'offset')
+  .messages({
+    'object.oxor': 'Use either cursor or offset, not both',
+  });
+
+export const userSearchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required().messages({
+    'any.required': 'Search query q is required',
+    'string.empty': 'Search query q cannot be empty',
+  }),
+  limit: limitSchema,
+  fuzzy: Joi.boolean().default(true),
+  ...userFieldsetKeys,
+});
@@ -0,0 +1,64 @@
+import Joi from 'joi';
+import { userEventTypes } from '../../events';
+import { cursorSchema, idSchema, limitSchema, offsetSchema } from './shared.schema';
+
+const eventFilters = ['*', ...userEventTypes];
+
+const webhookBaseSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .messages({
+      'string.uri': 'URL must be an absolute http or https URL',
+      'string.uriCustomScheme': 'URL must be an absolute http or https URL',
+    }),
+  events: Joi.array()
+    .items(
+      Joi.string()
+        .valid(...eventFilters)
+        .messages({
+          'any.only': `Events must be among ${eventFilters.join(', ')}`,
+        }),
+    )
+    .min(1)
+    .unique()
+    .messages({
+      'array.min': 'Subscribe to at least one event',
+    }),
+  description: Joi.string().max(500),
+  active: Joi.boolean(),
+});
+
+export const webhookCreateSchema = webhookBaseSchema
+  .fork(['url', 'events'], (schema) => schema.required())
+  .keys({
+    secret: Joi.string().min(16).messages({
+      'string.min': 'Secret must be at least {#limit} characters long',
+    }),
+  });
+
+export const webhookUpdateSchema = webhookBaseSchema.min(1).messages({
+  'object.min': 'Nothing to update',
+});
+
+export const webhookIdSchema = Joi.object({
+  id: idSchema,
+});
+
+export const deliveryIdSchema = Joi.object({
+  deliveryId: idSchema,
+});
+
+export const deliveryListQuerySchema = Joi.object({
+  limit: limitSchema,
+  offset: offsetSchema,
+  cursor: cursorSchema,
+  status: Joi.string().valid('pending', 'delivered', 'dead').messages({
+    'any.only': 'Status must be pending, delivered or dead',
+  }),
+})
+  .oxor('cursor', 'offset')
+  .messages({
+    'object.oxor': 'Use either cursor or offset, not both',
+  });
+
+export const deadLetterListQuerySchema = deliveryListQuerySchema.fork(['status'], (schema) => schema.forbidden());
@@ -0,0 +1,29 @@
+import Joi from 'joi';
+import { ValidationFailedError } from '../errors';
+
+/**
+ * Validates a value the same way for every caller: all errors are collected and unknown keys are
+ * stripped. Returns the validated value or throws a ValidationFailedError with `detail`.
+ */
+export function validateValue<T = unknown>(schema: Joi.Schema, input: unknown, detail?: string): T {
+  const { error, value } = schema.validate(input, {
+    abortEarly: false, // Return all errors, not just the first one
+    stripUnknown: true, // Remove unknown properties from the request body
+    errors: {
+      wrap: {
+        label: false,
+      },
+    },
+  });
+
+  if (error) {
+    const errorDetails = error.details.map((detail) => ({
+      path: detail.path.join('.'),
+      message: detail.message,
+    }));
+
+    throw new ValidationFailedError(errorDetails, detail);
+  }
+
+  return value;
+}
@@ -0,0 +1,48 @@
+import { Request } from 'express';
+
+export const apiVersions = ['1', '2'] as const;
+
+export type ApiVersion = (typeof apiVersions)[number];
+
+// what unversioned paths serve when the request does not ask for a version
+export const DEFAULT_API_VERSION: ApiVersion = '1';
+
+// every version falls back to an earlier one, so only v1 has to define everything
+export type ByApiVersion<T> = { [DEFAULT_API_VERSION]: T } & Partial<Record<ApiVersion, T>>;
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // set by the API version middleware, from the /v1 or /v2 prefix or the request headers
+    apiVersion?: ApiVersion;
+  }
+}
+
+export const isApiVersion = (value: unknown): value is ApiVersion => apiVersions.includes(value as ApiVersion);
+
+// "2" and "v2" both mean version 2
+const versionNumber = (value: string) => value.trim().replace(/^"|"$/g, '').replace(/^v/i, '');
+
+/**
+ * The version a request asks for: Accept-Version, or else a version parameter on an Accept media type
+ * (`Accept: application/json; version=2`). Undefined when neither is sent.
+ */
+export function requestedApiVersion(req: Request): string | undefined {
+  const header = req.get('Accept-Version');
+  if (header) return versionNumber(header);
+
+  const parameter = (req.get('Accept') ?? '')
+    .split(',')
+    .flatMap((range) => range.split(';').slice(1))
+    .map((param) => param.split('='))
+    .find(([name, value]) => name.trim().toLowerCase() === 'version' && value);
+
+  return parameter && versionNumber(parameter[1]);
+}
+
+// the entry of `version`, or of the closest earlier version that has one
+export function forApiVersion<T>(entries: ByApiVersion<T>, version: ApiVersion = DEFAULT_API_VERSION): T {
+  const candidates = apiVersions.slice(0, apiVersions.indexOf(version) + 1).reverse();
+  const match = candidates.find((candidate) => entries[candidate] !== undefined);
+
+  return entries[match ?? DEFAULT_API_VERSION]!;
+}
@@ -0,0 +1,6 @@
+export type { ApiVersion, ByApiVersion } from './api-version';
+export { apiVersions, DEFAULT_API_VERSION, forApiVersion, isApiVersion, requestedApiVersion } from './api-version';
+export type { UserDeserializer } from './user-deserializers';
+export { deserializeUser, deserializeUserPatch, userDeserializers } from './user-deserializers';
+export type { UserSerializer, UserV2 } from './user-serializers';
+export { serializeUser, userSerializers } from './user-serializers';
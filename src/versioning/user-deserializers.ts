@@ -0,0 +1,48 @@
+import { ApiVersion, ByApiVersion, forApiVersion } from './api-version';
+
+// request bodies are validated afterwards, so deserializers map the fields they know and pass on the rest
+export type UserDeserializer = {
+  // a user to create, or the fields of one to update or merge-patch
+  fields(input: Record<string, unknown>): Record<string, unknown>;
+  // a JSON Pointer into the user, as used by JSON Patch
+  path(pointer: string): string;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const v2Paths: Record<string, string> = { '/name/first': '/firstName', '/name/last': '/lastName' };
+
+export const userDeserializers: ByApiVersion<UserDeserializer> = {
+  '1': { fields: (input) => input, path: (pointer) => pointer },
+  // the inverse of the v2 serializer; like any unknown field, anything else under name is dropped by validation
+  '2': {
+    fields: (input) => {
+      const { name, ...rest } = input;
+      if (!isObject(name)) return input;
+
+      return {
+        ...rest,
+        ...(name.first !== undefined && { firstName: name.first }),
+        ...(name.last !== undefined && { lastName: name.last }),
+      };
+    },
+    path: (pointer) => v2Paths[pointer] ?? pointer,
+  },
+};
+
+export const deserializeUser = (input: unknown, version?: ApiVersion) =>
+  isObject(input) ? forApiVersion(userDeserializers, version).fields(input) : input;
+
+// JSON Patch operations that are not objects with a string path are left for validation to reject
+export const deserializeUserPatch = (operations: unknown, version?: ApiVersion) => {
+  const { path } = forApiVersion(userDeserializers, version);
+
+  return Array.isArray(operations)
+    ? operations.map((operation) =>
+        isObject(operation) && typeof operation.path === 'string'
+          ? { ...operation, path: path(operation.path) }
+          : operation,
+      )
+    : operations;
+};
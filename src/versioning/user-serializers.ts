@@ -0,0 +1,20 @@
+import { User } from '../models/users-model';
+import { ApiVersion, ByApiVersion, forApiVersion } from './api-version';
+
+// v2 groups the name parts, leaving room for more without crowding the top level
+export type UserV2 = Omit<User, 'firstName' | 'lastName'> & { name: { first: string; last: string } };
+
+// users may arrive projected onto a sparse fieldset, so serializers only map the fields that are there
+export type UserSerializer = (user: Partial<User>) => object;
+
+export const userSerializers: ByApiVersion<UserSerializer> = {
+  '1': (user) => user,
+  '2': ({ id, firstName, lastName, ...user }) => ({
+    id,
+    ...((firstName !== undefined || lastName !== undefined) && { name: { first: firstName, last: lastName } }),
+    ...user,
+  }),
+};
+
+export const serializeUser = (user: Partial<User>, version?: ApiVersion) =>
+  forApiVersion(userSerializers, version)(user);
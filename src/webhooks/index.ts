@@ -0,0 +1,12 @@
+import { config } from '../config';
+import { userEvents } from '../events';
+import { webhookRepository } from '../repositories/webhook';
+import { createWebhookDispatcher } from './webhook-dispatcher';
+
+export { SIGNATURE_HEADER, signPayload, verifySignature } from './signature';
+export type { DispatcherOptions, WebhookDispatcher } from './webhook-dispatcher';
+export { createWebhookDispatcher };
+
+export const webhookDispatcher = createWebhookDispatcher(webhookRepository, config.webhooks);
+
+userEvents.subscribe((event) => webhookDispatcher.dispatch(event));
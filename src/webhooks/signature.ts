@@ -0,0 +1,33 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// receivers should reject signatures older than this to stop captured requests being replayed
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const hmac = (secret: string, payload: string, timestamp: number) =>
+  createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of '<t>.<payload>'>"; the timestamp is signed along with the body
+export function signPayload(secret: string, payload: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, payload, timestamp)}`;
+}
+
+export function verifySignature(
+  secret: string,
+  payload: string,
+  header: string,
+  now = Math.floor(Date.now() / 1000),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > toleranceSeconds || !parts.v1) {
+    return false;
+  }
+
+  const expected = Buffer.from(hmac(secret, payload, timestamp));
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from 'crypto';
+import { UserEvent, userEventPayload } from '../events';
+import { getLogger } from '../logging';
+import { DeliveryAttempt, Webhook, WebhookDelivery } from '../models/webhook-model';
+import { WebhookRepository } from '../repositories/webhook';
+import { SIGNATURE_HEADER, signPayload } from './signature';
+
+export type DispatcherOptions = {
+  // attempts per delivery before it is dead-lettered
+  maxAttempts?: number;
+  // wait before the first retry, doubled after every further failure
+  retryDelayMs?: number;
+  // how long a receiver gets to answer one attempt
+  timeoutMs?: number;
+};
+
+export interface WebhookDispatcher {
+  // queues a delivery for every active webhook subscribed to the event
+  dispatch(event: UserEvent): WebhookDelivery[];
+  // puts a dead delivery back in the queue for another full round of attempts
+  redeliver(delivery: WebhookDelivery): WebhookDelivery;
+  // resolves once no delivery is in flight or waiting for a retry
+  idle(): Promise<void>;
+}
+
+const subscribes = (webhook: Webhook, event: UserEvent) =>
+  webhook.active && webhook.events.some((filter) => filter === '*' || filter === event.type);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+export function createWebhookDispatcher(
+  repository: WebhookRepository,
+  { maxAttempts = 5, retryDelayMs = 1000, timeoutMs = 5000 }: DispatcherOptions = {},
+): WebhookDispatcher {
+  const inFlight = new Set<Promise<void>>();
+
+  async function attempt(webhook: Webhook, delivery: WebhookDelivery): Promise<DeliveryAttempt> {
+    const attemptedAt = new Date();
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'api-demo-node-webhooks',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          [SIGNATURE_HEADER]: signPayload(webhook.secret, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      // drain the body so the connection can be reused
+      await response.arrayBuffer();
+
+      return {
+        attemptedAt: attemptedAt.toISOString(),
+        url: webhook.url,
+        durationMs: Date.now() - attemptedAt.getTime(),
+        responseStatus: response.status,
+        ...(!response.ok && { error: `Receiver responded with ${response.status}` }),
+      };
+    } catch (error) {
+      return {
+        attemptedAt: attemptedAt.toISOString(),
+        url: webhook.url,
+        durationMs: Date.now() - attemptedAt.getTime(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // attempts counts from `firstAttempt` so a redelivery gets a fresh set of retries
+  async function deliver(delivery: WebhookDelivery, firstAttempt: number) {
+    let current = delivery;
+
+    while (current.status === 'pending') {
+      // the webhook is looked up again on every attempt, so URL and secret changes apply to retries
+      const webhook = repository.find(current.webhookId);
+      if (!webhook) return;
+
+      const result = await attempt(webhook, current);
+      // deleting the webhook while a request was out also deleted its log, so there is nothing to update
+      if (!repository.find(webhook.id)) return;
+
+      const { nextAttemptAt, ...rest } = current;
+      const attempts = [...rest.attempts, result];
+      const round = attempts.length - firstAttempt;
+
+      if (!result.error) {
+        current = repository.saveDelivery({
+          ...rest,
+          attempts,
+          status: 'delivered',
+          completedAt: new Date().toISOString(),
+        });
+      } else if (round >= maxAttempts) {
+        getLogger().warn('webhook delivery dead', { deliveryId: current.id, attempts: round, error: result.error });
+        current = repository.saveDelivery({ ...rest, attempts, status: 'dead', completedAt: new Date().toISOString() });
+      } else {
+        const delay = retryDelayMs * 2 ** (round - 1);
+        current = repository.saveDelivery({
+          ...rest,
+          attempts,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  function start(delivery: WebhookDelivery) {
+    const run = deliver(delivery, delivery.attempts.length).catch((error) =>
+      getLogger().error('webhook delivery failed unexpectedly', { deliveryId: delivery.id, err: error }),
+    );
+
+    inFlight.add(run);
+    run.finally(() => inFlight.delete(run));
+  }
+
+  return {
+    dispatch(event) {
+      const payload = JSON.stringify(userEventPayload(event));
+
+      return repository
+        .list()
+        .filter((webhook) => subscribes(webhook, event))
+        .map((webhook) => {
+          const delivery = repository.saveDelivery({
+            id: randomUUID(),
+            webhookId: webhook.id,
+            eventId: event.id,
+            event: event.type,
+            payload,
+            status: 'pending',
+            attempts: [],
+            createdAt: new Date().toISOString(),
+          });
+
+          start(delivery);
+          return delivery;
+        });
+    },
+
+    redeliver(delivery) {
+      const { completedAt, ...rest } = delivery;
+      const requeued = repository.saveDelivery({ ...rest, status: 'pending' });
+
+      start(requeued);
+      return requeued;
+    },
+
+    async idle() {
+      while (inFlight.size > 0) {
+        await Promise.all([...inFlight]);
+      }
+    },
+  };
+}
@@ -27,6 +27,10 @@ export default defineConfig({
       reportsDirectory: 'coverage',
     },
     environment: 'node',
+    env: {
+      // keeps the JSON request logs out of the test output
+      LOG_LEVEL: 'silent',
+    },
     exclude: [
       '**/node_modules/**',
       '**/dist/**',